@@ -4,6 +4,7 @@ import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { KeyboardProvider } from 'react-native-keyboard-controller';
+import OfflineBanner from '~/components/OfflineBanner';
 import '../global.css';
 
 export default function Layout() {
@@ -18,6 +19,7 @@ export default function Layout() {
               <Stack.Screen name="index" options={{ headerShown: false }} />
               <Stack.Screen name="screens" options={{ headerShown: false }} />
             </Stack>
+            <OfflineBanner />
             <Toast />
           </BottomSheetModalProvider>
         </KeyboardProvider>
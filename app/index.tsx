@@ -8,7 +8,7 @@ import { useAuthStore } from '~/store/authStore';
 const Index = () => {
   const router = useRouter();
   const rootNavigationState = useRootNavigationState();
-  const { token, isLoading } = useAuthStore();
+  const { token, refreshToken, isLoading, refreshSession } = useAuthStore();
   const [isReady, setIsReady] = useState(false);
 
   useEffect(() => {
@@ -29,11 +29,22 @@ const Index = () => {
     if (isReady && !isLoading && rootNavigationState?.key) {
       if (token && !isJWTExpired(token)) {
         router.replace('/screens/(tabs)/dashboard');
+      } else if (token && refreshToken) {
+        // A successful refresh updates the token and re-runs this effect
+        refreshSession().then(
+          (refreshed) => {
+            if (!refreshed) {
+              router.replace('/screens/(auth)/RegisterScreen');
+            }
+          },
+          // Offline or the server is down: keep the session, requests refresh it again later
+          () => router.replace('/screens/(tabs)/dashboard')
+        );
       } else {
         router.replace('/screens/(auth)/RegisterScreen');
       }
     }
-  }, [isReady, isLoading, token, router, rootNavigationState]);
+  }, [isReady, isLoading, token, refreshToken, refreshSession, router, rootNavigationState]);
 
   // Show loading screen while checking auth state
   return (
@@ -16,6 +16,7 @@ import {
   View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { validateIndexNumber } from '~/lib/utils';
 import { useAuthStore } from '~/store/authStore';
 import { RegisterData } from '~/types/auth';
 
@@ -34,12 +35,6 @@ export default function RegisterScreen() {
   const { register, isLoading, error, clearError } = useAuthStore();
   const scrollViewRef = useRef<ScrollView>(null);
 
-  // Helper function to validate index number format
-  const validateIndexNumber = (indexNumber: string) => {
-    const regex = /^[A-Za-z]{2}\/[A-Za-z]{3}\/\d{2}\/\d{4}$/;
-    return regex.test(indexNumber);
-  };
-
   // Password validation checks
   const getPasswordChecks = (password: string) => {
     const passwordLower = password.toLowerCase();
@@ -1,11 +1,15 @@
 import { MaterialIcons } from '@expo/vector-icons';
 import { Tabs } from 'expo-router';
+import { useAttendanceQueueSync } from '~/store/attendanceQueueStore';
 import { useAuthStore } from '~/store/authStore';
 
 export default function TabLayout() {
   const role = useAuthStore((state) => state.role);
   const isLecturer = role === 'LECTURER';
 
+  // Replay attendance marked while offline as soon as connectivity returns
+  useAttendanceQueueSync();
+
   return (
     <Tabs
       screenOptions={{
@@ -3,55 +3,144 @@ import { Picker } from '@react-native-picker/picker';
 import * as Location from 'expo-location';
 import { useEffect, useState } from 'react';
 import { Alert, RefreshControl, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import QrScannerModal from '~/components/QrScannerModal';
+import TermSwitcher from '~/components/TermSwitcher';
+import { getErrorMessage } from '~/lib/apiClient';
+import { findAttendanceEntry, getAttendanceStatusDisplay } from '~/lib/attendanceUtils';
+import { formatDistance, getDistance, getGeofenceStatus } from '~/lib/geofence';
+import { isReliableLocation, sampleLocation } from '~/lib/locationIntegrity';
+import { ScannedQrCode } from '~/lib/qrCode';
+import { getCheckOutOpensAt, isCheckOutOpen } from '~/lib/sessionLifecycle';
+import { isDateInTerm } from '~/lib/terms';
 import { formatDateTime } from '~/lib/utils';
-import { useApiStore } from '~/store/apiStore';
+import {
+  useApiStore,
+  useIsLoading,
+  useResourceError,
+  useSelectedTerm,
+  useSessionList,
+} from '~/store/apiStore';
+import { useAttendanceQueueStore } from '~/store/attendanceQueueStore';
 import { useAuthStore } from '~/store/authStore';
-import { Attendance, Course } from '~/types/app';
+import {
+  Attendance,
+  Course,
+  LocationIntegrityFlag,
+  LocationIntegrityReport,
+  QueuedAttendance,
+} from '~/types/app';
+
+const geofenceStyles = {
+  inside: {
+    container: 'bg-green-50',
+    badge: 'bg-green-100',
+    title: 'text-green-800',
+    text: 'text-green-600',
+    icon: 'navigate-circle',
+    color: '#10b981',
+  },
+  outside: {
+    container: 'bg-red-50',
+    badge: 'bg-red-100',
+    title: 'text-red-800',
+    text: 'text-red-600',
+    icon: 'navigate-circle-outline',
+    color: '#ef4444',
+  },
+  uncertain: {
+    container: 'bg-yellow-50',
+    badge: 'bg-yellow-100',
+    title: 'text-yellow-800',
+    text: 'text-yellow-700',
+    icon: 'help-circle',
+    color: '#ca8a04',
+  },
+} as const;
+
+const integrityWarnings: Record<LocationIntegrityFlag, string> = {
+  MOCKED: 'A mock location was detected. Turn off any fake GPS apps to mark attendance.',
+  LOW_ACCURACY:
+    'Your location is not accurate enough to mark attendance. Try refreshing outdoors or near a window.',
+  IMPLAUSIBLE_JUMP:
+    'Your location changed unusually fast between readings. Refresh it to mark attendance.',
+};
 
 const AttendanceScreen = () => {
   const {
     activeSessions, // New state for active sessions
     attendance,
-    isLoading,
-    error,
-    sessions,
-    fetchSessions,
     fetchActiveSessions, // New function for active sessions
     fetchAttendance,
+    fetchSessionList,
     markAttendance,
+    checkOut,
     clearError,
   } = useApiStore();
 
   const { role, user } = useAuthStore();
+  const isLoading = useIsLoading('attendance');
+  const error = useResourceError('activeSessions', 'attendance');
+  const selectedTerm = useSelectedTerm();
+  const {
+    items: queueItems,
+    isSyncing,
+    syncQueue,
+    removeItem,
+    clearResolved,
+  } = useAttendanceQueueStore();
+
+  const myQueueItems = queueItems.filter((item) => item.owner === user?.email);
+
+  // History and counts cover the selected term; sessions open right now are always shown
+  const termAttendance = (Array.isArray(attendance) ? attendance : []).filter((record) =>
+    isDateInTerm(record.date, selectedTerm)
+  );
+  const { sessions: termSessions } = useSessionList({ termId: selectedTerm?.id });
 
   const [selectedSession, setSelectedSession] = useState<number | null>(null);
   const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [accuracy, setAccuracy] = useState<number | null>(null);
+  const [integrity, setIntegrity] = useState<LocationIntegrityReport | null>(null);
   const [locationError, setLocationError] = useState<string | null>(null);
   const [marking, setMarking] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const [scannedCode, setScannedCode] = useState<ScannedQrCode | null>(null);
   const [refreshing, setRefreshing] = useState(false);
 
   const IndexNumber = user?.IndexNumber;
 
   useEffect(() => {
-    Promise.all([requestLocationPermission(), loadInitialData()]);
+    const controller = new AbortController();
+    Promise.all([requestLocationPermission(), loadInitialData(false, controller.signal)]);
 
     // Check for new sessions after 5 seconds
     const timer = setTimeout(() => {
-      fetchActiveSessions(); // Changed to fetch active sessions
+      fetchActiveSessions({ force: true, signal: controller.signal });
     }, 5000);
 
-    return () => clearTimeout(timer);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
   }, []);
 
-  const loadInitialData = async () => {
-    await fetchActiveSessions(); // Changed to fetch active sessions
-    await fetchAttendance();
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchSessionList({ termId: selectedTerm?.id }, { signal: controller.signal });
+
+    return () => controller.abort();
+  }, [fetchSessionList, selectedTerm?.id]);
+
+  const loadInitialData = async (force = false, signal?: AbortSignal) => {
+    await fetchActiveSessions({ force, signal }); // Changed to fetch active sessions
+    await fetchAttendance({ force, signal });
+    await fetchSessionList({ termId: selectedTerm?.id }, { force, signal });
   };
 
   const onRefresh = async () => {
     setRefreshing(true);
     await requestLocationPermission();
-    await loadInitialData();
+    await loadInitialData(true);
     setRefreshing(false);
   };
 
@@ -65,19 +154,40 @@ const AttendanceScreen = () => {
         return;
       }
 
-      const currentLocation = await Location.getCurrentPositionAsync({
-        accuracy: Location.Accuracy.Highest,
-      });
+      // Several fixes rather than one, so spoofed or inaccurate readings can be caught
+      const sampled = await sampleLocation();
 
-      setLocation({
-        latitude: currentLocation.coords.latitude,
-        longitude: currentLocation.coords.longitude,
-      });
-    } catch (error) {
+      setLocation(sampled.location);
+      setAccuracy(sampled.accuracy);
+      setIntegrity(sampled.report);
+    } catch {
       setLocationError('Failed to get location');
     }
   };
 
+  // How far the student is from the selected session, so they know before submitting
+  const selectedSessionData = activeSessions.find((s) => s.id === selectedSession);
+  const distance =
+    selectedSessionData && location ? getDistance(location, selectedSessionData.location) : null;
+  const geofenceStatus =
+    selectedSessionData && distance !== null
+      ? getGeofenceStatus(distance, selectedSessionData.radius, accuracy ?? undefined)
+      : null;
+
+  // Students who checked in to a session that requires check-out submit again to check out
+  const myEntry =
+    selectedSessionData && user
+      ? findAttendanceEntry(selectedSessionData.attendance, user)
+      : undefined;
+  const isCheckingOut =
+    !!selectedSessionData?.requiresCheckOut && !!myEntry && !myEntry.checkedOutAt;
+  const canCheckOut = !!selectedSessionData && isCheckOutOpen(selectedSessionData);
+
+  const describeDistance = () =>
+    selectedSessionData && distance !== null
+      ? `You are about ${formatDistance(distance)} from the session location (allowed: ${formatDistance(selectedSessionData.radius)}).`
+      : '';
+
   const handleMarkAttendance = async () => {
     if (!selectedSession) {
       Alert.alert('Error', 'Please select a session');
@@ -89,21 +199,178 @@ const AttendanceScreen = () => {
       return;
     }
 
+    if (integrity?.flags.includes('MOCKED')) {
+      Alert.alert(
+        'Mock Location Detected',
+        'Your device is reporting a simulated location. Turn off any fake GPS apps, refresh your location and try again.'
+      );
+      return;
+    }
+
+    // Inaccurate or jumping readings could put a student inside the radius who isn't
+    if (integrity && !isReliableLocation(integrity)) {
+      Alert.alert(
+        'Location Not Reliable',
+        integrity.flags.map((flag) => integrityWarnings[flag]).join('\n\n')
+      );
+      return;
+    }
+
+    if (geofenceStatus === 'outside') {
+      Alert.alert(
+        'Too Far Away',
+        `${describeDistance()}\nMove closer and refresh your location, then try again.`
+      );
+      return;
+    }
+
+    const qrCode = scannedCode?.sessionId === selectedSession ? scannedCode : null;
+    if (selectedSessionData?.requiresQrCode && !qrCode) {
+      Alert.alert(
+        'Scan Required',
+        "This session requires the check-in code. Scan the code on your lecturer's screen first."
+      );
+      return;
+    }
+
+    const attendanceReq = {
+      sessionId: selectedSession,
+      location,
+      accuracy: accuracy ?? undefined,
+      integrity: integrity ?? undefined,
+      qrToken: qrCode?.token,
+    };
+
     setMarking(true);
 
+    if (isCheckingOut) {
+      try {
+        await checkOut(attendanceReq);
+        setScannedCode(null);
+        Alert.alert('Success', 'Checked out successfully!');
+        await Promise.all([fetchActiveSessions(), fetchAttendance()]);
+      } catch (error) {
+        Alert.alert(
+          'Error',
+          [getErrorMessage(error, 'Failed to check out'), describeDistance()]
+            .filter(Boolean)
+            .join('\n\n')
+        );
+      } finally {
+        setMarking(false);
+      }
+      return;
+    }
+
     try {
-      const success = await markAttendance({ sessionId: selectedSession, location });
-      if (success) {
+      const result = await markAttendance(attendanceReq);
+      setScannedCode(null);
+      if (result === 'marked') {
         Alert.alert('Success', 'Attendance marked successfully!');
-        await fetchAttendance();
+        await Promise.all([fetchActiveSessions(), fetchAttendance()]);
+      } else if (result === 'queued') {
+        Alert.alert(
+          'Attendance Queued',
+          "You appear to be offline. Your attendance has been saved on this device and will be submitted automatically when you're back online."
+        );
+      } else {
+        const message =
+          useApiStore.getState().requests.markAttendance?.error ||
+          'Failed to mark attendance.\n Try again!';
+        Alert.alert('Error', [message, describeDistance()].filter(Boolean).join('\n\n'));
       }
     } catch (error) {
-      Alert.alert('Error', 'Failed to mark attendance.\n Try again!');
+      Alert.alert('Error', getErrorMessage(error, 'Failed to mark attendance.\n Try again!'));
     } finally {
       setMarking(false);
     }
   };
 
+  const handleQrScanned = (code: ScannedQrCode) => {
+    setShowScanner(false);
+
+    if (!activeSessions.some((session) => session.id === code.sessionId)) {
+      Alert.alert(
+        'Session Not Active',
+        'This check-in code belongs to a session that is not active.'
+      );
+      return;
+    }
+
+    setSelectedSession(code.sessionId);
+    setScannedCode(code);
+  };
+
+  const handleSyncQueue = async () => {
+    const synced = await syncQueue();
+    if (synced > 0) {
+      await fetchAttendance();
+    }
+  };
+
+  const getQueueStatusDisplay = (item: QueuedAttendance) => {
+    switch (item.status) {
+      case 'synced':
+        return {
+          label: 'Synced',
+          badge: 'bg-green-100',
+          text: 'text-green-700',
+          dot: 'bg-green-500',
+        };
+      case 'rejected':
+        return { label: 'Rejected', badge: 'bg-red-100', text: 'text-red-700', dot: 'bg-red-500' };
+      default:
+        return {
+          label: 'Pending',
+          badge: 'bg-yellow-100',
+          text: 'text-yellow-700',
+          dot: 'bg-yellow-500',
+        };
+    }
+  };
+
+  const renderQueueItem = (item: QueuedAttendance) => {
+    const session = activeSessions.find((s) => s.id === item.request.sessionId);
+    const statusDisplay = getQueueStatusDisplay(item);
+    const { date, time } = formatDateTime(item.clientTimestamp);
+
+    return (
+      <View key={item.id} className="border-b border-gray-50 py-3">
+        <View className="flex-row items-center justify-between">
+          <View className="flex-1">
+            <Text className="text-sm font-semibold text-gray-800">
+              {session
+                ? `${session.course.courseCode}: ${session.course.courseName}`
+                : `Session #${item.request.sessionId}`}
+            </Text>
+            <Text className="text-xs text-gray-500">
+              Marked {date} at {time}
+            </Text>
+          </View>
+          <View className={`rounded-full px-3 py-1 ${statusDisplay.badge}`}>
+            <View className="flex-row items-center">
+              <View className={`mr-1 h-2 w-2 rounded-full ${statusDisplay.dot}`}></View>
+              <Text className={`text-xs font-medium ${statusDisplay.text}`}>
+                {statusDisplay.label}
+              </Text>
+            </View>
+          </View>
+          {item.status !== 'pending' && (
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={() => removeItem(item.id)}
+              className="ml-2 p-1">
+              <Ionicons name="close" size={16} color="#9ca3af" />
+            </TouchableOpacity>
+          )}
+        </View>
+        {item.status === 'rejected' && item.reason && (
+          <Text className="mt-1 text-xs text-red-600">{item.reason}</Text>
+        )}
+      </View>
+    );
+  };
+
   const renderAttendanceRecord = (record: Attendance, index: number, course: Course) => {
     const recordId = String(index);
     const lecturer = String(record.lecturer);
@@ -111,10 +378,8 @@ const AttendanceScreen = () => {
     const { date } = formatDateTime(record.date);
     const { time } = formatDateTime(record.date);
 
-    // Check if current user was present in this session
-    const wasPresent = record.studentList.some(
-      (student) => student.username === user?.username || student.email === user?.email
-    );
+    // Check if current user was present in this session, and whether they were on time
+    const attendanceStatus = user ? getAttendanceStatusDisplay(record, user) : null;
 
     return (
       <View
@@ -131,18 +396,31 @@ const AttendanceScreen = () => {
               <Text className="text-xs text-gray-500">{time}</Text>
             </View>
           </View>
-          <View className={`rounded-full px-3 py-1 ${wasPresent ? 'bg-green-100' : 'bg-red-100'}`}>
-            <View className="flex-row items-center">
-              <View
-                className={`mr-1 h-2 w-2 rounded-full ${wasPresent ? 'bg-green-500' : 'bg-red-500'}`}></View>
-              <Text
-                className={`text-xs font-medium ${wasPresent ? 'text-green-700' : 'text-red-700'}`}>
-                {wasPresent ? 'Present' : 'Absent'}
-              </Text>
+          {attendanceStatus && (
+            <View className={`rounded-full px-3 py-1 ${attendanceStatus.badgeColor}`}>
+              <View className="flex-row items-center">
+                <View
+                  className={`mr-1 h-2 w-2 rounded-full ${attendanceStatus.statusBarColor}`}></View>
+                <Text className={`text-xs font-medium ${attendanceStatus.textColor}`}>
+                  {attendanceStatus.statusText}
+                </Text>
+              </View>
             </View>
-          </View>
+          )}
         </View>
 
+        {/* Check-in time */}
+        {attendanceStatus?.checkedInAt && (
+          <View className="mb-2 flex-row items-center">
+            <View className="mr-3 rounded-full bg-gray-50 p-2">
+              <Ionicons name="time-outline" size={16} color="#6b7280" />
+            </View>
+            <Text className="text-xs text-gray-500">
+              Checked in at {formatDateTime(attendanceStatus.checkedInAt).time}
+            </Text>
+          </View>
+        )}
+
         {/* Course and lecturer info */}
         <View className="mb-2 flex-row items-center">
           <View className="mr-3 rounded-full bg-purple-50 p-2">
@@ -173,7 +451,10 @@ const AttendanceScreen = () => {
     <View className="mb-4 rounded-2xl border border-gray-100 bg-white p-5 shadow-sm">
       <View className="mb-3 flex-row items-center justify-between">
         <Text className="text-lg font-semibold text-gray-800">Location Status</Text>
-        {(locationError || !location) && (
+        {(locationError ||
+          !location ||
+          (geofenceStatus && geofenceStatus !== 'inside') ||
+          (integrity && integrity.flags.length > 0)) && (
           <TouchableOpacity
             activeOpacity={0.7}
             onPress={requestLocationPermission}
@@ -194,6 +475,7 @@ const AttendanceScreen = () => {
                 <Text className="text-sm font-medium text-green-800">Location Found</Text>
                 <Text className="text-xs text-green-600">
                   {location.latitude.toFixed(6)}, {location.longitude.toFixed(6)}
+                  {accuracy !== null && ` (±${formatDistance(accuracy)})`}
                 </Text>
               </View>
             ) : (
@@ -210,6 +492,39 @@ const AttendanceScreen = () => {
         </View>
       </View>
 
+      {selectedSessionData && distance !== null && geofenceStatus && (
+        <View className={`mt-3 rounded-xl p-4 ${geofenceStyles[geofenceStatus].container}`}>
+          <View className="flex-row items-center">
+            <View className={`mr-3 rounded-full p-2 ${geofenceStyles[geofenceStatus].badge}`}>
+              <Ionicons
+                name={geofenceStyles[geofenceStatus].icon}
+                size={20}
+                color={geofenceStyles[geofenceStatus].color}
+              />
+            </View>
+            <View className="flex-1">
+              <Text className={`text-sm font-medium ${geofenceStyles[geofenceStatus].title}`}>
+                {formatDistance(distance)} from the session
+              </Text>
+              <Text className={`text-xs ${geofenceStyles[geofenceStatus].text}`}>
+                {geofenceStatus === 'inside'
+                  ? `Within the ${formatDistance(selectedSessionData.radius)} check-in radius`
+                  : geofenceStatus === 'outside'
+                    ? `Move within ${formatDistance(selectedSessionData.radius)} to mark attendance`
+                    : `GPS accuracy is too low to confirm you are within ${formatDistance(selectedSessionData.radius)}. Try refreshing outdoors or near a window.`}
+              </Text>
+            </View>
+          </View>
+        </View>
+      )}
+
+      {integrity?.flags.map((flag) => (
+        <View key={flag} className="mt-3 flex-row items-center rounded-xl bg-yellow-50 p-3">
+          <Ionicons name="warning" size={16} color="#ca8a04" />
+          <Text className="ml-2 flex-1 text-xs text-yellow-800">{integrityWarnings[flag]}</Text>
+        </View>
+      ))}
+
       {locationError && (
         <TouchableOpacity
           activeOpacity={0.7}
@@ -230,9 +545,10 @@ const AttendanceScreen = () => {
         <View className="flex-row items-center justify-between">
           <View className="flex-1">
             <Text className="text-2xl font-bold text-white">Attendance</Text>
-            <Text className="text-sm text-blue-100">
-              {Array.isArray(attendance) ? attendance.length : 0} records available
-            </Text>
+            <Text className="text-sm text-blue-100">{termAttendance.length} records available</Text>
+            <View className="mt-2">
+              <TermSwitcher />
+            </View>
           </View>
           <View className="rounded-full bg-white/20 p-3">
             <Ionicons name="checkmark-circle" size={28} color="white" />
@@ -253,7 +569,9 @@ const AttendanceScreen = () => {
                 </View>
                 <Text className="flex-1 text-red-700">{error}</Text>
               </View>
-              <TouchableOpacity activeOpacity={0.7} onPress={clearError}>
+              <TouchableOpacity
+                activeOpacity={0.7}
+                onPress={() => clearError('activeSessions', 'attendance')}>
                 <Ionicons name="close" size={20} color="#dc2626" />
               </TouchableOpacity>
             </View>
@@ -270,13 +588,45 @@ const AttendanceScreen = () => {
               <Text className="text-xl font-semibold text-gray-800">Mark Attendance</Text>
             </View>
 
+            {/* QR Check-in */}
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={() => setShowScanner(true)}
+              disabled={marking}
+              className={`mb-4 flex-row items-center rounded-xl border p-4 ${
+                scannedCode ? 'border-green-200 bg-green-50' : 'border-blue-200 bg-blue-50'
+              }`}>
+              <View
+                className={`mr-3 rounded-full p-2 ${scannedCode ? 'bg-green-100' : 'bg-blue-100'}`}>
+                <Ionicons
+                  name={scannedCode ? 'checkmark-circle' : 'qr-code'}
+                  size={20}
+                  color={scannedCode ? '#10b981' : '#3b82f6'}
+                />
+              </View>
+              <View className="flex-1">
+                <Text
+                  className={`text-sm font-medium ${scannedCode ? 'text-green-800' : 'text-blue-800'}`}>
+                  {scannedCode ? 'Check-in code scanned' : 'Scan Check-in Code'}
+                </Text>
+                <Text className={`text-xs ${scannedCode ? 'text-green-600' : 'text-blue-600'}`}>
+                  {scannedCode
+                    ? 'Mark your attendance before the code rotates'
+                    : "Scan the code on your lecturer's screen"}
+                </Text>
+              </View>
+            </TouchableOpacity>
+
             {/* Session Picker */}
             <View className="mb-4">
               <Text className="mb-3 text-sm font-medium text-gray-700">Select Session</Text>
               <View className="overflow-hidden rounded-xl border border-gray-200 bg-gray-50">
                 <Picker
                   selectedValue={selectedSession}
-                  onValueChange={(itemValue) => setSelectedSession(itemValue)}
+                  onValueChange={(itemValue) => {
+                    setSelectedSession(itemValue);
+                    if (scannedCode?.sessionId !== itemValue) setScannedCode(null);
+                  }}
                   enabled={!marking}>
                   <Picker.Item label="Choose an active session" value={null} />
                   {/* Directly use activeSessions from store */}
@@ -294,30 +644,93 @@ const AttendanceScreen = () => {
             {/* Location Status */}
             <LocationStatusCard />
 
+            {/* Check-out Status */}
+            {selectedSessionData?.requiresCheckOut && myEntry && (
+              <View className="mb-4 flex-row items-center rounded-xl bg-indigo-50 p-4">
+                <Ionicons
+                  name={myEntry.checkedOutAt ? 'checkmark-done' : 'log-out-outline'}
+                  size={20}
+                  color="#6366f1"
+                />
+                <Text className="ml-3 flex-1 text-sm text-indigo-800">
+                  {myEntry.checkedOutAt
+                    ? `Checked out at ${formatDateTime(myEntry.checkedOutAt).time}`
+                    : canCheckOut
+                      ? 'This session requires check-out. Check out before you leave.'
+                      : `This session requires check-out. Check-out opens at ${
+                          formatDateTime(getCheckOutOpensAt(selectedSessionData)).time
+                        }.`}
+                </Text>
+              </View>
+            )}
+
             {/* Mark Attendance Button */}
             <TouchableOpacity
               activeOpacity={0.7}
               onPress={handleMarkAttendance}
-              disabled={marking || !location || !selectedSession}
+              disabled={marking || !location || !selectedSession || (isCheckingOut && !canCheckOut)}
               className={`flex-row items-center justify-center rounded-xl px-6 py-4 shadow-lg ${
-                marking || !location || !selectedSession
+                marking || !location || !selectedSession || (isCheckingOut && !canCheckOut)
                   ? 'bg-gray-300 shadow-none'
-                  : 'bg-green-600 shadow-green-200'
+                  : isCheckingOut
+                    ? 'bg-indigo-600 shadow-indigo-200'
+                    : 'bg-green-600 shadow-green-200'
               }`}>
               <View className="mr-3 rounded-full bg-white/20 p-1">
                 <Ionicons
-                  name={marking ? 'hourglass' : 'checkmark-circle'}
+                  name={marking ? 'hourglass' : isCheckingOut ? 'log-out' : 'checkmark-circle'}
                   size={20}
                   color="white"
                 />
               </View>
               <Text className="text-lg font-semibold text-white">
-                {marking ? 'Marking...' : 'Mark Attendance'}
+                {marking
+                  ? isCheckingOut
+                    ? 'Checking out...'
+                    : 'Marking...'
+                  : isCheckingOut
+                    ? 'Check Out'
+                    : 'Mark Attendance'}
               </Text>
             </TouchableOpacity>
           </View>
         )}
 
+        {/* Offline Queue - Only for Students */}
+        {role === 'STUDENT' && myQueueItems.length > 0 && (
+          <View className="mb-6 rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+            <View className="mb-2 flex-row items-center justify-between">
+              <View className="flex-row items-center">
+                <View className="mr-3 rounded-full bg-yellow-100 p-2">
+                  <Ionicons name="cloud-offline" size={20} color="#ca8a04" />
+                </View>
+                <Text className="text-xl font-semibold text-gray-800">Queued Marks</Text>
+              </View>
+              <View className="flex-row gap-2">
+                {myQueueItems.some((item) => item.status !== 'pending') && (
+                  <TouchableOpacity
+                    activeOpacity={0.7}
+                    onPress={clearResolved}
+                    className="rounded-full bg-gray-100 p-3">
+                    <Ionicons name="trash-outline" size={16} color="#374151" />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  activeOpacity={0.7}
+                  onPress={handleSyncQueue}
+                  disabled={isSyncing}
+                  className="rounded-full bg-gray-100 p-3">
+                  <Ionicons name={isSyncing ? 'hourglass' : 'sync'} size={16} color="#374151" />
+                </TouchableOpacity>
+              </View>
+            </View>
+            <Text className="mb-2 text-xs text-gray-500">
+              Attendance marked while offline is submitted automatically when you reconnect.
+            </Text>
+            {myQueueItems.map(renderQueueItem)}
+          </View>
+        )}
+
         {/* Attendance Records */}
         <View className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
           <View className="mb-4 flex-row items-center justify-between">
@@ -329,7 +742,7 @@ const AttendanceScreen = () => {
             </View>
             <TouchableOpacity
               activeOpacity={0.7}
-              onPress={loadInitialData}
+              onPress={() => loadInitialData(true)}
               disabled={isLoading}
               className="rounded-full bg-gray-100 p-3">
               <Ionicons name="refresh" size={16} color="#374151" />
@@ -343,9 +756,9 @@ const AttendanceScreen = () => {
               </View>
               <Text className="text-gray-600">Loading attendance records...</Text>
             </View>
-          ) : Array.isArray(sessions) && sessions.length > 0 ? (
+          ) : termSessions.length > 0 ? (
             <View className="mt-4">
-              {sessions
+              {termSessions
                 .map((record, index) =>
                   renderAttendanceRecord(record.attendance, index, record.course)
                 )
@@ -364,6 +777,12 @@ const AttendanceScreen = () => {
           )}
         </View>
       </ScrollView>
+
+      <QrScannerModal
+        visible={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScanned={handleQrScanned}
+      />
     </View>
   );
 };
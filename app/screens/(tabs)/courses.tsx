@@ -13,8 +13,13 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import CourseEditModal from '~/components/CourseEditModal';
 import CustomBottomSheetModal from '~/components/CustomBottomSheetModal';
-import { useApiStore } from '~/store/apiStore';
+import TermSwitcher from '~/components/TermSwitcher';
+import { getErrorMessage } from '~/lib/apiClient';
+import { COURSE_STAFF_ROLE_LABELS, getCourseRole } from '~/lib/courseStaff';
+import { isCourseInTerm } from '~/lib/terms';
+import { useApiStore, useIsLoading, useResourceError, useSelectedTerm } from '~/store/apiStore';
 import { useAuthStore } from '~/store/authStore';
 import { Course } from '~/types/app';
 
@@ -25,9 +30,16 @@ interface NewCourseData {
 
 const CoursesScreen = () => {
   const { user, role } = useAuthStore();
-  const { courses, isLoading, error, fetchCourses, addCourse, clearError } = useApiStore();
+  const { courses, fetchCourses, addCourse, enrollInCourse, clearError } = useApiStore();
+  const isLoadingCourses = useIsLoading('courses');
+  const isAddingCourse = useIsLoading('addCourse');
+  const isEnrolling = useIsLoading('enroll');
+  const selectedTerm = useSelectedTerm();
+  const error = useResourceError('courses', 'addCourse');
 
   const [searchQuery, setSearchQuery] = useState('');
+  const [editingCourse, setEditingCourse] = useState<Course | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [newCourse, setNewCourse] = useState<NewCourseData>({
     courseName: '',
@@ -44,13 +56,13 @@ const CoursesScreen = () => {
   useEffect(() => {
     if (error) {
       Alert.alert('Error', error);
-      clearError();
+      clearError('courses', 'addCourse');
     }
   }, [error, clearError]);
 
   const handleRefresh = async () => {
     setRefreshing(true);
-    await fetchCourses();
+    await fetchCourses({ force: true });
     setRefreshing(false);
   };
 
@@ -66,6 +78,8 @@ const CoursesScreen = () => {
         courseName: newCourse.courseName.trim(),
         courseCode: newCourse.courseCode.trim(),
         department: user?.department || '',
+        // New courses belong to the term being viewed
+        termId: selectedTerm?.id,
       });
 
       bottomSheetRef.current?.dismiss();
@@ -77,18 +91,41 @@ const CoursesScreen = () => {
     }
   };
 
-  const filteredCourses = courses.filter(
+  const handleEnroll = (course: Course) => {
+    Alert.alert('Enroll', `Enroll in ${course.courseCode} - ${course.courseName}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Enroll',
+        onPress: async () => {
+          try {
+            await enrollInCourse(course.courseCode);
+          } catch (err) {
+            Alert.alert('Error', getErrorMessage(err, 'Failed to enroll in course'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const termCourses = courses.filter((course) => isCourseInTerm(course, selectedTerm));
+  const filteredCourses = termCourses.filter(
     (course) =>
       course.courseName.toLowerCase().includes(searchQuery.toLowerCase()) ||
       course.courseCode.toLowerCase().includes(searchQuery.toLowerCase())
   );
+  const activeCourses = filteredCourses.filter((course) => !course.archivedAt);
+  const archivedCourses = filteredCourses.filter((course) => !!course.archivedAt);
+  const activeCount = termCourses.filter((course) => !course.archivedAt).length;
 
   const renderCourseCard = ({ item: course }: { item: Course }) => {
     const courseName = course.courseName ? String(course.courseName) : 'Unknown Course';
     const courseCode = course.courseCode ? String(course.courseCode) : 'N/A';
     const courseId = course.courseCode ? String(course.courseCode) : String(Math.random());
 
-    const isOwnCourse = isLecturer && course.lecturerId === user?.id;
+    const staffRole = isLecturer ? getCourseRole(course, user) : null;
+    const isOwnCourse = staffRole === 'OWNER';
+    const isEnrolled = !isLecturer && !!course.enrolledAt;
+    const isArchived = !!course.archivedAt;
 
     // Generate a color based on course code for visual variety
     const getCardColor = (code: string) => {
@@ -110,7 +147,8 @@ const CoursesScreen = () => {
       <TouchableOpacity
         activeOpacity={0.7}
         key={courseId}
-        className="mb-4 overflow-hidden rounded-2xl bg-white shadow-lg"
+        className={`mb-4 overflow-hidden rounded-2xl bg-white shadow-lg ${isArchived ? 'opacity-70' : ''}`}
+        onLongPress={isOwnCourse ? () => setEditingCourse(course) : undefined}
         onPress={() => {
           role === 'LECTURER' &&
             router.push({
@@ -124,15 +162,29 @@ const CoursesScreen = () => {
             });
         }}>
         {/* Header with solid color background */}
-        <View className={`${cardColor.bg} p-4`}>
+        <View className={`${isArchived ? 'bg-gray-500' : cardColor.bg} p-4`}>
           <View className="flex-row items-center justify-between">
             <View className="flex-1">
               <Text className="text-lg font-bold text-white">{courseCode}</Text>
               <Text className="text-sm text-white/80">Course Code</Text>
             </View>
-            {isOwnCourse && (
+            {staffRole && (
+              <View className="rounded-full bg-white/20 px-3 py-1">
+                <Text className="text-xs font-medium text-white">
+                  {isOwnCourse ? 'Your Course' : COURSE_STAFF_ROLE_LABELS[staffRole]}
+                </Text>
+              </View>
+            )}
+            {isEnrolled && (
               <View className="rounded-full bg-white/20 px-3 py-1">
-                <Text className="text-xs font-medium text-white">Your Course</Text>
+                <Text className="text-xs font-medium text-white">Enrolled</Text>
+              </View>
+            )}
+            {isArchived && (
+              <View className="ml-2 rounded-full bg-white/20 px-3 py-1">
+                <Text className="text-xs font-medium text-white">
+                  {course.archivedSemester ?? 'Archived'}
+                </Text>
               </View>
             )}
           </View>
@@ -147,7 +199,11 @@ const CoursesScreen = () => {
             <View className={`mr-2 rounded-full p-2 ${cardColor.accent}`}>
               <MaterialIcons name="school" size={16} color={cardColor.bg.replace('bg-', '#')} />
             </View>
-            <Text className="text-sm text-gray-600">Academic Course</Text>
+            <Text className="text-sm text-gray-600">
+              {isLecturer && course.studentCount !== undefined
+                ? `${course.studentCount} ${course.studentCount === 1 ? 'student' : 'students'} enrolled`
+                : 'Academic Course'}
+            </Text>
           </View>
 
           {/* Footer */}
@@ -158,15 +214,56 @@ const CoursesScreen = () => {
               </View>
               <Text className="text-xs text-gray-500">View Details</Text>
             </View>
-            <View className="rounded-full bg-gray-100 p-1">
-              <MaterialIcons name="chevron-right" size={16} color="#9ca3af" />
-            </View>
+            {isOwnCourse ? (
+              <TouchableOpacity
+                activeOpacity={0.7}
+                onPress={() => setEditingCourse(course)}
+                className="flex-row items-center rounded-full bg-gray-100 px-3 py-1.5">
+                <MaterialIcons name="edit" size={14} color="#4b5563" />
+                <Text className="ml-1 text-xs font-medium text-gray-600">Edit</Text>
+              </TouchableOpacity>
+            ) : !isLecturer && !isEnrolled && !isArchived ? (
+              <TouchableOpacity
+                activeOpacity={0.7}
+                disabled={isEnrolling}
+                onPress={() => handleEnroll(course)}
+                className="rounded-full bg-blue-600 px-4 py-1.5">
+                <Text className="text-xs font-semibold text-white">Enroll</Text>
+              </TouchableOpacity>
+            ) : (
+              <View className="rounded-full bg-gray-100 p-1">
+                <MaterialIcons name="chevron-right" size={16} color="#9ca3af" />
+              </View>
+            )}
           </View>
         </View>
       </TouchableOpacity>
     );
   };
 
+  const renderArchivedCourses = () =>
+    archivedCourses.length > 0 && (
+      <View className="mt-2">
+        <TouchableOpacity
+          activeOpacity={0.7}
+          onPress={() => setShowArchived((show) => !show)}
+          className="mb-4 flex-row items-center justify-between rounded-xl bg-gray-100 px-4 py-3">
+          <View className="flex-row items-center">
+            <MaterialIcons name="archive" size={18} color="#6b7280" />
+            <Text className="ml-2 font-semibold text-gray-700">
+              Archived ({archivedCourses.length})
+            </Text>
+          </View>
+          <MaterialIcons
+            name={showArchived ? 'expand-less' : 'expand-more'}
+            size={20}
+            color="#6b7280"
+          />
+        </TouchableOpacity>
+        {showArchived && archivedCourses.map((course) => renderCourseCard({ item: course }))}
+      </View>
+    );
+
   const renderEmptyState = () => (
     <View className="flex-1 items-center justify-center py-20">
       <View className="mb-6 rounded-full bg-blue-100 p-8">
@@ -206,8 +303,11 @@ const CoursesScreen = () => {
           <View className="flex-1">
             <Text className="text-2xl font-bold text-white">Courses</Text>
             <Text className="text-sm text-blue-100">
-              {courses.length} {courses.length === 1 ? 'course' : 'courses'} available
+              {activeCount} {activeCount === 1 ? 'course' : 'courses'} available
             </Text>
+            <View className="mt-2">
+              <TermSwitcher />
+            </View>
           </View>
           <View className="rounded-full bg-white/20 p-3">
             <MaterialIcons name="school" size={28} color="white" />
@@ -233,7 +333,7 @@ const CoursesScreen = () => {
       </View>
 
       {/* Courses List */}
-      {isLoading && courses.length === 0 ? (
+      {isLoadingCourses && courses.length === 0 ? (
         <View className="flex-1 items-center justify-center">
           <View className="mb-4 rounded-full bg-blue-100 p-4">
             <ActivityIndicator size="large" color="#3b82f6" />
@@ -243,7 +343,7 @@ const CoursesScreen = () => {
         </View>
       ) : (
         <FlatList
-          data={filteredCourses}
+          data={activeCourses}
           renderItem={renderCourseCard}
           keyExtractor={(item, index) =>
             item.lecturerId ? String(item.courseCode) : String(index)
@@ -251,7 +351,8 @@ const CoursesScreen = () => {
           contentContainerStyle={{ padding: 16, flexGrow: 1 }}
           showsVerticalScrollIndicator={false}
           refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
-          ListEmptyComponent={renderEmptyState}
+          ListEmptyComponent={archivedCourses.length === 0 ? renderEmptyState : null}
+          ListFooterComponent={renderArchivedCourses}
         />
       )}
 
@@ -267,6 +368,12 @@ const CoursesScreen = () => {
         </TouchableOpacity>
       )}
 
+      <CourseEditModal
+        visible={!!editingCourse}
+        course={editingCourse}
+        onClose={() => setEditingCourse(null)}
+      />
+
       {/* Enhanced Add Course Modal */}
       <CustomBottomSheetModal ref={bottomSheetRef}>
         <BottomSheetView style={{ flex: 1, width: '100%' }}>
@@ -288,9 +395,9 @@ const CoursesScreen = () => {
               <TouchableOpacity
                 activeOpacity={0.7}
                 onPress={handleAddCourse}
-                disabled={isLoading}
-                className={`rounded-full bg-blue-500 p-2 ${isLoading ? 'opacity-50' : ''}`}>
-                {isLoading ? (
+                disabled={isAddingCourse}
+                className={`rounded-full bg-blue-500 p-2 ${isAddingCourse ? 'opacity-50' : ''}`}>
+                {isAddingCourse ? (
                   <ActivityIndicator size="small" color="white" />
                 ) : (
                   <MaterialIcons name="check" size={20} color="white" />
@@ -336,14 +443,16 @@ const CoursesScreen = () => {
             <TouchableOpacity
               activeOpacity={0.7}
               onPress={handleAddCourse}
-              disabled={isLoading || !newCourse.courseName.trim() || !newCourse.courseCode.trim()}
+              disabled={
+                isAddingCourse || !newCourse.courseName.trim() || !newCourse.courseCode.trim()
+              }
               className={`rounded-xl py-4 ${
-                isLoading || !newCourse.courseName.trim() || !newCourse.courseCode.trim()
+                isAddingCourse || !newCourse.courseName.trim() || !newCourse.courseCode.trim()
                   ? 'bg-gray-300'
                   : 'bg-blue-600'
               }`}>
               <View className="flex-row items-center justify-center">
-                {isLoading ? (
+                {isAddingCourse ? (
                   <ActivityIndicator size="small" color="white" />
                 ) : (
                   <>
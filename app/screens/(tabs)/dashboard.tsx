@@ -2,8 +2,12 @@ import { Ionicons, MaterialIcons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { ActivityIndicator, Alert, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import TermSwitcher from '~/components/TermSwitcher';
+import { getCourseRole, isStaffSession } from '~/lib/courseStaff';
+import { isSessionOpen } from '~/lib/sessionLifecycle';
+import { isCourseInTerm, isDateInTerm } from '~/lib/terms';
 import { formatDate } from '~/lib/utils';
-import { useApiStore } from '~/store/apiStore';
+import { useApiStore, useIsLoading, useSelectedTerm, useSessionList } from '~/store/apiStore';
 import { useAuthStore } from '~/store/authStore';
 
 interface QuickActionCardProps {
@@ -22,21 +26,38 @@ export default function DashboardScreen() {
   const signOut = useAuthStore((state) => state.signOut);
   const {
     courses,
-    sessions,
     activeSessions,
     attendance,
-    isLoading,
     fetchCourses,
     fetchActiveSessions,
     fetchAttendance,
+    fetchSessionList,
   } = useApiStore();
 
   const isLecturer = role === 'LECTURER';
+  const isLoadingCourses = useIsLoading('courses');
+  const selectedTerm = useSelectedTerm();
+  const termSessions = useSessionList({ termId: selectedTerm?.id });
 
   useEffect(() => {
-    Promise.all([fetchCourses(), fetchActiveSessions(), fetchAttendance()]);
+    const controller = new AbortController();
+    const { signal } = controller;
+    Promise.all([
+      fetchCourses({ signal }),
+      fetchActiveSessions({ signal }),
+      fetchAttendance({ signal }),
+    ]);
+
+    return () => controller.abort();
   }, []);
 
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchSessionList({ termId: selectedTerm?.id }, { signal: controller.signal });
+
+    return () => controller.abort();
+  }, [fetchSessionList, selectedTerm?.id]);
+
   useEffect(() => {
     if (token && !user) {
       loadUserProfile();
@@ -59,7 +80,7 @@ export default function DashboardScreen() {
     ]);
   };
 
-  if (isLoading && courses.length === 0) {
+  if (isLoadingCourses && courses.length === 0) {
     return (
       <View className="flex-1 items-center justify-center bg-slate-50">
         <View className="mb-4 rounded-full bg-blue-100 p-4">
@@ -117,14 +138,19 @@ export default function DashboardScreen() {
     </TouchableOpacity>
   );
 
-  const recentSessions = sessions
-    .filter((session) => session.lecturer?.email === user?.email)
+  // Scope everything but the live sessions to the selected term
+  const termCourses = courses.filter((c) => isCourseInTerm(c, selectedTerm));
+  const termAttendance = attendance.filter((record) => isDateInTerm(record.date, selectedTerm));
+
+  const recentSessions = termSessions.sessions
+    .filter((session) => isStaffSession(session, courses, user))
     .slice(0, 3);
 
   // Calculate active sessions
+  const activeCourses = termCourses.filter((c) => !c.archivedAt);
   const myCourses = isLecturer
-    ? courses.filter((c) => c.lecturerId === user?.id).length
-    : courses.length;
+    ? activeCourses.filter((c) => getCourseRole(c, user) !== null).length
+    : activeCourses.length;
 
   return (
     <ScrollView className="flex-1 bg-slate-50" showsVerticalScrollIndicator={false}>
@@ -136,12 +162,13 @@ export default function DashboardScreen() {
             <Text className="text-2xl font-bold text-white">
               {user?.firstName} {user?.lastName}
             </Text>
-            <View className="mt-2 flex-row items-center">
+            <View className="mt-2 flex-row items-center gap-2">
               <View className="rounded-full bg-white/20 px-3 py-1">
                 <Text className="text-xs font-medium text-white">
                   {isLecturer ? 'Lecturer' : user?.username || 'Student'}
                 </Text>
               </View>
+              <TermSwitcher />
             </View>
           </View>
           <TouchableOpacity
@@ -165,7 +192,7 @@ export default function DashboardScreen() {
                 </View>
               </View>
               <View className="pr-12">
-                <Text className="text-5xl font-bold text-white">{courses.length}</Text>
+                <Text className="text-5xl font-bold text-white">{termCourses.length}</Text>
                 <Text className="mt-1 text-sm font-medium text-white/70">Total Courses</Text>
               </View>
             </View>
@@ -183,7 +210,9 @@ export default function DashboardScreen() {
                   </View>
                 </View>
                 <View className="pr-12">
-                  <Text className="text-5xl font-bold text-white">{sessions.length}</Text>
+                  <Text className="text-5xl font-bold text-white">
+                    {termSessions.totalElements}
+                  </Text>
                   <Text className="mt-1 text-sm font-medium text-white/70">Total Sessions</Text>
                 </View>
               </View>
@@ -200,7 +229,7 @@ export default function DashboardScreen() {
                   </View>
                 </View>
                 <View className="pr-12">
-                  <Text className="text-5xl font-bold text-white">{attendance.length}</Text>
+                  <Text className="text-5xl font-bold text-white">{termAttendance.length}</Text>
                   <Text className="mt-1 text-sm font-medium text-white/70">Attendance</Text>
                 </View>
               </View>
@@ -290,7 +319,7 @@ export default function DashboardScreen() {
             </View>
             <View className="space-y-3">
               {recentSessions.map((session) => {
-                const statusColor = session.status === 'ACTIVE' ? 'bg-green-500' : 'bg-gray-400';
+                const statusColor = isSessionOpen(session) ? 'bg-green-500' : 'bg-gray-400';
                 return (
                   <TouchableOpacity
                     key={session.id}
@@ -313,7 +342,7 @@ export default function DashboardScreen() {
                           <Text className="ml-1 text-sm text-gray-500">
                             {formatDate(session.startTime)}
                           </Text>
-                          {session.status === 'ACTIVE' && (
+                          {isSessionOpen(session) && (
                             <View className="ml-3 flex-row items-center">
                               <View className="mr-1 h-2 w-2 rounded-full bg-green-500" />
                               <Text className="text-xs font-medium text-green-600">Live</Text>
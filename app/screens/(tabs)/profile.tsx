@@ -18,7 +18,7 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { ActivityIndicator, Alert, ScrollView, Text, TouchableOpacity, View } from 'react-native';
-import { useApiStore } from '~/store/apiStore';
+import { useApiStore, useIsLoading, useResourceError } from '~/store/apiStore';
 import { useAuthStore } from '~/store/authStore';
 
 interface ProfileField {
@@ -32,8 +32,6 @@ export default function ProfileScreen() {
   const { user, signOut, token, role } = useAuthStore();
   const {
     fetchUserProfile,
-    isLoading,
-    error,
     clearError,
     courses,
     activeSessions,
@@ -43,6 +41,8 @@ export default function ProfileScreen() {
     fetchAttendance,
   } = useApiStore();
 
+  const isRefreshingProfile = useIsLoading('profile');
+  const error = useResourceError('profile', 'courses', 'activeSessions', 'attendance');
   const [profileLoading, setProfileLoading] = useState(false);
   const [isStudent, setIsStudent] = useState(user?.role === 'STUDENT');
 
@@ -103,17 +103,25 @@ export default function ProfileScreen() {
   useEffect(() => {
     if (error) {
       Alert.alert('Error', error);
-      clearError();
+      clearError('profile', 'courses', 'activeSessions', 'attendance');
     }
   }, [error]);
 
   useEffect(() => {
-    if (token && isStudent) {
-      // Fetch academic data for students
-      Promise.all([fetchCourses(), fetchActiveSessions(), fetchAttendance()]).catch((err) => {
-        console.error('Failed to fetch academic data:', err);
-      });
-    }
+    if (!token || !isStudent) return;
+
+    // Fetch academic data for students, cancelling it if we leave before it arrives
+    const controller = new AbortController();
+    const { signal } = controller;
+    Promise.all([
+      fetchCourses({ signal }),
+      fetchActiveSessions({ signal }),
+      fetchAttendance({ signal }),
+    ]).catch((err) => {
+      console.error('Failed to fetch academic data:', err);
+    });
+
+    return () => controller.abort();
   }, [token, isStudent]);
 
   const loadUserProfile = async () => {
@@ -374,7 +382,7 @@ export default function ProfileScreen() {
             <TouchableOpacity
               activeOpacity={0.7}
               onPress={loadUserProfile}
-              disabled={isLoading}
+              disabled={isRefreshingProfile}
               className="mb-3 flex-row items-center justify-between rounded-xl border border-gray-200 bg-gray-50 p-4">
               <View className="flex-row items-center">
                 <View className="mr-3 rounded-full bg-green-100 p-2">
@@ -385,7 +393,7 @@ export default function ProfileScreen() {
                   <Text className="text-sm text-gray-500">Update your information</Text>
                 </View>
               </View>
-              {isLoading ? (
+              {isRefreshingProfile ? (
                 <ActivityIndicator size="small" color="#6b7280" />
               ) : (
                 <MaterialIcons name="chevron-right" size={24} color="#9ca3af" />
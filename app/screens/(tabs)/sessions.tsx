@@ -4,7 +4,7 @@
  * New Features:
  * - Modern solid color header matching CoursesScreen design
  * - Enhanced session cards with better visual hierarchy and status indicators
- * - Improved search functionality with modern styling
+ * - Server-side search and status filters with infinite scroll
  * - Better empty states with engaging illustrations
  * - Enhanced location status display
  * - Improved modal design with better form layout
@@ -18,23 +18,42 @@
 import { Ionicons } from '@expo/vector-icons';
 import { showToast } from 'au-react-native-toast';
 import * as Location from 'expo-location';
-import { useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
   FlatList,
   Modal,
   RefreshControl,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
+import uuid from 'react-native-uuid';
+import DateTimeField from '~/components/DateTimeField';
+import TermSwitcher from '~/components/TermSwitcher';
+import { getErrorMessage } from '~/lib/apiClient';
+import { DEFAULT_LATE_THRESHOLD_MINUTES, LATE_THRESHOLD_OPTIONS } from '~/lib/attendanceUtils';
+import { hasCoursePermission } from '~/lib/courseStaff';
+import { DEFAULT_GEOFENCE_RADIUS, formatDistance, GEOFENCE_RADIUS_OPTIONS } from '~/lib/geofence';
+import { isSessionOpen } from '~/lib/sessionLifecycle';
+import { isCourseInTerm } from '~/lib/terms';
 import { formatDate } from '~/lib/utils';
-import { useApiStore } from '~/store/apiStore';
+import { useApiStore, useIsLoading, useResourceError, useSelectedTerm } from '~/store/apiStore';
 import { useAuthStore } from '~/store/authStore';
-import { Session } from '~/types/app';
+import { Session, SessionQuery } from '~/types/app';
+
+/**
+ * The start of the next hour, used as the default time for scheduled sessions.
+ */
+const getNextHour = () => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+};
 
 interface SessionScreenProps {
   navigation?: any;
@@ -45,29 +64,80 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedCourse, setSelectedCourse] = useState('');
   const [sessionTimeMinutes, setSessionTimeMinutes] = useState(300); // Default 5 hours in minutes
+  const [geofenceRadius, setGeofenceRadius] = useState(DEFAULT_GEOFENCE_RADIUS);
+  const [lateThreshold, setLateThreshold] = useState<number>(); // Undefined uses the course default
+  const [requiresCheckOut, setRequiresCheckOut] = useState(false);
+  const [requiresQrCode, setRequiresQrCode] = useState(false);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [scheduledStart, setScheduledStart] = useState(() => getNextHour());
   const [locationError, setLocationError] = useState<string | null>(null);
   const [location, setLocation] = useState<{ latitude: number; longitude: number }>();
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<SessionQuery['status']>();
+  // Identifies the create form's submission, so retrying it can't create the session twice
+  const [submissionId, setSubmissionId] = useState(() => uuid.v4() as string);
 
   const router = useRouter();
   const {
     sessions,
+    sessionsPage,
     courses,
-    isLoading,
-    error,
     fetchSessions,
+    loadMoreSessions,
     fetchCourses,
     createSession,
+    discardSessionSubmission,
     clearError,
   } = useApiStore();
 
   const { role, user } = useAuthStore();
+  const isLoadingSessions = useIsLoading('sessions');
+  const isLoadingMore = useIsLoading('moreSessions');
+  const isCreating = useIsLoading('createSession');
+  const error = useResourceError('sessions', 'courses');
+  const loadMoreError = useResourceError('moreSessions');
+  const selectedTerm = useSelectedTerm();
+
+  const courseLateThreshold =
+    courses.find((course) => course.courseName === selectedCourse)?.lateThresholdMinutes ??
+    DEFAULT_LATE_THRESHOLD_MINUTES;
 
   useEffect(() => {
-    loadData();
     requestLocationPermission();
   }, []);
 
+  // Wait for the user to stop typing before searching on the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery), 400);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const loadData = useCallback(
+    async (force = false) => {
+      await Promise.all([
+        fetchSessions({
+          force,
+          query: {
+            search: debouncedSearch,
+            status: statusFilter,
+            termId: selectedTerm?.id,
+            staffOnly: true,
+          },
+        }),
+        fetchCourses({ force }),
+      ]);
+    },
+    [fetchSessions, fetchCourses, debouncedSearch, statusFilter, selectedTerm?.id]
+  );
+
+  // Other screens share the session list with their own filters; reapply ours on focus
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
   // Convert minutes to seconds for the API
   const convertMinutesToSeconds = (minutes: number): number => {
     return minutes * 60;
@@ -81,17 +151,31 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
     { label: '20', value: 20 },
   ];
 
-  const loadData = async () => {
-    await Promise.all([fetchSessions(), fetchCourses()]);
-  };
+  // Status filters offered above the list
+  const statusOptions: { label: string; value: SessionQuery['status'] }[] = [
+    { label: 'All', value: undefined },
+    { label: 'Active', value: 'ACTIVE' },
+    { label: 'Scheduled', value: 'SCHEDULED' },
+    { label: 'Closed', value: 'CLOSED' },
+  ];
 
   const onRefresh = async () => {
     setRefreshing(true);
     await requestLocationPermission();
-    await loadData();
+    await loadData(true);
     setRefreshing(false);
   };
 
+  const openCreateModal = () => {
+    setSubmissionId(uuid.v4() as string);
+    setShowCreateModal(true);
+  };
+
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    discardSessionSubmission(submissionId);
+  };
+
   const handleCreateSession = async () => {
     if (!selectedCourse.trim()) {
       showToast(
@@ -115,6 +199,17 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
       return;
     }
 
+    if (isScheduling && scheduledStart.getTime() <= Date.now()) {
+      showToast(
+        'Please choose a start time in the future.',
+        3000,
+        true,
+        { backgroundColor: 'pink', padding: 5 },
+        { color: 'red', fontSize: 15 }
+      );
+      return;
+    }
+
     try {
       if (!location) {
         Alert.alert('Error', 'Location is required to create a session');
@@ -124,20 +219,38 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
       // Convert minutes to seconds for the API
       const timeInSeconds = convertMinutesToSeconds(sessionTimeMinutes);
 
-      await createSession({ courseName: selectedCourse, location }, timeInSeconds);
+      await createSession(
+        {
+          courseName: selectedCourse,
+          location,
+          radius: geofenceRadius,
+          lateThresholdMinutes: lateThreshold,
+          requiresCheckOut,
+          requiresQrCode,
+          startTime: isScheduling ? scheduledStart.toISOString() : undefined,
+        },
+        timeInSeconds,
+        submissionId
+      );
       setShowCreateModal(false);
       setSelectedCourse('');
       setSessionTimeMinutes(5); // Reset to default
+      setGeofenceRadius(DEFAULT_GEOFENCE_RADIUS);
+      setLateThreshold(undefined);
+      setRequiresCheckOut(false);
+      setRequiresQrCode(false);
+      setIsScheduling(false);
+      setScheduledStart(getNextHour());
 
       showToast(
-        'Session created successfully',
+        isScheduling ? 'Session scheduled successfully' : 'Session created successfully',
         3000,
         true,
         { backgroundColor: '#C0FFCB', padding: 5 },
         { color: 'green', fontSize: 15 }
       );
     } catch (err) {
-      Alert.alert('Error', 'Failed to create session');
+      Alert.alert('Error', getErrorMessage(err, 'Failed to create session'));
     }
   };
 
@@ -166,24 +279,16 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
         latitude: currentLocation.coords.latitude,
         longitude: currentLocation.coords.longitude,
       });
-    } catch (error) {
+    } catch {
       setLocationError('Failed to get location');
     }
   };
 
-  // Filter sessions based on search query
-  const filteredSessions = sessions
-    .filter((session) => session.lecturer?.email === user?.email)
-    .filter((session) => {
-      const courseName = session.course?.courseName || '';
-      const courseCode = session.course?.courseCode || '';
-      const searchLower = searchQuery.toLowerCase();
-      return (
-        courseName.toLowerCase().includes(searchLower) ||
-        courseCode.toLowerCase().includes(searchLower)
-      );
-    })
-    .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+  // Search, status and staff filters are applied by the server, so the counts above match the list.
+  // Sessions of courses this lecturer teaches are listed whichever staff member ran them.
+  const sortedSessions = [...sessions].sort(
+    (a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+  );
 
   const renderSessionCard = ({ item: session }: { item: Session }) => {
     const courseName = session.course?.courseName || 'Unknown Course';
@@ -197,6 +302,10 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
       switch (status) {
         case 'ACTIVE':
           return '#10b981'; // green
+        case 'REOPENED':
+          return '#f59e0b'; // amber
+        case 'SCHEDULED':
+          return '#6366f1'; // indigo
         case 'COMPLETED':
           return '#3b82f6'; // blue
         case 'CANCELLED':
@@ -226,7 +335,7 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
               <View className="mt-1 flex-row items-center">
                 <Ionicons name="time-outline" size={14} color="#6b7280" />
                 <Text className="ml-1 text-xs text-gray-500">{formatDate(String(startTime))}</Text>
-                {status === 'ACTIVE' && (
+                {isSessionOpen(session) && (
                   <>
                     <View className="mx-2 h-1 w-1 rounded-full bg-gray-400" />
                     <View className="flex-row items-center">
@@ -235,6 +344,12 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
                     </View>
                   </>
                 )}
+                {status === 'SCHEDULED' && (
+                  <>
+                    <View className="mx-2 h-1 w-1 rounded-full bg-gray-400" />
+                    <Text className="text-xs font-medium text-indigo-600">Scheduled</Text>
+                  </>
+                )}
               </View>
             </View>
 
@@ -253,7 +368,7 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
       return sessionDate.toDateString() === today.toDateString();
     }).length;
 
-    const activeSessions = sessions.filter((s) => s.status === 'ACTIVE').length;
+    const activeSessions = sessions.filter(isSessionOpen).length;
 
     return (
       <View className="mx-4 mb-4 rounded-2xl bg-white p-4 shadow-lg">
@@ -263,7 +378,9 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
             <View className="mb-2 rounded-full bg-blue-100 p-3">
               <Ionicons name="calendar-outline" size={20} color="#3b82f6" />
             </View>
-            <Text className="text-2xl font-bold text-blue-600">{sessions.length}</Text>
+            <Text className="text-2xl font-bold text-blue-600">
+              {sessionsPage.totalElements || sessions.length}
+            </Text>
             <Text className="text-sm text-gray-500">Total Sessions</Text>
           </View>
           <View className="items-center">
@@ -314,6 +431,36 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
     </View>
   );
 
+  const renderListFooter = () => {
+    if (isLoadingMore) {
+      return (
+        <View className="items-center py-4">
+          <ActivityIndicator size="small" color="#6366f1" />
+          <Text className="mt-2 text-sm text-gray-500">Loading more sessions...</Text>
+        </View>
+      );
+    }
+
+    if (loadMoreError) {
+      return (
+        <View className="items-center py-4">
+          <Text className="mb-2 text-sm text-red-600">{loadMoreError}</Text>
+          <TouchableOpacity
+            activeOpacity={0.7}
+            className="rounded-xl bg-indigo-100 px-4 py-2"
+            onPress={() => {
+              clearError('moreSessions');
+              loadMoreSessions();
+            }}>
+            <Text className="font-semibold text-indigo-700">Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return null;
+  };
+
   const renderEmptyState = () => (
     <View className="flex-1 items-center justify-center py-20">
       <View className="mb-6 rounded-full bg-indigo-100 p-8">
@@ -333,7 +480,7 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
         <TouchableOpacity
           activeOpacity={0.7}
           className="rounded-xl bg-indigo-600 px-6 py-3 shadow-lg"
-          onPress={() => setShowCreateModal(true)}>
+          onPress={openCreateModal}>
           <View className="flex-row items-center">
             <Ionicons name="add" size={20} color="white" />
             <Text className="ml-2 font-semibold text-white">Create Your First Session</Text>
@@ -348,7 +495,7 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
       visible={showCreateModal}
       transparent={true}
       animationType="slide"
-      onRequestClose={() => setShowCreateModal(false)}>
+      onRequestClose={closeCreateModal}>
       <View className="flex-1 justify-center bg-black/50 px-4 ">
         <View className="rounded-2xl bg-white shadow-xl">
           {/* Modal Header */}
@@ -356,7 +503,7 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
             <View className="flex-row items-center justify-between">
               <TouchableOpacity
                 activeOpacity={0.7}
-                onPress={() => setShowCreateModal(false)}
+                onPress={closeCreateModal}
                 className="rounded-full bg-gray-100 p-2">
                 <Ionicons name="close" size={20} color="#6b7280" />
               </TouchableOpacity>
@@ -369,9 +516,9 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
               <TouchableOpacity
                 activeOpacity={0.7}
                 onPress={handleCreateSession}
-                disabled={isLoading}
-                className={`rounded-full bg-indigo-500 p-2 ${isLoading ? 'opacity-50' : ''}`}>
-                {isLoading ? (
+                disabled={isCreating}
+                className={`rounded-full bg-indigo-500 p-2 ${isCreating ? 'opacity-50' : ''}`}>
+                {isCreating ? (
                   <ActivityIndicator size="small" color="white" />
                 ) : (
                   <Ionicons name="checkmark" size={20} color="white" />
@@ -412,6 +559,48 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
           </View>
 
           <View className="max-h-96 p-6">
+            {/* Start Time Selection */}
+            <View className="mb-6">
+              <View className="mb-3 flex flex-row items-center justify-between">
+                <Text className="text-lg font-semibold text-gray-900">Starts</Text>
+                <View className="flex-row gap-2">
+                  {[
+                    { label: 'Now', value: false },
+                    { label: 'Later', value: true },
+                  ].map((option) => (
+                    <TouchableOpacity
+                      key={option.label}
+                      activeOpacity={0.7}
+                      className={`rounded-full border px-3 py-2 ${
+                        isScheduling === option.value
+                          ? 'border-indigo-200 bg-indigo-50'
+                          : 'border-gray-200 bg-gray-50'
+                      }`}
+                      onPress={() => setIsScheduling(option.value)}>
+                      <Text
+                        className={`text-sm ${
+                          isScheduling === option.value ? 'text-indigo-700' : 'text-gray-600'
+                        }`}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+              {isScheduling && (
+                <>
+                  <DateTimeField
+                    value={scheduledStart}
+                    onChange={setScheduledStart}
+                    minimumDate={new Date()}
+                  />
+                  <Text className="mt-2 text-xs text-gray-500">
+                    The session opens automatically at this time, at your current location.
+                  </Text>
+                </>
+              )}
+            </View>
+
             {/* Session Duration Selection */}
             <View className="mb-6 flex flex-row justify-between">
               <Text className="mb-4 text-lg font-semibold text-gray-900">Session Duration</Text>
@@ -439,12 +628,102 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
               </View>
             </View>
 
+            {/* Geofence Radius Selection */}
+            <View className="mb-6">
+              <View className="flex flex-row justify-between">
+                <Text className="mb-2 text-lg font-semibold text-gray-900">Check-in Radius</Text>
+
+                <View className="flex-row flex-wrap gap-2">
+                  {GEOFENCE_RADIUS_OPTIONS.map((radius) => (
+                    <TouchableOpacity
+                      key={radius}
+                      activeOpacity={0.7}
+                      className={`rounded-full border px-3 py-2 ${
+                        geofenceRadius === radius
+                          ? 'border-indigo-200 bg-indigo-50'
+                          : 'border-gray-200 bg-gray-50'
+                      }`}
+                      onPress={() => setGeofenceRadius(radius)}>
+                      <Text
+                        className={`text-sm ${
+                          geofenceRadius === radius ? 'text-indigo-700' : 'text-gray-600'
+                        }`}>
+                        {formatDistance(radius)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+              <Text className="text-xs text-gray-500">
+                Students must be this close to you to mark attendance. Use a larger radius for big
+                halls.
+              </Text>
+            </View>
+
+            {/* Late Threshold Selection */}
+            <View className="mb-6">
+              <Text className="mb-2 text-lg font-semibold text-gray-900">Late After</Text>
+              <View className="mb-2 flex-row flex-wrap gap-2">
+                {[undefined, ...LATE_THRESHOLD_OPTIONS].map((minutes) => (
+                  <TouchableOpacity
+                    key={minutes ?? 'default'}
+                    activeOpacity={0.7}
+                    className={`rounded-full border px-3 py-2 ${
+                      lateThreshold === minutes
+                        ? 'border-indigo-200 bg-indigo-50'
+                        : 'border-gray-200 bg-gray-50'
+                    }`}
+                    onPress={() => setLateThreshold(minutes)}>
+                    <Text
+                      className={`text-sm ${
+                        lateThreshold === minutes ? 'text-indigo-700' : 'text-gray-600'
+                      }`}>
+                      {minutes === undefined
+                        ? `Course default (${courseLateThreshold} min)`
+                        : `${minutes} min`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text className="text-xs text-gray-500">
+                Students who check in later than this after the session starts are marked late.
+              </Text>
+            </View>
+
+            {/* Check-out Requirement */}
+            <View className="mb-6">
+              <View className="flex-row items-center justify-between">
+                <Text className="text-lg font-semibold text-gray-900">Require Check-out</Text>
+                <Switch value={requiresCheckOut} onValueChange={setRequiresCheckOut} />
+              </View>
+              <Text className="text-xs text-gray-500">
+                Students check out again near the end, so you can see how long each one stayed.
+              </Text>
+            </View>
+
+            {/* QR Code Requirement */}
+            <View className="mb-6">
+              <View className="flex-row items-center justify-between">
+                <Text className="text-lg font-semibold text-gray-900">Require QR Code</Text>
+                <Switch value={requiresQrCode} onValueChange={setRequiresQrCode} />
+              </View>
+              <Text className="text-xs text-gray-500">
+                Students scan the rotating code on your screen, so they can only mark attendance
+                from the room. Marks are only accepted online.
+              </Text>
+            </View>
+
             {/* Course Selection */}
             <View>
               <Text className="mb-4 text-lg font-semibold text-gray-900">Select Course</Text>
 
               <FlatList
-                data={courses}
+                data={courses.filter(
+                  (course) =>
+                    !course.archivedAt &&
+                    isCourseInTerm(course, selectedTerm) &&
+                    hasCoursePermission(course, user, 'runSessions')
+                )}
                 keyExtractor={(item) => item.courseCode}
                 showsVerticalScrollIndicator={false}
                 style={{ maxHeight: 200 }}
@@ -492,22 +771,22 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
               <TouchableOpacity
                 activeOpacity={0.7}
                 className="flex-1 rounded-xl bg-gray-100 py-4"
-                onPress={() => setShowCreateModal(false)}>
+                onPress={closeCreateModal}>
                 <Text className="text-center font-semibold text-gray-700">Cancel</Text>
               </TouchableOpacity>
               <TouchableOpacity
                 activeOpacity={0.7}
                 className={`flex-1 rounded-xl py-4 ${
-                  !selectedCourse.trim() || !location || isLoading || sessionTimeMinutes <= 0
+                  !selectedCourse.trim() || !location || isCreating || sessionTimeMinutes <= 0
                     ? 'bg-gray-300'
                     : 'bg-indigo-600'
                 }`}
                 onPress={handleCreateSession}
                 disabled={
-                  !selectedCourse.trim() || !location || isLoading || sessionTimeMinutes <= 0
+                  !selectedCourse.trim() || !location || isCreating || sessionTimeMinutes <= 0
                 }>
                 <View className="flex-row items-center justify-center">
-                  {isLoading ? (
+                  {isCreating ? (
                     <ActivityIndicator size="small" color="white" />
                   ) : (
                     <>
@@ -524,7 +803,8 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
     </Modal>
   );
 
-  if (error) {
+  // With sessions on screen, a failed refresh is shown above the list instead
+  if (error && sessions.length === 0) {
     return (
       <View className="flex-1 items-center justify-center bg-slate-50 px-4">
         <View className="mb-6 rounded-full bg-red-100 p-8">
@@ -536,8 +816,8 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
           activeOpacity={0.7}
           className="rounded-xl bg-indigo-600 px-6 py-3 shadow-lg"
           onPress={() => {
-            clearError();
-            loadData();
+            clearError('sessions', 'courses');
+            loadData(true);
           }}>
           <View className="flex-row items-center">
             <Ionicons name="refresh" size={20} color="white" />
@@ -555,9 +835,13 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
           <View className="flex-1">
             <Text className="text-2xl font-bold text-white">Sessions</Text>
             <Text className="text-sm text-indigo-100">
-              {filteredSessions.length} {filteredSessions.length === 1 ? 'session' : 'sessions'}{' '}
+              {sessionsPage.totalElements || sessions.length}{' '}
+              {(sessionsPage.totalElements || sessions.length) === 1 ? 'session' : 'sessions'}{' '}
               available
             </Text>
+            <View className="mt-2">
+              <TermSwitcher />
+            </View>
           </View>
           <View className="rounded-full bg-white/20 p-3">
             <Ionicons name="school-outline" size={28} color="white" />
@@ -580,10 +864,30 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
             </TouchableOpacity>
           )}
         </View>
+
+        {/* Status Filter */}
+        <View className="mt-3 flex-row gap-2">
+          {statusOptions.map((option) => (
+            <TouchableOpacity
+              key={option.label}
+              activeOpacity={0.7}
+              className={`rounded-full px-4 py-1.5 ${
+                statusFilter === option.value ? 'bg-white' : 'bg-white/20'
+              }`}
+              onPress={() => setStatusFilter(option.value)}>
+              <Text
+                className={`text-sm font-medium ${
+                  statusFilter === option.value ? 'text-blue-600' : 'text-white'
+                }`}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
       </View>
 
       {/* Content */}
-      {isLoading && sessions.length === 0 ? (
+      {isLoadingSessions && sessions.length === 0 ? (
         <View className="flex-1 items-center justify-center">
           <View className="mb-4 rounded-full bg-indigo-100 p-4">
             <ActivityIndicator size="large" color="#6366f1" />
@@ -593,7 +897,7 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
         </View>
       ) : (
         <FlatList
-          data={filteredSessions.slice(0, 20)} // Limit to 20 sessions for performance
+          data={sortedSessions}
           renderItem={renderSessionCard}
           keyExtractor={(item) => String(item.id)}
           contentContainerStyle={{ flexGrow: 1, paddingBottom: 100 }}
@@ -601,11 +905,27 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
           refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
           ListHeaderComponent={
             <View>
+              {error && (
+                <View className="mx-4 mt-4 flex-row items-center rounded-2xl border border-red-200 bg-red-50 p-4">
+                  <Ionicons name="warning" size={16} color="#dc2626" />
+                  <Text className="ml-2 flex-1 text-sm text-red-700">{error}</Text>
+                  <TouchableOpacity
+                    activeOpacity={0.7}
+                    onPress={() => clearError('sessions', 'courses')}>
+                    <Ionicons name="close" size={20} color="#dc2626" />
+                  </TouchableOpacity>
+                </View>
+              )}
               {renderStatsCard()}
               {role === 'LECTURER' && renderLocationStatus()}
             </View>
           }
           ListEmptyComponent={renderEmptyState}
+          ListFooterComponent={renderListFooter}
+          onEndReached={() => {
+            if (!loadMoreError) loadMoreSessions();
+          }}
+          onEndReachedThreshold={0.5}
         />
       )}
 
@@ -614,7 +934,7 @@ const SessionScreen: React.FC<SessionScreenProps> = ({ navigation }) => {
         <TouchableOpacity
           activeOpacity={0.7}
           className="absolute bottom-6 right-6 rounded-full bg-blue-600 p-4 shadow-lg"
-          onPress={() => setShowCreateModal(true)}>
+          onPress={openCreateModal}>
           <Ionicons name="add" size={28} color="white" />
         </TouchableOpacity>
       )}
@@ -3,6 +3,7 @@ import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import { useCallback, useEffect, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Modal,
   RefreshControl,
   ScrollView,
@@ -10,20 +11,38 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import CourseStaffModal from '~/components/CourseStaffModal';
+import RosterModal from '~/components/RosterModal';
+import TermSwitcher from '~/components/TermSwitcher';
+import TimetableSlotModal from '~/components/TimetableSlotModal';
+import { getErrorMessage } from '~/lib/apiClient';
+import { hasCoursePermission } from '~/lib/courseStaff';
+import { isSessionOpen } from '~/lib/sessionLifecycle';
+import { formatSlot, getNextOccurrence } from '~/lib/timetable';
 import { formatDateTime } from '~/lib/utils';
-import { useApiStore } from '~/store/apiStore';
+import { useApiStore, useSelectedTerm, useSessionList } from '~/store/apiStore';
 import { useAuthStore } from '~/store/authStore';
-import { Course, Session } from '~/types/app';
+import { Course, Session, TimetableSlot } from '~/types/app';
 
 const CourseDetails = () => {
   const params = useLocalSearchParams();
   const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
-  const [courseSessions, setCourseSessions] = useState<Session[]>([]);
   const [isLoadingSessions, setIsLoadingSessions] = useState(false);
   const [isNavigating, setIsNavigating] = useState(false);
-
-  const { sessions, fetchSessions } = useApiStore();
+  const [showSlotModal, setShowSlotModal] = useState(false);
+  const [showRosterModal, setShowRosterModal] = useState(false);
+  const [showStaffModal, setShowStaffModal] = useState(false);
+
+  const {
+    fetchSessions,
+    fetchSessionList,
+    timetable,
+    fetchTimetable,
+    deleteTimetableSlot,
+    rosters,
+    courses,
+  } = useApiStore();
   const { user } = useAuthStore();
 
   const course: Course | undefined =
@@ -42,41 +61,31 @@ const CourseDetails = () => {
     }, [])
   );
 
-  useEffect(() => {
-    if (sessions.length === 0) {
-      loadCourseSessions();
-    }
-
-    filterCourseSessions();
-  }, [sessions]);
+  const selectedTerm = useSelectedTerm();
 
-  const filterCourseSessions = () => {
-    if (!course) return;
-
-    const filteredSessions = sessions
-      .filter(
-        (session) =>
-          session.course?.courseCode === course.courseCode ||
-          session.course?.courseName === course.courseName
-      )
-      .filter((session) => session.lecturer?.email === user?.email);
-
-    const sortedSessions = filteredSessions.sort(
-      (a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
-    );
+  useEffect(() => {
+    if (role === 'LECTURER') fetchTimetable();
+  }, [fetchTimetable, role]);
+
+  // Every session of the course in the term, whichever staff member ran it
+  const sessionQuery = { courseCode: course?.courseCode, termId: selectedTerm?.id };
+  const { sessions, totalElements } = useSessionList(sessionQuery);
+  const courseSessions = [...sessions].sort(
+    (a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+  );
 
-    setCourseSessions(sortedSessions);
-  };
+  useEffect(() => {
+    loadCourseSessions();
+  }, [selectedTerm?.id]);
 
-  const loadCourseSessions = async () => {
+  const loadCourseSessions = async (force = false) => {
     if (!course || isLoadingSessions) return;
 
     setIsLoadingSessions(true);
     try {
-      await fetchSessions();
+      await fetchSessionList(sessionQuery, { force });
     } catch (error) {
       console.error('Error loading course sessions:', error);
-      filterCourseSessions();
     } finally {
       setIsLoadingSessions(false);
     }
@@ -87,7 +96,10 @@ const CourseDetails = () => {
 
     setRefreshing(true);
     try {
-      await loadCourseSessions();
+      await Promise.all([
+        loadCourseSessions(true),
+        role === 'LECTURER' && fetchTimetable({ force: true }),
+      ]);
     } catch (error) {
       console.error('Error refreshing:', error);
     } finally {
@@ -150,6 +162,7 @@ const CourseDetails = () => {
 
   const renderSessionCard = (session: Session) => {
     const relativeTime = getRelativeTime(session.startTime);
+    const isRunByOther = !!session.lecturer && session.lecturer.email !== user?.email;
 
     return (
       <TouchableOpacity
@@ -169,6 +182,11 @@ const CourseDetails = () => {
                 <Text className="mt-1 text-xs text-gray-500">
                   {formatDateTime(session.startTime).date} {formatDateTime(session.startTime).time}
                 </Text>
+                {isRunByOther && (
+                  <Text className="mt-1 text-xs text-gray-500">
+                    Run by {session.lecturer?.firstName} {session.lecturer?.lastName}
+                  </Text>
+                )}
               </View>
             </View>
           </View>
@@ -181,9 +199,54 @@ const CourseDetails = () => {
     );
   };
 
+  const handleDeleteSlot = (slot: TimetableSlot) => {
+    Alert.alert(
+      'Remove Slot',
+      `Stop scheduling sessions on ${formatSlot(slot)}? Upcoming sessions from this slot will be cancelled.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTimetableSlot(slot.id);
+            } catch (err) {
+              Alert.alert('Error', getErrorMessage(err, 'Failed to delete timetable slot'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderTimetableSlot = (slot: TimetableSlot) => {
+    const next = formatDateTime(getNextOccurrence(slot).toISOString());
+
+    return (
+      <View key={slot.id} className="mb-3 flex-row items-center rounded-2xl bg-white p-4 shadow-sm">
+        <View className="mr-3 rounded-full bg-indigo-100 p-2">
+          <Ionicons name="repeat" size={18} color="#6366f1" />
+        </View>
+        <View className="flex-1">
+          <Text className="text-sm font-semibold text-gray-900">{formatSlot(slot)}</Text>
+          <Text className="mt-1 text-xs text-gray-500">
+            Next: {next.date} at {next.time}
+          </Text>
+        </View>
+        <TouchableOpacity
+          activeOpacity={0.7}
+          onPress={() => handleDeleteSlot(slot)}
+          className="rounded-full bg-red-50 p-2">
+          <Ionicons name="trash-outline" size={16} color="#ef4444" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   const getSessionStats = () => {
-    const totalSessions = courseSessions.length;
-    const activeSessions = courseSessions.filter((s) => s.status === 'ACTIVE').length;
+    const totalSessions = totalElements;
+    const activeSessions = courseSessions.filter(isSessionOpen).length;
     const today = new Date();
     const todaySessions = courseSessions.filter(
       (s) => new Date(s.startTime).toDateString() === today.toDateString()
@@ -211,6 +274,15 @@ const CourseDetails = () => {
   }
 
   const stats = getSessionStats();
+  const courseSlots = timetable
+    .filter((slot) => slot.courseCode === course.courseCode)
+    .sort((a, b) => getNextOccurrence(a).getTime() - getNextOccurrence(b).getTime());
+  const rosterCount = rosters[course.courseCode]?.length ?? course.studentCount;
+  // The store's copy has the latest staff list
+  const staffCourse =
+    courses.find((candidate) => candidate.courseCode === course.courseCode) ?? course;
+  const staffCount = staffCourse.staff?.filter((member) => member.role !== 'OWNER').length ?? 0;
+  const canManageCourse = hasCoursePermission(staffCourse, user, 'manageCourse');
 
   return (
     <View className="flex-1 bg-slate-50">
@@ -244,6 +316,9 @@ const CourseDetails = () => {
           <View className="flex-1">
             <Text className="text-2xl font-bold text-white">{course.courseName}</Text>
             <Text className="mt-1 font-mono text-base text-blue-100">{course.courseCode}</Text>
+            <View className="mt-2">
+              <TermSwitcher />
+            </View>
           </View>
         </View>
       </View>
@@ -279,13 +354,89 @@ const CourseDetails = () => {
           </View>
         </View>
 
+        {/* Class Roster */}
+        {role === 'LECTURER' && (
+          <View className="px-6 pb-6">
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={() => setShowRosterModal(true)}
+              className="flex-row items-center rounded-2xl bg-white p-4 shadow-sm">
+              <View className="mr-3 rounded-full bg-purple-100 p-3">
+                <Ionicons name="people" size={20} color="#8b5cf6" />
+              </View>
+              <View className="flex-1">
+                <Text className="font-semibold text-gray-900">Class Roster</Text>
+                <Text className="text-sm text-gray-500">
+                  {rosterCount === undefined
+                    ? 'Manage enrolled students'
+                    : `${rosterCount} ${rosterCount === 1 ? 'student' : 'students'} enrolled`}
+                </Text>
+              </View>
+              <Text className="mr-1 text-sm font-medium text-purple-600">Manage</Text>
+              <Ionicons name="chevron-forward" size={16} color="#8b5cf6" />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Teaching Staff */}
+        {role === 'LECTURER' && (
+          <View className="px-6 pb-6">
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={() => setShowStaffModal(true)}
+              className="flex-row items-center rounded-2xl bg-white p-4 shadow-sm">
+              <View className="mr-3 rounded-full bg-teal-100 p-3">
+                <Ionicons name="school" size={20} color="#14b8a6" />
+              </View>
+              <View className="flex-1">
+                <Text className="font-semibold text-gray-900">Teaching Staff</Text>
+                <Text className="text-sm text-gray-500">
+                  {staffCount === 0
+                    ? 'No co-lecturers or teaching assistants'
+                    : `${staffCount} ${staffCount === 1 ? 'co-lecturer or TA' : 'co-lecturers and TAs'}`}
+                </Text>
+              </View>
+              <Text className="mr-1 text-sm font-medium text-teal-600">
+                {canManageCourse ? 'Manage' : 'View'}
+              </Text>
+              <Ionicons name="chevron-forward" size={16} color="#14b8a6" />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Weekly Timetable */}
+        {role === 'LECTURER' && (
+          <View className="px-6 pb-6">
+            <View className="mb-4 flex-row items-center justify-between">
+              <Text className="text-lg font-semibold text-gray-900">Weekly Timetable</Text>
+              <TouchableOpacity
+                activeOpacity={0.7}
+                onPress={() => setShowSlotModal(true)}
+                className="flex-row items-center rounded-full bg-indigo-50 px-3 py-2">
+                <Ionicons name="add" size={16} color="#6366f1" />
+                <Text className="ml-1 text-sm font-medium text-indigo-600">Add Slot</Text>
+              </TouchableOpacity>
+            </View>
+
+            {courseSlots.length > 0 ? (
+              courseSlots.map(renderTimetableSlot)
+            ) : (
+              <View className="rounded-2xl bg-white p-4 shadow-sm">
+                <Text className="text-sm text-gray-500">
+                  Add the weekly slots for this course and sessions will open automatically.
+                </Text>
+              </View>
+            )}
+          </View>
+        )}
+
         <View className="px-6 pb-6">
           {/* Sessions Header */}
           <View className="mb-4 flex-row items-center justify-between">
             <Text className="text-lg font-semibold text-gray-900">Session History</Text>
             <TouchableOpacity
               activeOpacity={0.7}
-              onPress={() => !isLoadingSessions && loadCourseSessions()}
+              onPress={() => !isLoadingSessions && loadCourseSessions(true)}
               disabled={isLoadingSessions}
               className="rounded-full bg-gray-100 p-2">
               {isLoadingSessions ? (
@@ -327,6 +478,24 @@ const CourseDetails = () => {
           )}
         </View>
       </ScrollView>
+
+      <TimetableSlotModal
+        visible={showSlotModal}
+        courseCode={course.courseCode}
+        onClose={() => setShowSlotModal(false)}
+      />
+
+      <RosterModal
+        visible={showRosterModal}
+        courseCode={course.courseCode}
+        onClose={() => setShowRosterModal(false)}
+      />
+
+      <CourseStaffModal
+        visible={showStaffModal}
+        courseCode={course.courseCode}
+        onClose={() => setShowStaffModal(false)}
+      />
     </View>
   );
 };
@@ -9,56 +9,85 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import { getAttendanceStatusDisplay, getStudentAttendanceStats } from '~/lib/attendanceUtils'; // Import your new functions
+import AbsenceJustificationModal from '~/components/AbsenceJustificationModal';
+import TermSwitcher from '~/components/TermSwitcher';
+import {
+  findAbsenceJustification,
+  getAttendanceStatusDisplay,
+  getStudentAttendanceStats,
+  isSessionCounted,
+} from '~/lib/attendanceUtils'; // Import your new functions
+import { isSessionOpen } from '~/lib/sessionLifecycle';
 import { formatDateTime } from '~/lib/utils';
-import { useApiStore } from '~/store/apiStore';
+import { useApiStore, useSelectedTerm, useSessionList } from '~/store/apiStore';
 import { useAuthStore } from '~/store/authStore';
-import { Attendance, Course } from '~/types/app';
+import { AbsenceJustificationStatus, Course, Session } from '~/types/app';
+
+const justificationStyles: Record<
+  AbsenceJustificationStatus,
+  { label: string; bgColor: string; textColor: string }
+> = {
+  PENDING: {
+    label: 'Justification pending review',
+    bgColor: 'bg-yellow-50',
+    textColor: 'text-yellow-700',
+  },
+  APPROVED: { label: 'Absence excused', bgColor: 'bg-blue-50', textColor: 'text-blue-700' },
+  REJECTED: { label: 'Justification rejected', bgColor: 'bg-red-50', textColor: 'text-red-700' },
+};
 
 const CourseDetails = () => {
   const params = useLocalSearchParams();
   const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
-  const [recordSessions, setRecordSessions] = useState<Attendance[]>([]);
+  const [recordSessions, setRecordSessions] = useState<Session[]>([]);
   const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+  const [justifyingSession, setJustifyingSession] = useState<Session | null>(null);
 
-  const { sessions, fetchSessions } = useApiStore();
+  const { fetchSessionList, courses } = useApiStore();
   const { user } = useAuthStore();
 
   const course: Course | undefined =
     typeof params.course === 'string' ? JSON.parse(params.course) : undefined;
+  // Prefer the store's copy so enrolling elsewhere is picked up without reopening the screen
+  const enrolledAt =
+    courses.find((c) => c.courseCode === course?.courseCode)?.enrolledAt ?? course?.enrolledAt;
+
+  const selectedTerm = useSelectedTerm();
+  // Every session of this course in the term, so the stats below cover all of them
+  const sessionQuery = { courseCode: course?.courseCode, termId: selectedTerm?.id };
+  const { sessions } = useSessionList(sessionQuery);
 
   useEffect(() => {
-    if (sessions.length === 0) {
-      loadRecordSessions();
-    }
+    loadRecordSessions();
+  }, [selectedTerm?.id]);
 
+  useEffect(() => {
     filterRecordSessions();
-  }, [sessions]);
+  }, [sessions, enrolledAt]);
 
   const filterRecordSessions = () => {
     if (!course) return;
 
-    const allAttendance = sessions.map((session) => session.attendance);
-
-    const filteredAttendance = allAttendance.filter(
-      (record) => record.courseName === course.courseName
+    // Sessions held before the student enrolled only show up if they attended
+    const filteredSessions = sessions.filter(
+      (session) => !user || isSessionCounted(session.attendance, user, enrolledAt)
     );
     // Sort by date, newest first
-    const sortedAttendance = filteredAttendance.sort(
-      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+    const sortedSessions = filteredSessions.sort(
+      (a, b) => new Date(b.attendance.date).getTime() - new Date(a.attendance.date).getTime()
     );
 
-    setRecordSessions(sortedAttendance);
+    setRecordSessions(sortedSessions);
   };
 
-  const loadRecordSessions = async () => {
+  const loadRecordSessions = async (force = false) => {
     if (!course || isLoadingSessions) return;
 
     setIsLoadingSessions(true);
     try {
-      // Only fetch if we don't have sessions or user explicitly refreshes
-      await fetchSessions();
+      // Served from the cache while it is fresh, unless the user explicitly refreshes
+      await fetchSessionList(sessionQuery, { force });
     } catch (error) {
       console.error('Error loading course sessions:', error);
       // Even if fetch fails, try to filter existing sessions
@@ -73,7 +102,7 @@ const CourseDetails = () => {
 
     setRefreshing(true);
     try {
-      await loadRecordSessions();
+      await loadRecordSessions(true);
     } catch (error) {
       console.error('Error refreshing:', error);
     } finally {
@@ -111,12 +140,20 @@ const CourseDetails = () => {
     };
   };
 
-  const renderRecordCard = (record: Attendance, index: number) => {
+  const renderRecordCard = (session: Session, index: number) => {
+    const record = session.attendance;
     const relativeTime = getRelativeTime(record.date);
     const recordNumber = recordSessions.length - index; // Reverse numbering so newest is highest
 
     // Get attendance status for current user
     const attendanceStatus = user ? getAttendanceStatusDisplay(record, user) : null;
+    const justification = user ? findAbsenceJustification(record, user) : undefined;
+    // Missed sessions can be justified once they are over, or again after a rejection
+    const canJustify =
+      attendanceStatus?.status === 'ABSENT' &&
+      session.status !== 'SCHEDULED' &&
+      !isSessionOpen(session) &&
+      (!justification || justification.status === 'REJECTED');
 
     return (
       <TouchableOpacity
@@ -143,6 +180,8 @@ const CourseDetails = () => {
                 </View>
                 <Text className="mt-1 text-xs text-gray-500">
                   {formatDateTime(record.date).time}
+                  {attendanceStatus?.checkedInAt &&
+                    ` • Checked in ${formatDateTime(attendanceStatus.checkedInAt).time}`}
                 </Text>
               </View>
 
@@ -166,6 +205,31 @@ const CourseDetails = () => {
             {record.lecturer && (
               <Text className="mt-2 text-xs text-gray-500">Lecturer: {record.lecturer}</Text>
             )}
+
+            {/* Absence justification */}
+            {justification && (
+              <View
+                className={`mt-3 rounded-lg p-3 ${justificationStyles[justification.status].bgColor}`}>
+                <Text
+                  className={`text-xs font-medium ${justificationStyles[justification.status].textColor}`}>
+                  {justificationStyles[justification.status].label}
+                </Text>
+                {justification.reviewNote && (
+                  <Text className="mt-1 text-xs text-gray-600">{justification.reviewNote}</Text>
+                )}
+              </View>
+            )}
+            {canJustify && (
+              <TouchableOpacity
+                activeOpacity={0.7}
+                onPress={() => setJustifyingSession(session)}
+                className="mt-3 flex-row items-center self-start rounded-lg bg-blue-50 px-3 py-2">
+                <Ionicons name="document-text-outline" size={14} color="#2563eb" />
+                <Text className="ml-1 text-xs font-medium text-blue-600">
+                  {justification ? 'Submit again' : 'Justify absence'}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </TouchableOpacity>
@@ -174,13 +238,26 @@ const CourseDetails = () => {
 
   const getSessionStats = () => {
     if (!user)
-      return { totalSessions: 0, attendedSessions: 0, missedSessions: 0, attendanceRate: 0 };
+      return {
+        totalSessions: 0,
+        attendedSessions: 0,
+        lateSessions: 0,
+        excusedSessions: 0,
+        missedSessions: 0,
+        attendanceRate: 0,
+      };
 
     // Use the new attendance stats function
-    const stats = getStudentAttendanceStats(recordSessions, user);
+    const stats = getStudentAttendanceStats(
+      recordSessions.map((session) => session.attendance),
+      user,
+      enrolledAt
+    );
     return {
       totalSessions: stats.totalSessions,
       attendedSessions: stats.attendedSessions,
+      lateSessions: stats.lateSessions,
+      excusedSessions: stats.excusedSessions,
       missedSessions: stats.missedSessions,
       attendanceRate: stats.attendanceRate,
     };
@@ -225,6 +302,9 @@ const CourseDetails = () => {
           <View className="flex-1">
             <Text className="text-2xl font-bold text-white">{course.courseName}</Text>
             <Text className="mt-1 font-mono text-base text-blue-100">{course.courseCode}</Text>
+            <View className="mt-2">
+              <TermSwitcher />
+            </View>
           </View>
         </View>
       </View>
@@ -266,6 +346,17 @@ const CourseDetails = () => {
             <View>
               <Text className="text-lg font-semibold text-gray-900">Attendance Rate</Text>
               <Text className="text-xs text-gray-500">Your overall attendance percentage</Text>
+              {stats.lateSessions > 0 && (
+                <Text className="mt-1 text-xs text-amber-600">
+                  Late to {stats.lateSessions} of {stats.attendedSessions} attended sessions
+                </Text>
+              )}
+              {stats.excusedSessions > 0 && (
+                <Text className="mt-1 text-xs text-blue-600">
+                  {stats.excusedSessions} excused{' '}
+                  {stats.excusedSessions === 1 ? 'absence' : 'absences'} not counted
+                </Text>
+              )}
             </View>
             <View className="items-center">
               <Text className="text-2xl font-bold text-blue-600">{stats.attendanceRate}%</Text>
@@ -290,7 +381,7 @@ const CourseDetails = () => {
             <Text className="text-lg font-semibold text-gray-900">Your Attendance Records</Text>
             <TouchableOpacity
               activeOpacity={0.7}
-              onPress={() => !isLoadingSessions && loadRecordSessions()}
+              onPress={() => !isLoadingSessions && loadRecordSessions(true)}
               disabled={isLoadingSessions}
               className="rounded-full bg-gray-100 p-2">
               {isLoadingSessions ? (
@@ -332,6 +423,12 @@ const CourseDetails = () => {
           )}
         </View>
       </ScrollView>
+
+      <AbsenceJustificationModal
+        visible={justifyingSession !== null}
+        session={justifyingSession}
+        onClose={() => setJustifyingSession(null)}
+      />
     </View>
   );
 };
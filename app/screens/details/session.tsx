@@ -7,6 +7,8 @@ import * as Sharing from 'expo-sharing';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
+  Linking,
   RefreshControl,
   ScrollView,
   Text,
@@ -14,16 +16,57 @@ import {
   View,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import AttendanceOverrideModal from '~/components/AttendanceOverrideModal';
 import CustomBottomSheetModal from '~/components/CustomBottomSheetModal';
-import { formatDateForFilename, formatDateTime } from '~/lib/utils';
-import { useApiStore } from '~/store/apiStore';
-import { Session } from '~/types/app';
+import SessionQrCode from '~/components/SessionQrCode';
+import { getErrorMessage } from '~/lib/apiClient';
+import {
+  getMinutesLate,
+  getMinutesPresent,
+  getRosterAttendance,
+  getStudentAttendanceStatus,
+  meetsMinimumPresence,
+} from '~/lib/attendanceUtils';
+import { hasCoursePermission } from '~/lib/courseStaff';
+import { useSessionUpdates } from '~/lib/realtime';
+import {
+  canReopenSession,
+  EXTEND_OPTIONS,
+  getReopenDeadline,
+  isSessionOpen,
+  REOPEN_GRACE_MINUTES,
+} from '~/lib/sessionLifecycle';
+import { formatDateForFilename, formatDateTime, getAttendanceOverride } from '~/lib/utils';
+import { useApiStore, useIsLoading } from '~/store/apiStore';
+import { useAuthStore } from '~/store/authStore';
+import {
+  AbsenceJustification,
+  AttendanceEntry,
+  AttendanceOverride,
+  AttendanceOverrideStatus,
+  RosterEntry,
+  Session,
+  Student,
+} from '~/types/app';
 
 const SessionScreen = () => {
   const { session } = useLocalSearchParams();
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { isLoading, fetchActiveSessions, activeSessions } = useApiStore();
+  const {
+    fetchActiveSessions,
+    activeSessions,
+    closedSessions,
+    endSession,
+    extendSession,
+    reopenSession,
+    reviewJustification,
+    rosters,
+    fetchRoster,
+    courses,
+  } = useApiStore();
+  const isLecturer = useAuthStore((state) => state.role === 'LECTURER');
+  const user = useAuthStore((state) => state.user);
 
   // Parse initial session data
   const initialSessionData: Session = JSON.parse(session as string);
@@ -31,54 +74,79 @@ const SessionScreen = () => {
   // State for current session data
   const [sessionData, setSessionData] = useState<Session>(initialSessionData);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
-  const [isUpdating, setIsUpdating] = useState(false);
+  const isUpdating = useIsLoading('activeSessions');
+  const isChangingLifecycle = useIsLoading('endSession', 'extendSession', 'reopenSession');
+  const isReviewing = useIsLoading('reviewJustification');
   const [refreshing, setRefreshing] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [showOverrideModal, setShowOverrideModal] = useState(false);
+  const [overrideStudent, setOverrideStudent] = useState<Student | null>(null);
+  const [overrideStatus, setOverrideStatus] = useState<AttendanceOverrideStatus>();
 
   const startDateTime = formatDateTime(sessionData.startTime);
   const endDateTime = formatDateTime(sessionData.endTime);
 
+  // What this lecturer may do depends on their role on the course; the store's copy of the course
+  // has the latest staff list. Whoever ran the session can always control it.
+  const staffCourse =
+    courses.find((course) => course.courseCode === sessionData.course.courseCode) ??
+    sessionData.course;
+  const canRunSession =
+    isLecturer &&
+    (sessionData.lecturer?.email === user?.email ||
+      hasCoursePermission(staffCourse, user, 'runSessions'));
+  const canEditAttendance = isLecturer && hasCoursePermission(staffCourse, user, 'editAttendance');
+
   // Function to update session data from store
   const updateSessionData = useCallback(() => {
-    const updatedSession = activeSessions.find((s) => s.id === sessionData.id);
+    const updatedSession =
+      activeSessions.find((s) => s.id === sessionData.id) ??
+      closedSessions.find((s) => s.id === sessionData.id);
     if (updatedSession) {
       setSessionData(updatedSession);
       setLastUpdated(new Date());
     }
-  }, [activeSessions, sessionData.id]);
+  }, [activeSessions, closedSessions, sessionData.id]);
+
+  // Real-time updates (pushed over the session channel, polled when it is unavailable)
+  const realtimeStatus = useSessionUpdates(sessionData.id, isSessionOpen(sessionData));
 
-  // Real-time updates
   useEffect(() => {
-    // Don't poll if session is closed
-    if (sessionData.status === 'CLOSED') {
-      return;
-    }
-    const fetchAndUpdate = async () => {
-      setIsUpdating(true);
-      try {
-        await fetchActiveSessions();
-        updateSessionData();
-      } catch (error) {
-        console.error('Failed to update session:', error);
-      } finally {
-        setIsUpdating(false);
-      }
-    };
+    updateSessionData();
+  }, [updateSessionData]);
+
+  // The class roster shows lecturers who is missing
+  useEffect(() => {
+    if (!isLecturer) return;
 
-    // Initial fetch
-    fetchAndUpdate();
+    const controller = new AbortController();
+    fetchRoster(sessionData.course.courseCode, controller.signal).catch(() => {});
+    return () => controller.abort();
+  }, [fetchRoster, isLecturer, sessionData.course.courseCode]);
 
-    // Set up polling
-    const interval = setInterval(fetchAndUpdate, 5000); // 5 seconds for better real-time feel
+  // Scheduled sessions open on the server at their start time; pick up the change when it happens
+  useEffect(() => {
+    const delay = Math.max(new Date(sessionData.startTime).getTime() - Date.now(), 0);
+    // Nobody keeps the screen open for a day; this also keeps the delay within setTimeout's range
+    if (sessionData.status !== 'SCHEDULED' || delay > 24 * 60 * 60 * 1000) return;
 
-    return () => clearInterval(interval);
-  }, [fetchActiveSessions, updateSessionData, sessionData.status]);
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => fetchActiveSessions({ force: true, signal: controller.signal }),
+      delay + 2000
+    );
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [fetchActiveSessions, sessionData.status, sessionData.startTime]);
 
   // Manual refresh
   const onRefresh = async () => {
     setRefreshing(true);
     try {
-      await fetchActiveSessions();
+      await fetchActiveSessions({ force: true });
       updateSessionData();
     } catch (error) {
       console.error('Error refreshing:', error);
@@ -87,6 +155,38 @@ const SessionScreen = () => {
     }
   };
 
+  // Lifecycle controls
+  const runLifecycleAction = async (action: () => Promise<Session>, fallbackError: string) => {
+    try {
+      setSessionData(await action());
+      setLastUpdated(new Date());
+    } catch (err) {
+      Alert.alert('Error', getErrorMessage(err, fallbackError));
+    }
+  };
+
+  const handleEndSession = () => {
+    Alert.alert(
+      'End Session',
+      'Students will no longer be able to mark attendance for this session.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'End Now',
+          style: 'destructive',
+          onPress: () =>
+            runLifecycleAction(() => endSession(sessionData.id), 'Failed to end session'),
+        },
+      ]
+    );
+  };
+
+  const handleExtendSession = (minutes: number) =>
+    runLifecycleAction(() => extendSession(sessionData.id, minutes), 'Failed to extend session');
+
+  const handleReopenSession = () =>
+    runLifecycleAction(() => reopenSession(sessionData.id), 'Failed to reopen session');
+
   // Get attendance stats
   const getAttendanceStats = () => {
     const studentList = sessionData.attendance?.studentList || [];
@@ -96,25 +196,128 @@ const SessionScreen = () => {
       total,
       newStudents: studentList.filter((s) => {
         // Check if student joined in last 5 minutes
-        const joinTime = new Date(sessionData.startTime);
+        const joinTime = new Date(s.checkedInAt ?? sessionData.startTime);
         const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
         return joinTime > fiveMinutesAgo;
       }).length,
+      late: studentList.filter((s) => isLate(s)).length,
+      checkedOut: studentList.filter((s) => s.checkedOutAt).length,
     };
   };
 
+  const isLate = (student: AttendanceEntry) =>
+    getStudentAttendanceStatus(sessionData.attendance, student) === 'LATE';
+
   const stats = getAttendanceStats();
 
+  // Time present is only known for sessions that require check-out
+  const describePresence = (student: AttendanceEntry) => {
+    const minutesPresent = getMinutesPresent(student);
+    return minutesPresent === null ? 'Not checked out' : `Stayed ${minutesPresent} min`;
+  };
+
+  const renderPresence = (student: AttendanceEntry) => {
+    if (!sessionData.requiresCheckOut) return null;
+
+    const meetsMinimum = meetsMinimumPresence(sessionData, student);
+    return (
+      <Text className={`text-xs ${meetsMinimum ? 'text-gray-500' : 'text-red-600'}`}>
+        {describePresence(student)}
+        {!meetsMinimum && ' · Below minimum'}
+      </Text>
+    );
+  };
+
+  const renderLateBadge = (student: AttendanceEntry) =>
+    isLate(student) && (
+      <View className="mr-1 rounded-full bg-amber-100 px-2 py-1">
+        <Text className="text-xs font-medium text-amber-700">
+          {getMinutesLate(sessionData.attendance, student)} min late
+        </Text>
+      </View>
+    );
+
+  // Manual changes by the lecturer
+  const overrides = sessionData.attendance.overrides;
+  const getOverride = (student: Student) =>
+    getAttendanceOverride(sessionData.attendance, student.email);
+  // Students whose latest override took them off the list
+  const markedAbsent = overrides.filter(
+    (override) => override.status === 'ABSENT' && getOverride(override.student) === override
+  );
+
+  const openOverrideModal = (student: Student | null = null, status?: AttendanceOverrideStatus) => {
+    exportModalRef.current?.dismiss();
+    setOverrideStudent(student);
+    setOverrideStatus(status);
+    setShowOverrideModal(true);
+  };
+
+  // Present vs absent against the class roster, once it has loaded
+  const roster = rosters[sessionData.course.courseCode];
+  const rosterAttendance =
+    roster && roster.length > 0 ? getRosterAttendance(sessionData.attendance, roster) : null;
+  // Roster absentees the lecturer has not already marked absent by hand
+  const rosterAbsent = (rosterAttendance?.absent ?? []).filter(
+    (student) => getOverride(student)?.status !== 'ABSENT'
+  );
+
+  const { department } = sessionData.lecturer;
+  const lecturerDepartment =
+    typeof department === 'string' ? department : department?.departmentName;
+
+  // Absence justifications from students
+  const justifications = sessionData.attendance.justifications;
+  const pendingJustifications = justifications.filter(
+    (justification) => justification.status === 'PENDING'
+  ).length;
+
+  const handleReviewJustification = (
+    justification: AbsenceJustification,
+    status: 'APPROVED' | 'REJECTED'
+  ) => {
+    const studentName = `${justification.student.firstName} ${justification.student.lastName}`;
+    Alert.alert(
+      status === 'APPROVED' ? 'Excuse Absence' : 'Reject Justification',
+      status === 'APPROVED'
+        ? `${studentName}'s absence will be excused and left out of their attendance rate.`
+        : `${studentName}'s absence will still count as missed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: status === 'APPROVED' ? 'Approve' : 'Reject',
+          style: status === 'APPROVED' ? 'default' : 'destructive',
+          onPress: async () => {
+            try {
+              const reviewed = await reviewJustification({
+                sessionId: sessionData.id,
+                justificationId: justification.id,
+                status,
+              });
+              setSessionData((current) => ({
+                ...current,
+                attendance: {
+                  ...current.attendance,
+                  justifications: justifications.map((existing) =>
+                    existing.id === reviewed.id ? reviewed : existing
+                  ),
+                },
+              }));
+            } catch (err) {
+              Alert.alert('Error', getErrorMessage(err, 'Failed to review justification'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
   //export functionality
   const exportModalRef = useRef<BottomSheetModal>(null);
+  const qrModalRef = useRef<BottomSheetModal>(null);
 
   const exportCSV = async () => {
     try {
-      if (!sessionData.attendance.studentList || sessionData.attendance.studentList.length === 0) {
-        alert('No students to export');
-        return;
-      }
-
       const headers = [
         'Student ID',
         'Username',
@@ -123,9 +326,20 @@ const SessionScreen = () => {
         'Course Name',
         'Session Date',
         'Session Time',
+        'Status',
+        'Checked In',
+        'Checked Out',
+        'Minutes Present',
+        'Meets Minimum',
+        'Marked By',
+        'Override Reason',
       ];
 
-      const rows = sessionData.attendance.studentList.map((student) => [
+      const toRow = (
+        student: AttendanceEntry,
+        status: 'Present' | 'Late' | 'Absent' | 'Excused',
+        override?: AttendanceOverride
+      ) => [
         student.IndexNumber || student.username,
         student.username,
         student.email,
@@ -133,10 +347,36 @@ const SessionScreen = () => {
         sessionData.course.courseName,
         startDateTime.date,
         startDateTime.time,
-      ]);
+        status,
+        student.checkedInAt ? formatDateTime(student.checkedInAt).time : '',
+        student.checkedOutAt ? formatDateTime(student.checkedOutAt).time : '',
+        String(getMinutesPresent(student) ?? ''),
+        status === 'Absent' ? '' : meetsMinimumPresence(sessionData, student) ? 'Yes' : 'No',
+        override ? 'Lecturer' : status === 'Present' || status === 'Late' ? 'Self' : '',
+        override?.reason ?? '',
+      ];
+
+      const rows = [
+        ...sessionData.attendance.studentList.map((student) => {
+          const override = getOverride(student);
+          return toRow(
+            student,
+            isLate(student) ? 'Late' : 'Present',
+            override?.status === 'PRESENT' ? override : undefined
+          );
+        }),
+        ...markedAbsent.map((override) => toRow(override.student, 'Absent', override)),
+        ...rosterAbsent.map((student) => toRow(student, 'Absent')),
+        ...(rosterAttendance?.excused ?? []).map((student) => toRow(student, 'Excused')),
+      ];
+
+      if (rows.length === 0) {
+        alert('No students to export');
+        return;
+      }
 
       const csvContent = [headers, ...rows]
-        .map((row) => row.map((field) => `"${field}"`).join(','))
+        .map((row) => row.map((field) => `"${field.replace(/"/g, '""')}"`).join(','))
         .join('\n');
 
       const dateForFilename = formatDateForFilename(sessionData.startTime);
@@ -179,6 +419,15 @@ const SessionScreen = () => {
           icon: 'stop-circle',
           label: 'Session Ended',
         };
+      case 'REOPENED':
+        return {
+          color: 'bg-amber-500',
+          textColor: 'text-amber-600',
+          bgColor: 'bg-amber-50',
+          icon: 'replay',
+          label: 'Reopened',
+        };
+      case 'SCHEDULED':
       default:
         return {
           color: 'bg-gray-500',
@@ -194,7 +443,10 @@ const SessionScreen = () => {
     try {
       setIsExporting(true);
 
-      if (!sessionData.attendance.studentList || sessionData.attendance.studentList.length === 0) {
+      // Absentees from the roster and from overrides are reported even if nobody attended
+      const absentCount =
+        markedAbsent.length + rosterAbsent.length + (rosterAttendance?.excused.length ?? 0);
+      if (sessionData.attendance.studentList.length === 0 && absentCount === 0) {
         alert('No students to export');
         return;
       }
@@ -215,6 +467,8 @@ const SessionScreen = () => {
             th { background-color: #2563eb; color: white; padding: 12px; text-align: left; }
             td { padding: 10px; border-bottom: 1px solid #e5e7eb; }
             tr:nth-child(even) { background-color: #f9fafb; }
+            .manual { color: #b45309; font-size: 12px; }
+            .late { color: #d97706; font-size: 12px; }
             .footer { margin-top: 40px; text-align: center; color: #6b7280; font-size: 12px; }
           </style>
         </head>
@@ -240,6 +494,16 @@ const SessionScreen = () => {
             <div class="info-row">
               <span class="label">Total Students:</span> ${sessionData.attendance.studentList.length}
             </div>
+            <div class="info-row">
+              <span class="label">Late Arrivals:</span> ${stats.late} (more than ${sessionData.lateThresholdMinutes} min after start)
+            </div>
+            ${
+              sessionData.requiresCheckOut
+                ? `<div class="info-row">
+              <span class="label">Checked Out:</span> ${stats.checkedOut} of ${sessionData.attendance.studentList.length}
+            </div>`
+                : ''
+            }
           </div>
           
           <h2>Students Present</h2>
@@ -250,23 +514,108 @@ const SessionScreen = () => {
                 <th>Student ID</th>
                 <th>Username</th>
                 <th>Email</th>
+                <th>Checked In</th>
+                ${sessionData.requiresCheckOut ? '<th>Time Present</th>' : ''}
+                <th>Marked By</th>
               </tr>
             </thead>
             <tbody>
               ${sessionData.attendance.studentList
-                .map(
-                  (student, index) => `
+                .map((student, index) => {
+                  const override = getOverride(student);
+                  return `
                   <tr>
                     <td>${index + 1}</td>
                     <td>${student.IndexNumber || student.username}</td>
                     <td>${student.username}</td>
                     <td>${student.email}</td>
+                    <td>${student.checkedInAt ? formatDateTime(student.checkedInAt).time : '-'}${
+                      isLate(student)
+                        ? `<br /><span class="late">${getMinutesLate(sessionData.attendance, student)} min late</span>`
+                        : ''
+                    }</td>
+                    ${
+                      sessionData.requiresCheckOut
+                        ? `<td>${describePresence(student)}${
+                            meetsMinimumPresence(sessionData, student)
+                              ? ''
+                              : '<br /><span class="late">Below minimum</span>'
+                          }</td>`
+                        : ''
+                    }
+                    <td>${
+                      override?.status === 'PRESENT'
+                        ? `Lecturer<br /><span class="manual">${override.reason}</span>`
+                        : 'Self'
+                    }</td>
+                  </tr>
+                `;
+                })
+                .join('')}
+            </tbody>
+          </table>
+          ${
+            markedAbsent.length > 0
+              ? `
+          <h2>Marked Absent by Lecturer</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Student ID</th>
+                <th>Username</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${markedAbsent
+                .map(
+                  (override) => `
+                  <tr>
+                    <td>${override.student.IndexNumber || override.student.username}</td>
+                    <td>${override.student.username}</td>
+                    <td>${override.reason}</td>
                   </tr>
                 `
                 )
                 .join('')}
             </tbody>
-          </table>
+          </table>`
+              : ''
+          }
+          ${
+            rosterAbsent.length > 0 || (rosterAttendance?.excused.length ?? 0) > 0
+              ? `
+          <h2>Absent from Class Roster</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Student ID</th>
+                <th>Name</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${[
+                ...rosterAbsent.map((student) => ({ student, status: 'Absent' })),
+                ...(rosterAttendance?.excused ?? []).map((student) => ({
+                  student,
+                  status: 'Excused',
+                })),
+              ]
+                .map(
+                  ({ student, status }) => `
+                  <tr>
+                    <td>${student.IndexNumber || student.username}</td>
+                    <td>${student.firstName} ${student.lastName}</td>
+                    <td>${status}</td>
+                  </tr>
+                `
+                )
+                .join('')}
+            </tbody>
+          </table>`
+              : ''
+          }
           
           <div class="footer">
             <p>Generated on ${new Date().toLocaleString()}</p>
@@ -336,10 +685,20 @@ const SessionScreen = () => {
         {/* Live Update Indicator */}
         <View className="mt-3 flex-row items-center justify-center">
           <View
-            className={`mr-2 h-2 w-2 rounded-full ${isUpdating ? 'bg-yellow-400' : 'bg-green-400'}`}
+            className={`mr-2 h-2 w-2 rounded-full ${
+              realtimeStatus === 'live'
+                ? 'bg-green-400'
+                : realtimeStatus === 'closed'
+                  ? 'bg-gray-400'
+                  : 'bg-yellow-400'
+            }`}
           />
           <Text className="text-xs text-white/80">
-            {isUpdating ? 'Updating...' : `Last updated: ${lastUpdated.toLocaleTimeString()}`}
+            {realtimeStatus === 'connecting'
+              ? 'Connecting...'
+              : isUpdating
+                ? 'Updating...'
+                : `${realtimeStatus === 'live' ? 'Live · ' : ''}Last updated: ${lastUpdated.toLocaleTimeString()}`}
           </Text>
         </View>
       </View>
@@ -368,12 +727,103 @@ const SessionScreen = () => {
                   <Text className={`text-base font-semibold ${statusInfo.textColor}`}>
                     {statusInfo.label}
                   </Text>
-                  <Text className="text-sm text-gray-500">Current status</Text>
+                  <Text className="text-sm text-gray-500">
+                    {sessionData.status === 'SCHEDULED'
+                      ? `Opens ${startDateTime.date} at ${startDateTime.time}`
+                      : 'Current status'}
+                  </Text>
                 </View>
               </View>
             </View>
           </View>
 
+          {/* Session Controls */}
+          {canRunSession && (isSessionOpen(sessionData) || canReopenSession(sessionData)) && (
+            <View
+              className="overflow-hidden rounded-2xl bg-white p-6 shadow-sm"
+              style={{
+                shadowColor: '#000',
+                shadowOffset: { width: 0, height: 2 },
+                shadowOpacity: 0.1,
+                shadowRadius: 8,
+                elevation: 3,
+              }}>
+              <View className="mb-4 flex-row items-center justify-between">
+                <View className="flex-row items-center">
+                  <View className="mr-3 rounded-full bg-indigo-100 p-2">
+                    <Ionicons name="options" size={20} color="#6366f1" />
+                  </View>
+                  <Text className="text-lg font-semibold text-gray-900">Session Controls</Text>
+                </View>
+                {isChangingLifecycle && <ActivityIndicator size="small" color="#6366f1" />}
+              </View>
+
+              {isSessionOpen(sessionData) ? (
+                <>
+                  <Text className="mb-3 text-sm text-gray-500">
+                    Open until {endDateTime.time}. Extend it if class runs over.
+                  </Text>
+                  <View className="mb-4 flex-row flex-wrap gap-2">
+                    {EXTEND_OPTIONS.map((minutes) => (
+                      <TouchableOpacity
+                        key={minutes}
+                        activeOpacity={0.7}
+                        disabled={isChangingLifecycle}
+                        onPress={() => handleExtendSession(minutes)}
+                        className="rounded-full border border-indigo-200 bg-indigo-50 px-3 py-2">
+                        <Text className="text-sm font-medium text-indigo-700">+{minutes} min</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <TouchableOpacity
+                    activeOpacity={0.7}
+                    disabled={isChangingLifecycle}
+                    onPress={handleEndSession}
+                    className="flex-row items-center justify-center rounded-xl bg-red-50 py-3">
+                    <Ionicons name="stop-circle-outline" size={18} color="#dc2626" />
+                    <Text className="ml-2 font-semibold text-red-600">End Session Now</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <>
+                  <Text className="mb-3 text-sm text-gray-500">
+                    Let late students in by reopening the session for {REOPEN_GRACE_MINUTES}{' '}
+                    minutes. Available until {formatDateTime(getReopenDeadline(sessionData)).time}.
+                  </Text>
+                  <TouchableOpacity
+                    activeOpacity={0.7}
+                    disabled={isChangingLifecycle}
+                    onPress={handleReopenSession}
+                    className="flex-row items-center justify-center rounded-xl bg-amber-50 py-3">
+                    <MaterialIcons name="replay" size={18} color="#d97706" />
+                    <Text className="ml-2 font-semibold text-amber-700">
+                      Reopen for {REOPEN_GRACE_MINUTES} Minutes
+                    </Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          )}
+
+          {/* QR Check-in */}
+          {isSessionOpen(sessionData) && sessionData.requiresQrCode && (
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={() => qrModalRef.current?.present()}
+              className="flex-row items-center rounded-2xl bg-white p-4 shadow-sm">
+              <View className="mr-3 rounded-full bg-blue-100 p-3">
+                <MaterialIcons name="qr-code-2" size={24} color="#2563eb" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-base font-semibold text-gray-900">Show Check-in Code</Text>
+                <Text className="text-sm text-gray-500">
+                  Students scan the rotating code to prove they are in the room
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#9ca3af" />
+            </TouchableOpacity>
+          )}
+
           {/* Enhanced Attendance Summary */}
           {sessionData.attendance && (
             <View
@@ -400,14 +850,26 @@ const SessionScreen = () => {
                         </Text>
                       )}
                     </View>
-                    <Text className="text-white/80">Students Present</Text>
+                    <Text className="text-white/80">
+                      Students Present{stats.late > 0 && ` · ${stats.late} late`}
+                    </Text>
+                  </View>
+                  <View className="flex-row gap-2">
+                    {canEditAttendance && (
+                      <TouchableOpacity
+                        activeOpacity={0.7}
+                        onPress={() => openOverrideModal()}
+                        className="rounded-full bg-white/20 p-3">
+                        <Ionicons name="person-add" size={24} color="white" />
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity
+                      activeOpacity={0.7}
+                      onPress={() => exportModalRef.current?.present()}
+                      className="rounded-full bg-white/20 p-3">
+                      <Ionicons name="download" size={24} color="white" />
+                    </TouchableOpacity>
                   </View>
-                  <TouchableOpacity
-                    activeOpacity={0.7}
-                    onPress={() => exportModalRef.current?.present()}
-                    className="rounded-full bg-white/20 p-3">
-                    <Ionicons name="download" size={24} color="white" />
-                  </TouchableOpacity>
                 </View>
               </View>
 
@@ -431,21 +893,45 @@ const SessionScreen = () => {
 
                     {/* Student Preview */}
                     <View className="space-y-3">
-                      {sessionData.attendance.studentList.slice(0, 3).map((student, index) => (
-                        <View
-                          key={`${student.username}-${index}`}
-                          className="flex-row items-center rounded-xl bg-green-50 p-4">
-                          <View className="mr-3 h-10 w-10 items-center justify-center rounded-full bg-green-500">
-                            <MaterialIcons name="check" size={20} color="white" />
+                      {sessionData.attendance.studentList.slice(0, 3).map((student, index) => {
+                        const isManual = getOverride(student)?.status === 'PRESENT';
+                        return (
+                          <View
+                            key={`${student.username}-${index}`}
+                            className={`flex-row items-center rounded-xl p-4 ${
+                              isManual ? 'bg-amber-50' : 'bg-green-50'
+                            }`}>
+                            <View
+                              className={`mr-3 h-10 w-10 items-center justify-center rounded-full ${
+                                isManual ? 'bg-amber-500' : 'bg-green-500'
+                              }`}>
+                              <MaterialIcons
+                                name={isManual ? 'edit' : 'check'}
+                                size={20}
+                                color="white"
+                              />
+                            </View>
+                            <View className="flex-1">
+                              <Text className="font-semibold text-gray-900">
+                                {student.IndexNumber ?? student.username}
+                              </Text>
+                              <Text className="text-sm text-gray-500">
+                                {isManual ? 'Added by lecturer' : student.email}
+                              </Text>
+                              {renderPresence(student)}
+                            </View>
+                            {renderLateBadge(student)}
+                            {canEditAttendance && (
+                              <TouchableOpacity
+                                activeOpacity={0.7}
+                                onPress={() => openOverrideModal(student)}
+                                className="p-2">
+                                <Ionicons name="remove-circle-outline" size={22} color="#ef4444" />
+                              </TouchableOpacity>
+                            )}
                           </View>
-                          <View className="flex-1">
-                            <Text className="font-semibold text-gray-900">
-                              {student.IndexNumber ?? student.username}
-                            </Text>
-                            <Text className="text-sm text-gray-500">{student.email}</Text>
-                          </View>
-                        </View>
-                      ))}
+                        );
+                      })}
                     </View>
 
                     {sessionData.attendance.studentList.length > 3 && (
@@ -474,6 +960,227 @@ const SessionScreen = () => {
             </View>
           )}
 
+          {/* Class Roster */}
+          {isLecturer && rosterAttendance && (
+            <View
+              className="overflow-hidden rounded-2xl bg-white p-6 shadow-sm"
+              style={{
+                shadowColor: '#000',
+                shadowOffset: { width: 0, height: 2 },
+                shadowOpacity: 0.1,
+                shadowRadius: 8,
+                elevation: 3,
+              }}>
+              <View className="mb-4 flex-row items-center">
+                <View className="mr-3 rounded-full bg-purple-100 p-2">
+                  <Ionicons name="people" size={20} color="#8b5cf6" />
+                </View>
+                <Text className="text-lg font-semibold text-gray-900">Class Roster</Text>
+              </View>
+
+              <View className="mb-4 flex-row gap-3">
+                {[
+                  {
+                    label: 'Present',
+                    count: rosterAttendance.present.length,
+                    color: 'text-green-600',
+                  },
+                  { label: 'Absent', count: rosterAttendance.absent.length, color: 'text-red-600' },
+                  {
+                    label: 'Excused',
+                    count: rosterAttendance.excused.length,
+                    color: 'text-blue-600',
+                  },
+                ].map(({ label, count, color }) => (
+                  <View key={label} className="flex-1 items-center rounded-xl bg-gray-50 py-3">
+                    <Text className={`text-2xl font-bold ${color}`}>{count}</Text>
+                    <Text className="text-xs text-gray-500">{label}</Text>
+                  </View>
+                ))}
+              </View>
+              <Text className="mb-3 text-xs text-gray-500">
+                {rosterAttendance.present.length} of {rosterAttendance.expected.length} enrolled
+                students attended
+              </Text>
+
+              {[...rosterAttendance.absent, ...rosterAttendance.excused].map(
+                (student: RosterEntry) => {
+                  const isExcused = rosterAttendance.excused.includes(student);
+                  return (
+                    <View
+                      key={student.username}
+                      className="flex-row items-center border-b border-gray-100 py-3">
+                      <View
+                        className={`mr-3 h-10 w-10 items-center justify-center rounded-full ${
+                          isExcused ? 'bg-blue-100' : 'bg-red-100'
+                        }`}>
+                        <MaterialIcons
+                          name={isExcused ? 'event-available' : 'person-off'}
+                          size={20}
+                          color={isExcused ? '#3b82f6' : '#ef4444'}
+                        />
+                      </View>
+                      <View className="flex-1">
+                        <Text className="font-semibold text-gray-900">
+                          {student.IndexNumber || student.username}
+                        </Text>
+                        <Text className="text-sm text-gray-500">
+                          {student.firstName} {student.lastName}
+                          {isExcused && ' · Excused'}
+                        </Text>
+                      </View>
+                      {!isExcused && canEditAttendance && (
+                        <TouchableOpacity
+                          activeOpacity={0.7}
+                          onPress={() => openOverrideModal(student, 'PRESENT')}
+                          className="p-2">
+                          <Ionicons name="add-circle-outline" size={22} color="#10b981" />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  );
+                }
+              )}
+            </View>
+          )}
+
+          {/* Manual Changes */}
+          {overrides.length > 0 && (
+            <View
+              className="overflow-hidden rounded-2xl bg-white p-6 shadow-sm"
+              style={{
+                shadowColor: '#000',
+                shadowOffset: { width: 0, height: 2 },
+                shadowOpacity: 0.1,
+                shadowRadius: 8,
+                elevation: 3,
+              }}>
+              <View className="mb-4 flex-row items-center">
+                <View className="mr-3 rounded-full bg-amber-100 p-2">
+                  <MaterialIcons name="edit-note" size={20} color="#d97706" />
+                </View>
+                <Text className="text-lg font-semibold text-gray-900">Manual Changes</Text>
+              </View>
+
+              {[...overrides].reverse().map((override, index) => (
+                <View
+                  key={`${override.student.username}-${override.createdAt}-${index}`}
+                  className="border-b border-gray-100 py-3">
+                  <View className="flex-row items-center justify-between">
+                    <Text className="flex-1 font-semibold text-gray-900">
+                      {override.student.IndexNumber || override.student.username}
+                    </Text>
+                    <View
+                      className={`rounded-full px-2 py-1 ${
+                        override.status === 'PRESENT' ? 'bg-green-100' : 'bg-red-100'
+                      }`}>
+                      <Text
+                        className={`text-xs font-medium ${
+                          override.status === 'PRESENT' ? 'text-green-700' : 'text-red-700'
+                        }`}>
+                        {override.status === 'PRESENT' ? 'Marked present' : 'Marked absent'}
+                      </Text>
+                    </View>
+                  </View>
+                  <Text className="mt-1 text-sm text-gray-600">{override.reason}</Text>
+                  <Text className="mt-1 text-xs text-gray-400">
+                    {formatDateTime(override.createdAt).date} at{' '}
+                    {formatDateTime(override.createdAt).time}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Absence Justifications */}
+          {isLecturer && justifications.length > 0 && (
+            <View
+              className="overflow-hidden rounded-2xl bg-white p-6 shadow-sm"
+              style={{
+                shadowColor: '#000',
+                shadowOffset: { width: 0, height: 2 },
+                shadowOpacity: 0.1,
+                shadowRadius: 8,
+                elevation: 3,
+              }}>
+              <View className="mb-4 flex-row items-center">
+                <View className="mr-3 rounded-full bg-blue-100 p-2">
+                  <Ionicons name="document-text" size={20} color="#3b82f6" />
+                </View>
+                <Text className="flex-1 text-lg font-semibold text-gray-900">
+                  Absence Justifications
+                </Text>
+                {pendingJustifications > 0 && (
+                  <View className="rounded-full bg-yellow-100 px-2 py-1">
+                    <Text className="text-xs font-medium text-yellow-700">
+                      {pendingJustifications} pending
+                    </Text>
+                  </View>
+                )}
+              </View>
+
+              {justifications.map((justification) => (
+                <View key={justification.id} className="mb-3 rounded-xl bg-gray-50 p-4">
+                  <View className="flex-row items-center justify-between">
+                    <Text className="flex-1 font-semibold text-gray-900">
+                      {justification.student.IndexNumber || justification.student.username}
+                    </Text>
+                    <Text
+                      className={`text-xs font-medium ${
+                        justification.status === 'APPROVED'
+                          ? 'text-blue-700'
+                          : justification.status === 'REJECTED'
+                            ? 'text-red-700'
+                            : 'text-yellow-700'
+                      }`}>
+                      {justification.status === 'APPROVED'
+                        ? 'Excused'
+                        : justification.status === 'REJECTED'
+                          ? 'Rejected'
+                          : 'Pending'}
+                    </Text>
+                  </View>
+                  <Text className="mt-1 text-sm text-gray-600">{justification.reason}</Text>
+                  {justification.attachmentUrl && (
+                    <TouchableOpacity
+                      activeOpacity={0.7}
+                      onPress={() =>
+                        justification.attachmentUrl && Linking.openURL(justification.attachmentUrl)
+                      }
+                      className="mt-2 flex-row items-center">
+                      <Ionicons name="attach" size={14} color="#2563eb" />
+                      <Text className="ml-1 text-xs font-medium text-blue-600">
+                        {justification.attachmentName ?? 'View attachment'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                  <Text className="mt-1 text-xs text-gray-400">
+                    Submitted {formatDateTime(justification.createdAt).date} at{' '}
+                    {formatDateTime(justification.createdAt).time}
+                  </Text>
+                  {justification.status === 'PENDING' && canEditAttendance && (
+                    <View className="mt-3 flex-row gap-2">
+                      <TouchableOpacity
+                        activeOpacity={0.7}
+                        disabled={isReviewing}
+                        onPress={() => handleReviewJustification(justification, 'APPROVED')}
+                        className="flex-1 items-center rounded-lg bg-blue-600 py-2">
+                        <Text className="text-sm font-semibold text-white">Approve</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        activeOpacity={0.7}
+                        disabled={isReviewing}
+                        onPress={() => handleReviewJustification(justification, 'REJECTED')}
+                        className="flex-1 items-center rounded-lg bg-red-50 py-2">
+                        <Text className="text-sm font-semibold text-red-600">Reject</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+
           {/* Enhanced Timeline */}
           <View
             className="overflow-hidden rounded-2xl bg-white p-6 shadow-sm"
@@ -576,12 +1283,10 @@ const SessionScreen = () => {
                   <Text className="text-sm text-gray-500">Email</Text>
                   <Text className="text-base text-gray-700">{sessionData.lecturer.email}</Text>
                 </View>
-                {sessionData.lecturer.department.departmentName && (
+                {lecturerDepartment && (
                   <View>
                     <Text className="text-sm text-gray-500">Department</Text>
-                    <Text className="text-base text-gray-700">
-                      {sessionData.lecturer.department.departmentName}
-                    </Text>
+                    <Text className="text-base text-gray-700">{lecturerDepartment}</Text>
                   </View>
                 )}
               </View>
@@ -628,17 +1333,40 @@ const SessionScreen = () => {
               <BottomSheetFlatList
                 data={sessionData.attendance.studentList || []}
                 keyExtractor={(item, index) => `${item.username}-${index}`}
-                renderItem={({ item }) => (
-                  <View className="flex-row items-center border-b border-gray-100 py-4">
-                    <View className="mr-3 h-10 w-10 items-center justify-center rounded-full bg-green-100">
-                      <MaterialIcons name="person" size={20} color="#10b981" />
-                    </View>
-                    <View className="flex-1">
-                      <Text className="font-semibold text-gray-900">{item.username}</Text>
-                      <Text className="text-sm text-gray-500">{item.email}</Text>
+                renderItem={({ item }) => {
+                  const isManual = getOverride(item)?.status === 'PRESENT';
+                  return (
+                    <View className="flex-row items-center border-b border-gray-100 py-4">
+                      <View
+                        className={`mr-3 h-10 w-10 items-center justify-center rounded-full ${
+                          isManual ? 'bg-amber-100' : 'bg-green-100'
+                        }`}>
+                        <MaterialIcons
+                          name={isManual ? 'edit' : 'person'}
+                          size={20}
+                          color={isManual ? '#d97706' : '#10b981'}
+                        />
+                      </View>
+                      <View className="flex-1">
+                        <Text className="font-semibold text-gray-900">{item.username}</Text>
+                        <Text className="text-sm text-gray-500">
+                          {item.email}
+                          {isManual && ' · Added by lecturer'}
+                        </Text>
+                        {renderPresence(item)}
+                      </View>
+                      {renderLateBadge(item)}
+                      {canEditAttendance && (
+                        <TouchableOpacity
+                          activeOpacity={0.7}
+                          onPress={() => openOverrideModal(item)}
+                          className="p-2">
+                          <Ionicons name="remove-circle-outline" size={22} color="#ef4444" />
+                        </TouchableOpacity>
+                      )}
                     </View>
-                  </View>
-                )}
+                  );
+                }}
                 showsVerticalScrollIndicator={false}
                 contentContainerStyle={{ paddingBottom: 20 }}
                 ListEmptyComponent={
@@ -650,8 +1378,30 @@ const SessionScreen = () => {
               />
             </BottomSheetView>
           </CustomBottomSheetModal>
+
+          {/* QR Check-in Modal */}
+          <CustomBottomSheetModal ref={qrModalRef}>
+            <BottomSheetView style={{ flex: 1, paddingHorizontal: 16 }}>
+              <View className="mb-4 flex-row items-center justify-between border-b border-gray-200 pb-4">
+                <TouchableOpacity activeOpacity={0.7} onPress={() => qrModalRef.current?.dismiss()}>
+                  <Text className="text-lg text-gray-600">Close</Text>
+                </TouchableOpacity>
+                <Text className="text-xl font-bold text-gray-900">Check-in Code</Text>
+                <View className="w-12" />
+              </View>
+              <SessionQrCode sessionId={sessionData.id} />
+            </BottomSheetView>
+          </CustomBottomSheetModal>
         </View>
       </ScrollView>
+
+      <AttendanceOverrideModal
+        visible={showOverrideModal}
+        sessionId={sessionData.id}
+        student={overrideStudent}
+        status={overrideStatus}
+        onClose={() => setShowOverrideModal(false)}
+      />
     </View>
   );
 };
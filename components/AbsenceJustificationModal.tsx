@@ -0,0 +1,181 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getErrorMessage } from '~/lib/apiClient';
+import { formatDateTime } from '~/lib/utils';
+import { useApiStore, useIsLoading } from '~/store/apiStore';
+import { JustificationAttachment, Session } from '~/types/app';
+
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Lets a student explain why they missed a session, optionally attaching a supporting document
+ * (e.g. a medical note) from the device. The lecturer then approves or rejects it.
+ */
+const AbsenceJustificationModal = ({
+  visible,
+  session,
+  onClose,
+}: {
+  visible: boolean;
+  session: Session | null;
+  onClose: () => void;
+}) => {
+  const submitJustification = useApiStore((state) => state.submitJustification);
+  const isSaving = useIsLoading('submitJustification');
+
+  const [reason, setReason] = useState('');
+  const [attachment, setAttachment] = useState<JustificationAttachment | null>(null);
+  const [isPicking, setIsPicking] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setReason('');
+    setAttachment(null);
+  }, [visible]);
+
+  const pickAttachment = async () => {
+    setIsPicking(true);
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/pdf', 'image/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const [asset] = result.assets;
+      if (asset.size && asset.size > MAX_ATTACHMENT_BYTES) {
+        Alert.alert('File Too Large', 'Please choose a file smaller than 5 MB.');
+        return;
+      }
+
+      const data = await FileSystem.readAsStringAsync(asset.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      setAttachment({
+        name: asset.name,
+        mimeType: asset.mimeType ?? 'application/octet-stream',
+        data,
+      });
+    } catch {
+      Alert.alert('Error', 'Failed to attach the file. Please try again.');
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!session || !reason.trim()) return;
+
+    try {
+      await submitJustification({
+        sessionId: session.id,
+        reason: reason.trim(),
+        attachment: attachment ?? undefined,
+      });
+      onClose();
+      Alert.alert('Submitted', 'Your lecturer will review your justification.');
+    } catch (err) {
+      Alert.alert('Error', getErrorMessage(err, 'Failed to submit justification'));
+    }
+  };
+
+  const sessionDate = session ? formatDateTime(session.startTime) : null;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-gray-200 px-6 pb-4 pt-6">
+          <TouchableOpacity activeOpacity={0.7} onPress={onClose}>
+            <Text className="text-lg text-gray-600">Cancel</Text>
+          </TouchableOpacity>
+          <Text className="text-xl font-bold text-gray-900">Justify Absence</Text>
+          <TouchableOpacity
+            activeOpacity={0.7}
+            onPress={handleSubmit}
+            disabled={!reason.trim() || isSaving}
+            className={`rounded-lg px-4 py-2 ${
+              !reason.trim() || isSaving ? 'bg-gray-300' : 'bg-blue-600'
+            }`}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text className="font-semibold text-white">Submit</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView className="flex-1 px-6 pt-4" keyboardShouldPersistTaps="handled">
+          {session && sessionDate && (
+            <View className="mb-6 rounded-xl bg-gray-50 p-4">
+              <Text className="font-semibold text-gray-900">
+                {session.course.courseCode} - {session.course.courseName}
+              </Text>
+              <Text className="mt-1 text-sm text-gray-500">
+                {sessionDate.date} at {sessionDate.time}
+              </Text>
+            </View>
+          )}
+
+          <Text className="mb-2 text-sm font-medium text-gray-700">Reason</Text>
+          <TextInput
+            className="mb-6 min-h-[100px] rounded-xl border border-gray-200 bg-gray-50 p-4 text-gray-900"
+            placeholder="Explain why you could not attend this session"
+            value={reason}
+            onChangeText={setReason}
+            multiline
+            textAlignVertical="top"
+          />
+
+          <Text className="mb-2 text-sm font-medium text-gray-700">
+            Supporting Document (optional)
+          </Text>
+          {attachment ? (
+            <View className="flex-row items-center rounded-xl bg-blue-50 p-4">
+              <Ionicons name="document-attach" size={20} color="#3b82f6" />
+              <Text className="ml-3 flex-1 text-sm text-blue-800" numberOfLines={1}>
+                {attachment.name}
+              </Text>
+              <TouchableOpacity activeOpacity={0.7} onPress={() => setAttachment(null)}>
+                <Ionicons name="close-circle" size={20} color="#9ca3af" />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={pickAttachment}
+              disabled={isPicking}
+              className="flex-row items-center justify-center rounded-xl border-2 border-dashed border-gray-200 bg-gray-50 py-4">
+              {isPicking ? (
+                <ActivityIndicator size="small" color="#6b7280" />
+              ) : (
+                <>
+                  <Ionicons name="attach" size={18} color="#6b7280" />
+                  <Text className="ml-2 font-medium text-gray-600">Attach PDF or image</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+export default AbsenceJustificationModal;
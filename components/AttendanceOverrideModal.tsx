@@ -0,0 +1,241 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getErrorMessage } from '~/lib/apiClient';
+import { useApiStore, useIsLoading, useResourceError } from '~/store/apiStore';
+import { AttendanceOverrideStatus, Student } from '~/types/app';
+
+const REASON_PRESETS = ['Phone battery died', 'Device problem', 'Marked by mistake', 'Left early'];
+
+/**
+ * Lets a lecturer manually change a session's attendance.
+ * Without `student` the lecturer searches for a student (by index number or name) to mark present;
+ * with `student` that student is marked absent, or present when `status` says so (e.g. an absentee
+ * from the class roster). Either way a reason is required.
+ */
+const AttendanceOverrideModal = ({
+  visible,
+  sessionId,
+  student,
+  status = student ? 'ABSENT' : 'PRESENT',
+  onClose,
+}: {
+  visible: boolean;
+  sessionId: number;
+  student?: Student | null;
+  status?: AttendanceOverrideStatus;
+  onClose: () => void;
+}) => {
+  const { searchStudents, overrideAttendance } = useApiStore();
+  const isSearching = useIsLoading('studentSearch');
+  const isSaving = useIsLoading('overrideAttendance');
+  const searchError = useResourceError('studentSearch');
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [results, setResults] = useState<Student[]>([]);
+  const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
+  const [reason, setReason] = useState('');
+
+  const target = student ?? selectedStudent;
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setSearchQuery('');
+    setResults([]);
+    setSelectedStudent(null);
+    setReason('');
+  }, [visible]);
+
+  // Search once the lecturer stops typing, cancelling the previous search
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (student || query.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      searchStudents(query, controller.signal)
+        .then(setResults)
+        .catch(() => {});
+    }, 400);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [searchStudents, searchQuery, student]);
+
+  const handleSave = async () => {
+    if (!target || !reason.trim()) return;
+
+    try {
+      await overrideAttendance({
+        sessionId,
+        username: target.username,
+        status,
+        reason: reason.trim(),
+      });
+      onClose();
+    } catch (err) {
+      Alert.alert('Error', getErrorMessage(err, 'Failed to update attendance'));
+    }
+  };
+
+  const renderResult = ({ item }: { item: Student }) => (
+    <TouchableOpacity
+      activeOpacity={0.7}
+      className="flex-row items-center border-b border-gray-100 py-3"
+      onPress={() => setSelectedStudent(item)}>
+      <View className="mr-3 h-10 w-10 items-center justify-center rounded-full bg-blue-100">
+        <Ionicons name="person" size={18} color="#3b82f6" />
+      </View>
+      <View className="flex-1">
+        <Text className="font-semibold text-gray-900">
+          {item.firstName} {item.lastName}
+        </Text>
+        <Text className="text-sm text-gray-500">{item.IndexNumber || item.username}</Text>
+      </View>
+      <Ionicons name="add-circle-outline" size={22} color="#3b82f6" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-gray-200 px-6 pb-4 pt-6">
+          <TouchableOpacity activeOpacity={0.7} onPress={onClose}>
+            <Text className="text-lg text-gray-600">Cancel</Text>
+          </TouchableOpacity>
+          <Text className="text-xl font-bold text-gray-900">
+            {status === 'PRESENT' ? 'Mark Present' : 'Mark Absent'}
+          </Text>
+          <TouchableOpacity
+            activeOpacity={0.7}
+            onPress={handleSave}
+            disabled={!target || !reason.trim() || isSaving}
+            className={`rounded-lg px-4 py-2 ${
+              !target || !reason.trim() || isSaving ? 'bg-gray-300' : 'bg-blue-600'
+            }`}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text className="font-semibold text-white">Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View className="flex-1 px-6 pt-4">
+          {target ? (
+            <View
+              className={`mb-4 flex-row items-center rounded-xl p-4 ${
+                status === 'PRESENT' ? 'bg-green-50' : 'bg-red-50'
+              }`}>
+              <View
+                className={`mr-3 h-10 w-10 items-center justify-center rounded-full ${
+                  status === 'PRESENT' ? 'bg-green-500' : 'bg-red-500'
+                }`}>
+                <Ionicons
+                  name={status === 'PRESENT' ? 'checkmark' : 'close'}
+                  size={20}
+                  color="white"
+                />
+              </View>
+              <View className="flex-1">
+                <Text className="font-semibold text-gray-900">
+                  {target.firstName} {target.lastName}
+                </Text>
+                <Text className="text-sm text-gray-500">
+                  {target.IndexNumber || target.username}
+                </Text>
+              </View>
+              {!student && (
+                <TouchableOpacity activeOpacity={0.7} onPress={() => setSelectedStudent(null)}>
+                  <Text className="text-sm font-medium text-blue-600">Change</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : (
+            <>
+              {/* Student Search */}
+              <View className="mb-2 flex-row items-center rounded-xl border border-gray-200 bg-gray-50 px-4 py-3">
+                <Ionicons name="search" size={18} color="#6b7280" />
+                <TextInput
+                  className="ml-3 flex-1 text-gray-900"
+                  placeholder="Search by index number or name"
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  autoFocus
+                />
+                {isSearching && <ActivityIndicator size="small" color="#3b82f6" />}
+              </View>
+              {searchError && <Text className="mb-2 text-sm text-red-600">{searchError}</Text>}
+              <FlatList
+                data={results}
+                keyExtractor={(item) => item.username}
+                renderItem={renderResult}
+                keyboardShouldPersistTaps="handled"
+                ListEmptyComponent={
+                  searchQuery.trim().length >= 2 && !isSearching ? (
+                    <Text className="py-6 text-center text-gray-500">No students found</Text>
+                  ) : null
+                }
+              />
+            </>
+          )}
+
+          {target && (
+            <View>
+              <Text className="mb-2 text-sm font-medium text-gray-700">Reason</Text>
+              <View className="mb-3 flex-row flex-wrap gap-2">
+                {REASON_PRESETS.map((preset) => (
+                  <TouchableOpacity
+                    key={preset}
+                    activeOpacity={0.7}
+                    onPress={() => setReason(preset)}
+                    className={`rounded-full border px-3 py-2 ${
+                      reason === preset
+                        ? 'border-blue-200 bg-blue-50'
+                        : 'border-gray-200 bg-gray-50'
+                    }`}>
+                    <Text
+                      className={`text-sm ${reason === preset ? 'text-blue-700' : 'text-gray-600'}`}>
+                      {preset}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                className="min-h-[80px] rounded-xl border border-gray-200 bg-gray-50 p-4 text-gray-900"
+                placeholder="Describe why you are changing this student's attendance"
+                value={reason}
+                onChangeText={setReason}
+                multiline
+                textAlignVertical="top"
+              />
+            </View>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+export default AttendanceOverrideModal;
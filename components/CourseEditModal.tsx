@@ -0,0 +1,285 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { ApiError, getErrorMessage } from '~/lib/apiClient';
+import { getRecentSemesters } from '~/lib/semesters';
+import { useApiStore, useIsLoading } from '~/store/apiStore';
+import { Course } from '~/types/app';
+
+/**
+ * Lets a lecturer fix a course's name or code, archive it under a semester (or restore it), or
+ * delete it. Courses that already have sessions can only be archived, so their attendance history
+ * is kept.
+ */
+const CourseEditModal = ({
+  visible,
+  course,
+  onClose,
+}: {
+  visible: boolean;
+  course: Course | null;
+  onClose: () => void;
+}) => {
+  const { terms, updateCourse, archiveCourse, deleteCourse } = useApiStore();
+  const isSaving = useIsLoading('updateCourse');
+  const isArchiving = useIsLoading('archiveCourse');
+  const isDeleting = useIsLoading('deleteCourse');
+
+  const semesters = useMemo(() => getRecentSemesters(), []);
+  const [courseName, setCourseName] = useState('');
+  const [courseCode, setCourseCode] = useState('');
+  const [termId, setTermId] = useState<number | undefined>(undefined);
+  const [semester, setSemester] = useState(semesters[0]);
+
+  useEffect(() => {
+    if (!visible || !course) return;
+
+    setCourseName(course.courseName);
+    setCourseCode(course.courseCode);
+    setTermId(course.termId);
+    setSemester(semesters[0]);
+  }, [visible, course, semesters]);
+
+  if (!course) return null;
+
+  const trimmedName = courseName.trim();
+  const trimmedCode = courseCode.trim();
+  const isRenamed = trimmedCode !== course.courseCode;
+  const hasChanges = trimmedName !== course.courseName || isRenamed || termId !== course.termId;
+  const canSave = hasChanges && !!trimmedName && !!trimmedCode && !isSaving;
+  const hasSessions = (course.sessionCount ?? 0) > 0;
+
+  const handleSave = async () => {
+    try {
+      await updateCourse(course.courseCode, {
+        courseName: trimmedName,
+        courseCode: trimmedCode,
+        termId,
+      });
+      onClose();
+    } catch (err) {
+      Alert.alert('Error', getErrorMessage(err, 'Failed to update course'));
+    }
+  };
+
+  const handleArchive = () => {
+    const isArchived = !!course.archivedAt;
+    Alert.alert(
+      isArchived ? 'Restore Course' : 'Archive Course',
+      isArchived
+        ? `Move ${course.courseCode} back to your active courses?`
+        : `Archive ${course.courseCode} under ${semester}? Its timetable stops scheduling sessions, but its sessions and attendance are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: isArchived ? 'Restore' : 'Archive',
+          onPress: async () => {
+            try {
+              await archiveCourse(course.courseCode, isArchived ? null : semester);
+              onClose();
+            } catch (err) {
+              Alert.alert(
+                'Error',
+                getErrorMessage(
+                  err,
+                  isArchived ? 'Failed to restore course' : 'Failed to archive course'
+                )
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Course',
+      `Delete ${course.courseCode} - ${course.courseName}? Its roster and timetable are removed. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCourse(course.courseCode);
+              onClose();
+            } catch (err) {
+              // The server refuses to delete a course that has sessions (e.g. ones our cached
+              // copy doesn't know about yet)
+              Alert.alert(
+                'Error',
+                err instanceof ApiError && err.status === 409
+                  ? 'This course has sessions, so it can only be archived.'
+                  : getErrorMessage(err, 'Failed to delete course')
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      activeOpacity={0.7}
+      onPress={onPress}
+      className={`rounded-full border px-3 py-2 ${
+        isSelected ? 'border-blue-200 bg-blue-50' : 'border-gray-200 bg-gray-50'
+      }`}>
+      <Text className={`text-sm ${isSelected ? 'text-blue-700' : 'text-gray-600'}`}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-gray-200 px-6 pb-4 pt-6">
+          <TouchableOpacity activeOpacity={0.7} onPress={onClose}>
+            <Text className="text-lg text-gray-600">Cancel</Text>
+          </TouchableOpacity>
+          <Text className="text-xl font-bold text-gray-900">Edit Course</Text>
+          <TouchableOpacity
+            activeOpacity={0.7}
+            onPress={handleSave}
+            disabled={!canSave}
+            className={`rounded-lg px-4 py-2 ${canSave ? 'bg-blue-600' : 'bg-gray-300'}`}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text className="font-semibold text-white">Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView className="flex-1 px-6 pt-4" keyboardShouldPersistTaps="handled">
+          {/* Details */}
+          <Text className="mb-2 text-sm font-medium text-gray-700">Course Name</Text>
+          <TextInput
+            className="mb-4 rounded-xl border border-gray-200 bg-gray-50 px-4 py-3 text-gray-900"
+            value={courseName}
+            onChangeText={setCourseName}
+            placeholder="e.g. Introduction to Programming"
+          />
+
+          <Text className="mb-2 text-sm font-medium text-gray-700">Course Code</Text>
+          <TextInput
+            className="mb-2 rounded-xl border border-gray-200 bg-gray-50 px-4 py-3 text-gray-900"
+            value={courseCode}
+            onChangeText={setCourseCode}
+            placeholder="e.g. CSC101"
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          {isRenamed && (
+            <Text className="mb-2 text-xs text-amber-700">
+              Sessions, the timetable and the roster move to the new code.
+            </Text>
+          )}
+
+          {terms.length > 0 && (
+            <>
+              <Text className="mb-2 mt-4 text-sm font-medium text-gray-700">Term</Text>
+              <View className="flex-row flex-wrap gap-2">
+                {[...terms]
+                  .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime())
+                  .map((term) =>
+                    renderChip(term.name, termId === term.id, () => setTermId(term.id))
+                  )}
+              </View>
+            </>
+          )}
+
+          {/* Archive */}
+          <View className="mt-6 border-t border-gray-100 pt-6">
+            <Text className="mb-1 text-lg font-semibold text-gray-900">
+              {course.archivedAt ? 'Archived' : 'Archive'}
+            </Text>
+            <Text className="mb-3 text-sm text-gray-500">
+              {course.archivedAt
+                ? `Archived under ${course.archivedSemester ?? 'a past semester'}.`
+                : 'Move the course out of your active list once the semester is over.'}
+            </Text>
+            {!course.archivedAt && (
+              <View className="mb-3 flex-row flex-wrap gap-2">
+                {semesters.map((option) =>
+                  renderChip(option, semester === option, () => setSemester(option))
+                )}
+              </View>
+            )}
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={handleArchive}
+              disabled={isArchiving}
+              className="flex-row items-center justify-center rounded-xl bg-gray-100 py-3">
+              {isArchiving ? (
+                <ActivityIndicator size="small" color="#374151" />
+              ) : (
+                <>
+                  <Ionicons
+                    name={course.archivedAt ? 'arrow-undo-outline' : 'archive-outline'}
+                    size={18}
+                    color="#374151"
+                  />
+                  <Text className="ml-2 font-semibold text-gray-700">
+                    {course.archivedAt ? 'Restore Course' : 'Archive Course'}
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {/* Delete */}
+          <View className="mb-8 mt-6 border-t border-gray-100 pt-6">
+            <Text className="mb-1 text-lg font-semibold text-gray-900">Delete</Text>
+            <Text className="mb-3 text-sm text-gray-500">
+              {hasSessions
+                ? `This course has ${course.sessionCount} ${course.sessionCount === 1 ? 'session' : 'sessions'}, so it can only be archived to keep its attendance history.`
+                : 'Only courses without sessions can be deleted.'}
+            </Text>
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={handleDelete}
+              disabled={hasSessions || isDeleting}
+              className={`flex-row items-center justify-center rounded-xl py-3 ${
+                hasSessions ? 'bg-gray-100' : 'bg-red-50'
+              }`}>
+              {isDeleting ? (
+                <ActivityIndicator size="small" color="#ef4444" />
+              ) : (
+                <>
+                  <Ionicons
+                    name="trash-outline"
+                    size={18}
+                    color={hasSessions ? '#9ca3af' : '#ef4444'}
+                  />
+                  <Text
+                    className={`ml-2 font-semibold ${hasSessions ? 'text-gray-400' : 'text-red-600'}`}>
+                    Delete Course
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+export default CourseEditModal;
@@ -0,0 +1,231 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getErrorMessage } from '~/lib/apiClient';
+import {
+  ASSIGNABLE_STAFF_ROLES,
+  COURSE_STAFF_ROLE_LABELS,
+  hasCoursePermission,
+} from '~/lib/courseStaff';
+import { useApiStore, useIsLoading } from '~/store/apiStore';
+import { useAuthStore } from '~/store/authStore';
+import { CourseStaffMember, CourseStaffRequest } from '~/types/app';
+
+/**
+ * Lists the lecturers and teaching assistants of a course. The owner can add staff by email,
+ * change their role, or remove them; everyone else sees the list read-only.
+ */
+const CourseStaffModal = ({
+  visible,
+  courseCode,
+  onClose,
+}: {
+  visible: boolean;
+  courseCode: string;
+  onClose: () => void;
+}) => {
+  const { courses, addCourseStaff, updateCourseStaff, removeCourseStaff } = useApiStore();
+  const user = useAuthStore((state) => state.user);
+  const isSaving = useIsLoading('courseStaff');
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CourseStaffRequest['role']>('CO_LECTURER');
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setEmail('');
+    setRole('CO_LECTURER');
+  }, [visible]);
+
+  // Read the store's copy so staff changes show up straight away
+  const course = courses.find((candidate) => candidate.courseCode === courseCode);
+  const staff = [...(course?.staff ?? [])].sort(
+    (a, b) => Number(b.role === 'OWNER') - Number(a.role === 'OWNER')
+  );
+  const canManage = !!course && hasCoursePermission(course, user, 'manageCourse');
+  const trimmedEmail = email.trim().toLowerCase();
+  const canAdd = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedEmail) && !isSaving;
+
+  const handleAdd = async () => {
+    if (staff.some((member) => member.email.toLowerCase() === trimmedEmail)) {
+      Alert.alert('Already on Staff', `${trimmedEmail} already teaches ${courseCode}.`);
+      return;
+    }
+
+    try {
+      await addCourseStaff(courseCode, { email: trimmedEmail, role });
+      setEmail('');
+    } catch (err) {
+      Alert.alert('Error', getErrorMessage(err, 'Failed to add staff member'));
+    }
+  };
+
+  const handleChangeRole = (member: CourseStaffMember) => {
+    Alert.alert(
+      'Change Role',
+      `What should ${member.firstName} ${member.lastName} do on ${courseCode}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        ...ASSIGNABLE_STAFF_ROLES.filter((option) => option !== member.role).map((option) => ({
+          text: COURSE_STAFF_ROLE_LABELS[option],
+          onPress: async () => {
+            try {
+              await updateCourseStaff(courseCode, member.id, option);
+            } catch (err) {
+              Alert.alert('Error', getErrorMessage(err, 'Failed to change staff role'));
+            }
+          },
+        })),
+      ]
+    );
+  };
+
+  const handleRemove = (member: CourseStaffMember) => {
+    Alert.alert(
+      'Remove Staff Member',
+      `Remove ${member.firstName} ${member.lastName} from ${courseCode}? Sessions they ran are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeCourseStaff(courseCode, member.id);
+            } catch (err) {
+              Alert.alert('Error', getErrorMessage(err, 'Failed to remove staff member'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      activeOpacity={0.7}
+      onPress={onPress}
+      className={`rounded-full border px-3 py-2 ${
+        isSelected ? 'border-blue-200 bg-blue-50' : 'border-gray-200 bg-white'
+      }`}>
+      <Text className={`text-sm ${isSelected ? 'text-blue-700' : 'text-gray-600'}`}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderMember = (member: CourseStaffMember) => {
+    const isOwner = member.role === 'OWNER';
+    return (
+      <View key={member.id} className="flex-row items-center border-b border-gray-100 py-3">
+        <View className="mr-3 h-10 w-10 items-center justify-center rounded-full bg-blue-100">
+          <Ionicons name={isOwner ? 'star' : 'person'} size={18} color="#2563eb" />
+        </View>
+        <View className="flex-1">
+          <Text className="font-semibold text-gray-900">
+            {member.firstName} {member.lastName}
+            {member.id === user?.id ? ' (You)' : ''}
+          </Text>
+          <Text className="text-sm text-gray-500">{member.email}</Text>
+        </View>
+        <TouchableOpacity
+          activeOpacity={0.7}
+          disabled={!canManage || isOwner}
+          onPress={() => handleChangeRole(member)}
+          className="mr-1 rounded-full bg-gray-100 px-3 py-1">
+          <Text className="text-xs font-medium text-gray-700">
+            {COURSE_STAFF_ROLE_LABELS[member.role]}
+          </Text>
+        </TouchableOpacity>
+        {canManage && !isOwner && (
+          <TouchableOpacity
+            activeOpacity={0.7}
+            onPress={() => handleRemove(member)}
+            className="p-2">
+            <Ionicons name="remove-circle-outline" size={22} color="#ef4444" />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-gray-200 px-6 pb-4 pt-6">
+          <View className="w-16" />
+          <View className="items-center">
+            <Text className="text-xl font-bold text-gray-900">Teaching Staff</Text>
+            <Text className="text-sm text-gray-500">{courseCode}</Text>
+          </View>
+          <TouchableOpacity activeOpacity={0.7} onPress={onClose} className="w-16 items-end">
+            <Text className="text-lg font-semibold text-blue-600">Done</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView className="flex-1 px-6 pt-4" keyboardShouldPersistTaps="handled">
+          {canManage && (
+            <View className="mb-6 rounded-xl bg-gray-50 p-4">
+              <Text className="mb-2 text-sm font-medium text-gray-700">Add by email</Text>
+              <TextInput
+                className="mb-3 rounded-xl border border-gray-200 bg-white px-4 py-3 text-gray-900"
+                placeholder="lecturer@university.edu"
+                value={email}
+                onChangeText={setEmail}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="email-address"
+              />
+              <View className="mb-3 flex-row gap-2">
+                {ASSIGNABLE_STAFF_ROLES.map((option) =>
+                  renderChip(COURSE_STAFF_ROLE_LABELS[option], role === option, () =>
+                    setRole(option)
+                  )
+                )}
+              </View>
+              <Text className="mb-3 text-xs text-gray-500">
+                {role === 'TA'
+                  ? 'Teaching assistants can run sessions but not change attendance.'
+                  : 'Co-lecturers can run sessions and change attendance.'}
+              </Text>
+              <TouchableOpacity
+                activeOpacity={0.7}
+                onPress={handleAdd}
+                disabled={!canAdd}
+                className={`items-center rounded-xl py-3 ${canAdd ? 'bg-blue-600' : 'bg-gray-300'}`}>
+                {isSaving ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text className="font-semibold text-white">Add to Staff</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {staff.length > 0 ? (
+            staff.map(renderMember)
+          ) : (
+            <Text className="py-6 text-center text-gray-500">
+              Only the course owner teaches this course.
+            </Text>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+export default CourseStaffModal;
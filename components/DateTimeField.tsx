@@ -0,0 +1,91 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, {
+  DateTimePickerAndroid,
+  DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+import { useState } from 'react';
+import { Platform, Text, TouchableOpacity, View } from 'react-native';
+import { formatDate, formatTime } from '~/lib/utils';
+
+/**
+ * A tappable field for picking a date and time, or just a time.
+ * Android opens the native dialogs (date first, then time); iOS shows an inline spinner below the
+ * field until it is tapped again.
+ */
+const DateTimeField = ({
+  value,
+  onChange,
+  mode = 'datetime',
+  minimumDate,
+}: {
+  value: Date;
+  onChange: (date: Date) => void;
+  mode?: 'datetime' | 'time';
+  minimumDate?: Date;
+}) => {
+  const [isPickerVisible, setIsPickerVisible] = useState(false);
+
+  const openAndroidPicker = () => {
+    const pickTime = (date: Date) =>
+      DateTimePickerAndroid.open({
+        value: date,
+        mode: 'time',
+        onChange: (event, time) => {
+          if (event.type === 'set' && time) onChange(time);
+        },
+      });
+
+    if (mode === 'time') {
+      pickTime(value);
+      return;
+    }
+
+    DateTimePickerAndroid.open({
+      value,
+      mode: 'date',
+      minimumDate,
+      onChange: (event, date) => {
+        if (event.type === 'set' && date) pickTime(date);
+      },
+    });
+  };
+
+  const handleIosChange = (_event: DateTimePickerEvent, date?: Date) => {
+    if (date) onChange(date);
+  };
+
+  const label =
+    mode === 'time' ? formatTime(value.toISOString()) : formatDate(value.toISOString(), true);
+
+  return (
+    <View>
+      <TouchableOpacity
+        activeOpacity={0.7}
+        onPress={() =>
+          Platform.OS === 'android'
+            ? openAndroidPicker()
+            : setIsPickerVisible((visible) => !visible)
+        }
+        className="flex-row items-center rounded-xl border border-gray-200 bg-gray-50 px-4 py-3">
+        <Ionicons
+          name={mode === 'time' ? 'time-outline' : 'calendar-outline'}
+          size={18}
+          color="#6b7280"
+        />
+        <Text className="ml-3 flex-1 text-gray-900">{label}</Text>
+        <Ionicons name="chevron-down" size={16} color="#9ca3af" />
+      </TouchableOpacity>
+
+      {Platform.OS !== 'android' && isPickerVisible && (
+        <DateTimePicker
+          value={value}
+          mode={mode}
+          display="spinner"
+          minimumDate={minimumDate}
+          onChange={handleIosChange}
+        />
+      )}
+    </View>
+  );
+};
+export default DateTimeField;
@@ -0,0 +1,30 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useConnectivityStore } from '~/store/connectivityStore';
+
+/**
+ * Global banner shown over every screen while the device is offline.
+ * Cached data stays readable and attendance marks are queued until connectivity returns.
+ */
+const OfflineBanner = () => {
+  const isOnline = useConnectivityStore((state) => state.isOnline);
+  const insets = useSafeAreaInsets();
+
+  if (isOnline) return null;
+
+  return (
+    <View
+      pointerEvents="none"
+      className="absolute left-0 right-0 top-0 z-50 bg-gray-900 px-4 pb-2"
+      style={{ paddingTop: insets.top + 8 }}>
+      <View className="flex-row items-center justify-center">
+        <Ionicons name="cloud-offline-outline" size={16} color="white" />
+        <Text className="ml-2 text-sm font-medium text-white">
+          You are offline. Attendance you mark will sync when you reconnect.
+        </Text>
+      </View>
+    </View>
+  );
+};
+export default OfflineBanner;
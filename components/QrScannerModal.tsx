@@ -0,0 +1,95 @@
+import { Ionicons } from '@expo/vector-icons';
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
+import { useEffect, useRef, useState } from 'react';
+import { Modal, Text, TouchableOpacity, View } from 'react-native';
+import { parseQrPayload, ScannedQrCode } from '~/lib/qrCode';
+
+/**
+ * Full-screen camera for scanning a session's check-in QR code.
+ * Codes that are not Unitrack check-in codes are rejected in place so the student can keep scanning.
+ * Whether the code is still current is checked by the server when attendance is marked.
+ */
+const QrScannerModal = ({
+  visible,
+  onClose,
+  onScanned,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  onScanned: (code: ScannedQrCode) => void;
+}) => {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [message, setMessage] = useState<string | null>(null);
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    handled.current = false;
+    setMessage(null);
+  }, [visible]);
+
+  useEffect(() => {
+    if (visible && permission && !permission.granted && permission.canAskAgain) {
+      requestPermission();
+    }
+  }, [visible, permission, requestPermission]);
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    if (handled.current) return;
+
+    const code = parseQrPayload(data);
+    if (!code) {
+      setMessage('This is not a Unitrack check-in code');
+      return;
+    }
+
+    handled.current = true;
+    onScanned(code);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 bg-black">
+        {permission?.granted ? (
+          <CameraView
+            style={{ flex: 1 }}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={handleBarcodeScanned}
+          />
+        ) : (
+          <View className="flex-1 items-center justify-center px-8">
+            <Ionicons name="camera-outline" size={48} color="white" />
+            <Text className="mt-4 text-center text-white">
+              Camera access is needed to scan the check-in code.
+            </Text>
+            <TouchableOpacity
+              activeOpacity={0.7}
+              className="mt-6 rounded-xl bg-blue-500 px-6 py-3"
+              onPress={requestPermission}>
+              <Text className="font-semibold text-white">Allow Camera</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View className="absolute left-0 right-0 top-14 flex-row items-center justify-between px-6">
+          <Text className="text-lg font-semibold text-white">Scan Check-in Code</Text>
+          <TouchableOpacity
+            activeOpacity={0.7}
+            className="rounded-full bg-white/20 p-2"
+            onPress={onClose}>
+            <Ionicons name="close" size={24} color="white" />
+          </TouchableOpacity>
+        </View>
+
+        {message && (
+          <View className="absolute bottom-16 left-6 right-6 rounded-xl bg-red-500/90 p-4">
+            <Text className="text-center font-medium text-white">{message}</Text>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+export default QrScannerModal;
@@ -0,0 +1,269 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getErrorMessage } from '~/lib/apiClient';
+import {
+  guessRosterMapping,
+  isRosterMappingComplete,
+  previewRosterImport,
+  ROSTER_IMPORT_FIELDS,
+} from '~/lib/rosterImport';
+import { parseCSV } from '~/lib/utils';
+import { useApiStore, useIsLoading } from '~/store/apiStore';
+import { RosterImportIssue, RosterImportMapping } from '~/types/app';
+
+// Issues listed per section before the rest are summarised
+const MAX_LISTED_ISSUES = 20;
+
+/**
+ * Imports a course roster from a CSV file on the device: pick the file, map its columns to the
+ * roster fields, check the preview of errors and duplicates, then import the valid rows.
+ */
+const RosterImportModal = ({
+  visible,
+  courseCode,
+  onClose,
+}: {
+  visible: boolean;
+  courseCode: string;
+  onClose: () => void;
+}) => {
+  const { rosters, importRoster } = useApiStore();
+  const isImporting = useIsLoading('importRoster');
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<RosterImportMapping | null>(null);
+  const [isPicking, setIsPicking] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setFileName(null);
+    setCsvRows([]);
+    setMapping(null);
+  }, [visible]);
+
+  const [headers = [], ...dataRows] = csvRows;
+  const isMappingComplete = mapping !== null && isRosterMappingComplete(mapping);
+
+  const preview = useMemo(
+    () =>
+      mapping && isRosterMappingComplete(mapping)
+        ? previewRosterImport(csvRows.slice(1), mapping, rosters[courseCode])
+        : null,
+    [csvRows, mapping, rosters, courseCode]
+  );
+
+  const pickFile = async () => {
+    setIsPicking(true);
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const [asset] = result.assets;
+      const rows = parseCSV(await FileSystem.readAsStringAsync(asset.uri));
+      if (rows.length < 2) {
+        Alert.alert('Empty File', 'The file needs a header row and at least one student.');
+        return;
+      }
+
+      setFileName(asset.name);
+      setCsvRows(rows);
+      setMapping(guessRosterMapping(rows[0]));
+    } catch {
+      Alert.alert('Error', 'Failed to read the file. Please check it is a CSV file.');
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || preview.rows.length === 0) return;
+
+    try {
+      const result = await importRoster(courseCode, preview.rows);
+      onClose();
+
+      const summary = `${result.added} ${result.added === 1 ? 'student' : 'students'} enrolled.`;
+      Alert.alert(
+        'Roster Imported',
+        result.unmatched.length > 0
+          ? `${summary}\n\nThese index numbers have no student account yet and were skipped:\n${result.unmatched.join(', ')}`
+          : summary
+      );
+    } catch (err) {
+      Alert.alert('Error', getErrorMessage(err, 'Failed to import roster'));
+    }
+  };
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      activeOpacity={0.7}
+      onPress={onPress}
+      className={`rounded-full border px-3 py-2 ${
+        isSelected ? 'border-purple-200 bg-purple-50' : 'border-gray-200 bg-gray-50'
+      }`}>
+      <Text className={`text-sm ${isSelected ? 'text-purple-700' : 'text-gray-600'}`}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderIssues = (title: string, issues: RosterImportIssue[], color: string) =>
+    issues.length > 0 && (
+      <View className="mb-4">
+        <Text className={`mb-2 font-semibold ${color}`}>
+          {title} ({issues.length})
+        </Text>
+        {issues.slice(0, MAX_LISTED_ISSUES).map((issue) => (
+          <Text key={issue.line} className="mb-1 text-sm text-gray-600">
+            Line {issue.line}
+            {issue.indexNumber ? ` · ${issue.indexNumber}` : ''}: {issue.message}
+          </Text>
+        ))}
+        {issues.length > MAX_LISTED_ISSUES && (
+          <Text className="text-sm text-gray-400">
+            and {issues.length - MAX_LISTED_ISSUES} more
+          </Text>
+        )}
+      </View>
+    );
+
+  const canImport = !!preview && preview.rows.length > 0 && !isImporting;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-gray-200 px-6 pb-4 pt-6">
+          <TouchableOpacity activeOpacity={0.7} onPress={onClose}>
+            <Text className="text-lg text-gray-600">Cancel</Text>
+          </TouchableOpacity>
+          <Text className="text-xl font-bold text-gray-900">Import Roster</Text>
+          <TouchableOpacity
+            activeOpacity={0.7}
+            onPress={handleImport}
+            disabled={!canImport}
+            className={`rounded-lg px-4 py-2 ${canImport ? 'bg-purple-600' : 'bg-gray-300'}`}>
+            {isImporting ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text className="font-semibold text-white">Import</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView className="flex-1 px-6 pt-4">
+          {/* File */}
+          <Text className="mb-3 text-lg font-semibold text-gray-900">CSV File</Text>
+          <TouchableOpacity
+            activeOpacity={0.7}
+            onPress={pickFile}
+            disabled={isPicking}
+            className="mb-6 flex-row items-center justify-center rounded-xl border-2 border-dashed border-gray-200 bg-gray-50 py-4">
+            {isPicking ? (
+              <ActivityIndicator size="small" color="#6b7280" />
+            ) : (
+              <>
+                <Ionicons
+                  name={fileName ? 'document-text' : 'cloud-upload-outline'}
+                  size={18}
+                  color="#6b7280"
+                />
+                <Text className="ml-2 flex-shrink font-medium text-gray-600" numberOfLines={1}>
+                  {fileName
+                    ? `${fileName} · ${dataRows.length} ${dataRows.length === 1 ? 'row' : 'rows'}`
+                    : 'Choose a CSV file'}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+
+          {/* Column Mapping */}
+          {mapping && (
+            <>
+              <Text className="mb-1 text-lg font-semibold text-gray-900">Columns</Text>
+              <Text className="mb-4 text-sm text-gray-500">
+                Pick the column that holds each field.
+              </Text>
+              {ROSTER_IMPORT_FIELDS.map(({ field, label, required }) => (
+                <View key={field} className="mb-4">
+                  <Text className="mb-2 text-sm font-medium text-gray-700">
+                    {label}
+                    {required ? '' : ' (optional)'}
+                  </Text>
+                  <View className="flex-row flex-wrap gap-2">
+                    {!required &&
+                      renderChip('None', mapping[field] === null, () =>
+                        setMapping({ ...mapping, [field]: null })
+                      )}
+                    {headers.map((header, column) =>
+                      renderChip(header || `Column ${column + 1}`, mapping[field] === column, () =>
+                        setMapping({ ...mapping, [field]: column })
+                      )
+                    )}
+                  </View>
+                </View>
+              ))}
+            </>
+          )}
+
+          {/* Preview */}
+          {mapping && !isMappingComplete && (
+            <View className="mb-8 rounded-xl bg-amber-50 p-4">
+              <Text className="text-sm text-amber-800">
+                Map the index number and name columns to preview the import.
+              </Text>
+            </View>
+          )}
+          {preview && (
+            <View className="mb-8">
+              <Text className="mb-3 text-lg font-semibold text-gray-900">Preview</Text>
+              <View className="mb-4 flex-row gap-3">
+                <View className="flex-1 items-center rounded-xl bg-green-50 p-3">
+                  <Text className="text-xl font-bold text-green-700">{preview.rows.length}</Text>
+                  <Text className="text-xs text-green-700">To import</Text>
+                </View>
+                <View className="flex-1 items-center rounded-xl bg-red-50 p-3">
+                  <Text className="text-xl font-bold text-red-700">{preview.errors.length}</Text>
+                  <Text className="text-xs text-red-700">Errors</Text>
+                </View>
+                <View className="flex-1 items-center rounded-xl bg-amber-50 p-3">
+                  <Text className="text-xl font-bold text-amber-700">
+                    {preview.duplicates.length}
+                  </Text>
+                  <Text className="text-xs text-amber-700">Duplicates</Text>
+                </View>
+              </View>
+              {renderIssues('Errors', preview.errors, 'text-red-700')}
+              {renderIssues('Duplicates', preview.duplicates, 'text-amber-700')}
+              {preview.errors.length + preview.duplicates.length > 0 && (
+                <Text className="text-sm text-gray-500">
+                  Rows with errors or duplicates are skipped.
+                </Text>
+              )}
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+export default RosterImportModal;
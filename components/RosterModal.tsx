@@ -0,0 +1,235 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import RosterImportModal from '~/components/RosterImportModal';
+import { getErrorMessage } from '~/lib/apiClient';
+import { formatDate } from '~/lib/utils';
+import { useApiStore, useIsLoading, useResourceError } from '~/store/apiStore';
+import { RosterEntry, Student } from '~/types/app';
+
+/**
+ * Lets a lecturer see and manage the students enrolled in a course: search for students (by index
+ * number or name) to add, or remove students from the roster.
+ */
+const RosterModal = ({
+  visible,
+  courseCode,
+  onClose,
+}: {
+  visible: boolean;
+  courseCode: string;
+  onClose: () => void;
+}) => {
+  const { rosters, fetchRoster, addToRoster, removeFromRoster, searchStudents } = useApiStore();
+  const isLoadingRoster = useIsLoading('roster');
+  const isSearching = useIsLoading('studentSearch');
+  const isAdding = useIsLoading('addToRoster');
+  const rosterError = useResourceError('roster');
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [results, setResults] = useState<Student[]>([]);
+  const [showImportModal, setShowImportModal] = useState(false);
+
+  const roster = rosters[courseCode] ?? [];
+  const enrolled = new Set(roster.map((student) => student.username));
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setSearchQuery('');
+    setResults([]);
+    const controller = new AbortController();
+    fetchRoster(courseCode, controller.signal).catch(() => {});
+    return () => controller.abort();
+  }, [fetchRoster, visible, courseCode]);
+
+  // Search once the lecturer stops typing, cancelling the previous search
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      searchStudents(query, controller.signal)
+        .then(setResults)
+        .catch(() => {});
+    }, 400);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [searchStudents, searchQuery]);
+
+  const handleAdd = async (student: Student) => {
+    try {
+      await addToRoster(courseCode, [student.username]);
+    } catch (err) {
+      Alert.alert('Error', getErrorMessage(err, 'Failed to add student to the roster'));
+    }
+  };
+
+  const handleRemove = (student: RosterEntry) => {
+    Alert.alert(
+      'Remove Student',
+      `Remove ${student.firstName} ${student.lastName} from ${courseCode}? Their past attendance is kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeFromRoster(courseCode, student.username);
+            } catch (err) {
+              Alert.alert(
+                'Error',
+                getErrorMessage(err, 'Failed to remove student from the roster')
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderResult = ({ item }: { item: Student }) => {
+    const isEnrolled = enrolled.has(item.username);
+    return (
+      <TouchableOpacity
+        activeOpacity={0.7}
+        disabled={isEnrolled || isAdding}
+        className="flex-row items-center border-b border-gray-100 py-3"
+        onPress={() => handleAdd(item)}>
+        <View className="mr-3 h-10 w-10 items-center justify-center rounded-full bg-blue-100">
+          <Ionicons name="person" size={18} color="#3b82f6" />
+        </View>
+        <View className="flex-1">
+          <Text className="font-semibold text-gray-900">
+            {item.firstName} {item.lastName}
+          </Text>
+          <Text className="text-sm text-gray-500">{item.IndexNumber || item.username}</Text>
+        </View>
+        {isEnrolled ? (
+          <Text className="text-xs font-medium text-gray-400">Enrolled</Text>
+        ) : (
+          <Ionicons name="add-circle-outline" size={22} color="#3b82f6" />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderRosterEntry = ({ item }: { item: RosterEntry }) => (
+    <View className="flex-row items-center border-b border-gray-100 py-3">
+      <View className="mr-3 h-10 w-10 items-center justify-center rounded-full bg-purple-100">
+        <Ionicons name="school" size={18} color="#8b5cf6" />
+      </View>
+      <View className="flex-1">
+        <Text className="font-semibold text-gray-900">
+          {item.firstName} {item.lastName}
+        </Text>
+        <Text className="text-sm text-gray-500">
+          {item.IndexNumber || item.username} · Enrolled {formatDate(item.enrolledAt, false)}
+        </Text>
+      </View>
+      <TouchableOpacity activeOpacity={0.7} onPress={() => handleRemove(item)} className="p-2">
+        <Ionicons name="remove-circle-outline" size={22} color="#ef4444" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const isSearchMode = searchQuery.trim().length >= 2;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-gray-200 px-6 pb-4 pt-6">
+          <TouchableOpacity
+            activeOpacity={0.7}
+            onPress={() => setShowImportModal(true)}
+            className="w-16">
+            <Text className="text-lg text-purple-600">Import</Text>
+          </TouchableOpacity>
+          <View className="items-center">
+            <Text className="text-xl font-bold text-gray-900">Class Roster</Text>
+            <Text className="text-sm text-gray-500">
+              {courseCode} · {roster.length} {roster.length === 1 ? 'student' : 'students'}
+            </Text>
+          </View>
+          <TouchableOpacity activeOpacity={0.7} onPress={onClose} className="w-16 items-end">
+            <Text className="text-lg font-semibold text-blue-600">Done</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View className="flex-1 px-6 pt-4">
+          {/* Student Search */}
+          <View className="mb-2 flex-row items-center rounded-xl border border-gray-200 bg-gray-50 px-4 py-3">
+            <Ionicons name="search" size={18} color="#6b7280" />
+            <TextInput
+              className="ml-3 flex-1 text-gray-900"
+              placeholder="Add a student by index number or name"
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {(isSearching || isAdding) && <ActivityIndicator size="small" color="#3b82f6" />}
+          </View>
+
+          {isSearchMode ? (
+            <FlatList
+              data={results}
+              keyExtractor={(item) => item.username}
+              renderItem={renderResult}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                !isSearching ? (
+                  <Text className="py-6 text-center text-gray-500">No students found</Text>
+                ) : null
+              }
+            />
+          ) : (
+            <FlatList
+              data={roster}
+              keyExtractor={(item) => item.username}
+              renderItem={renderRosterEntry}
+              ListEmptyComponent={
+                isLoadingRoster ? (
+                  <ActivityIndicator className="py-6" size="small" color="#3b82f6" />
+                ) : (
+                  <Text className="py-6 text-center text-gray-500">
+                    {rosterError ?? 'No students are enrolled yet'}
+                  </Text>
+                )
+              }
+            />
+          )}
+        </View>
+      </View>
+
+      <RosterImportModal
+        visible={showImportModal}
+        courseCode={courseCode}
+        onClose={() => setShowImportModal(false)}
+      />
+    </Modal>
+  );
+};
+export default RosterModal;
@@ -0,0 +1,99 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { getErrorMessage } from '~/lib/apiClient';
+import { encodeQrPayload } from '~/lib/qrCode';
+import { useApiStore } from '~/store/apiStore';
+import { QrToken } from '~/types/app';
+
+/**
+ * Rotating check-in QR code for a session, shown on the lecturer's device.
+ * A new token is fetched as soon as the current one expires, so a screenshot stops working
+ * within one rotation.
+ */
+const SessionQrCode = ({ sessionId }: { sessionId: number }) => {
+  const fetchQrToken = useApiStore((state) => state.fetchQrToken);
+  const [qrToken, setQrToken] = useState<QrToken | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [attempt, setAttempt] = useState(0);
+
+  // Fetch a token, then fetch the next one when it expires
+  useEffect(() => {
+    let isActive = true;
+    let rotateTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const rotate = async () => {
+      try {
+        const next = await fetchQrToken(sessionId);
+        if (!isActive) return;
+
+        setQrToken(next);
+        setError(null);
+        rotateTimer = setTimeout(rotate, Math.max(1000, Date.parse(next.expiresAt) - Date.now()));
+      } catch (err) {
+        if (isActive) setError(getErrorMessage(err, 'Failed to load QR code'));
+      }
+    };
+
+    rotate();
+
+    return () => {
+      isActive = false;
+      clearTimeout(rotateTimer);
+    };
+  }, [fetchQrToken, sessionId, attempt]);
+
+  // Countdown to the next rotation
+  useEffect(() => {
+    if (!qrToken) return;
+
+    const tick = () =>
+      setSecondsLeft(Math.max(0, Math.ceil((Date.parse(qrToken.expiresAt) - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+
+    return () => clearInterval(interval);
+  }, [qrToken]);
+
+  if (error) {
+    return (
+      <View className="items-center py-6">
+        <Ionicons name="alert-circle-outline" size={40} color="#ef4444" />
+        <Text className="mt-2 text-center text-sm text-red-600">{error}</Text>
+        <TouchableOpacity
+          activeOpacity={0.7}
+          className="mt-4 rounded-xl bg-blue-500 px-4 py-2"
+          onPress={() => setAttempt((value) => value + 1)}>
+          <Text className="font-semibold text-white">Try Again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (!qrToken) {
+    return (
+      <View className="items-center py-12">
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text className="mt-2 text-sm text-gray-500">Generating QR code...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View className="items-center py-4">
+      <View className="rounded-2xl bg-white p-4 shadow-sm">
+        <QRCode value={encodeQrPayload(qrToken)} size={220} />
+      </View>
+      <View className="mt-4 flex-row items-center">
+        <Ionicons name="refresh" size={14} color="#6b7280" />
+        <Text className="ml-1 text-sm text-gray-500">New code in {secondsLeft}s</Text>
+      </View>
+      <Text className="mt-1 px-6 text-center text-xs text-gray-400">
+        Students scan this code from the Attendance tab to check in.
+      </Text>
+    </View>
+  );
+};
+export default SessionQrCode;
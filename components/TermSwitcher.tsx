@@ -0,0 +1,104 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { formatTermDates, getCurrentTerm } from '~/lib/terms';
+import { useApiStore, useSelectedTerm } from '~/store/apiStore';
+import { TermSelection } from '~/types/app';
+
+/**
+ * A pill for the blue screen headers showing the selected academic term. Tapping it lists the
+ * terms to switch to, plus "All Terms". Hidden until the server has terms.
+ */
+const TermSwitcher = () => {
+  const { terms, termSelection, fetchTerms, selectTerm } = useApiStore();
+  const selectedTerm = useSelectedTerm();
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchTerms({ signal: controller.signal });
+    return () => controller.abort();
+  }, [fetchTerms]);
+
+  if (terms.length === 0) return null;
+
+  const currentTerm = getCurrentTerm(terms);
+
+  const handleSelect = (selection: TermSelection) => {
+    selectTerm(selection);
+    setIsOpen(false);
+  };
+
+  const renderOption = (
+    selection: TermSelection,
+    label: string,
+    description: string | null,
+    isSelected: boolean
+  ) => (
+    <TouchableOpacity
+      key={String(selection)}
+      activeOpacity={0.7}
+      onPress={() => handleSelect(selection)}
+      className={`mb-2 flex-row items-center rounded-xl p-4 ${isSelected ? 'bg-blue-50' : 'bg-gray-50'}`}>
+      <View className="flex-1">
+        <Text className={`font-semibold ${isSelected ? 'text-blue-700' : 'text-gray-900'}`}>
+          {label}
+        </Text>
+        {description && <Text className="mt-0.5 text-xs text-gray-500">{description}</Text>}
+      </View>
+      {isSelected && <Ionicons name="checkmark-circle" size={20} color="#2563eb" />}
+    </TouchableOpacity>
+  );
+
+  // Newest term first
+  const sortedTerms = [...terms].sort(
+    (a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
+  );
+
+  return (
+    <>
+      <TouchableOpacity
+        activeOpacity={0.7}
+        onPress={() => setIsOpen(true)}
+        className="flex-row items-center self-start rounded-full bg-white/20 px-3 py-1">
+        <Ionicons name="calendar-outline" size={12} color="white" />
+        <Text className="ml-1.5 text-xs font-medium text-white">
+          {selectedTerm?.name ?? 'All Terms'}
+        </Text>
+        <Ionicons name="chevron-down" size={12} color="white" style={{ marginLeft: 4 }} />
+      </TouchableOpacity>
+
+      <Modal
+        visible={isOpen}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setIsOpen(false)}>
+        <TouchableOpacity
+          activeOpacity={1}
+          onPress={() => setIsOpen(false)}
+          className="flex-1 justify-end bg-black/40">
+          <TouchableOpacity activeOpacity={1} className="max-h-[70%] rounded-t-3xl bg-white p-6">
+            <Text className="mb-1 text-xl font-bold text-gray-900">Academic Term</Text>
+            <Text className="mb-4 text-sm text-gray-500">
+              Courses, sessions and statistics are shown for this term.
+            </Text>
+            <ScrollView>
+              {currentTerm &&
+                renderOption(
+                  'CURRENT',
+                  `Current Term (${currentTerm.name})`,
+                  'Follows the calendar as terms change',
+                  termSelection === 'CURRENT'
+                )}
+              {sortedTerms.map((term) =>
+                renderOption(term.id, term.name, formatTermDates(term), termSelection === term.id)
+              )}
+              {renderOption('ALL', 'All Terms', null, termSelection === 'ALL')}
+            </ScrollView>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+export default TermSwitcher;
@@ -0,0 +1,189 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Location from 'expo-location';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import DateTimeField from '~/components/DateTimeField';
+import { getErrorMessage } from '~/lib/apiClient';
+import { DEFAULT_GEOFENCE_RADIUS, formatDistance, GEOFENCE_RADIUS_OPTIONS } from '~/lib/geofence';
+import { DAY_NAMES, SLOT_DURATION_OPTIONS, toSlotTime } from '~/lib/timetable';
+import { useApiStore, useIsLoading } from '~/store/apiStore';
+
+const getDefaultStartTime = () => {
+  const date = new Date();
+  date.setHours(9, 0, 0, 0);
+  return date;
+};
+
+/**
+ * Form for adding a weekly timetable slot to a course. The slot's sessions are held at the
+ * lecturer's current location.
+ */
+const TimetableSlotModal = ({
+  visible,
+  courseCode,
+  onClose,
+}: {
+  visible: boolean;
+  courseCode: string;
+  onClose: () => void;
+}) => {
+  const addTimetableSlot = useApiStore((state) => state.addTimetableSlot);
+  const isSaving = useIsLoading('addTimetableSlot');
+
+  const [dayOfWeek, setDayOfWeek] = useState(new Date().getDay());
+  const [startTime, setStartTime] = useState(getDefaultStartTime);
+  const [durationMinutes, setDurationMinutes] = useState(SLOT_DURATION_OPTIONS[0]);
+  const [radius, setRadius] = useState(DEFAULT_GEOFENCE_RADIUS);
+  const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
+
+  const requestLocation = async () => {
+    try {
+      setLocationError(null);
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        setLocationError('Location permission denied');
+        return;
+      }
+
+      const { coords } = await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.Highest,
+      });
+      setLocation({ latitude: coords.latitude, longitude: coords.longitude });
+    } catch {
+      setLocationError('Failed to get location');
+    }
+  };
+
+  useEffect(() => {
+    if (visible) requestLocation();
+  }, [visible]);
+
+  const handleSave = async () => {
+    if (!location) {
+      Alert.alert('Error', 'Location is required to add a timetable slot');
+      return;
+    }
+
+    try {
+      await addTimetableSlot({
+        courseCode,
+        dayOfWeek,
+        startTime: toSlotTime(startTime),
+        durationMinutes,
+        location,
+        radius,
+      });
+      onClose();
+    } catch (err) {
+      Alert.alert('Error', getErrorMessage(err, 'Failed to add timetable slot'));
+    }
+  };
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      activeOpacity={0.7}
+      onPress={onPress}
+      className={`rounded-full border px-3 py-2 ${
+        isSelected ? 'border-indigo-200 bg-indigo-50' : 'border-gray-200 bg-gray-50'
+      }`}>
+      <Text className={`text-sm ${isSelected ? 'text-indigo-700' : 'text-gray-600'}`}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-gray-200 px-6 pb-4 pt-6">
+          <TouchableOpacity activeOpacity={0.7} onPress={onClose}>
+            <Text className="text-lg text-gray-600">Cancel</Text>
+          </TouchableOpacity>
+          <Text className="text-xl font-bold text-gray-900">Add Weekly Slot</Text>
+          <TouchableOpacity
+            activeOpacity={0.7}
+            onPress={handleSave}
+            disabled={!location || isSaving}
+            className={`rounded-lg px-4 py-2 ${!location || isSaving ? 'bg-gray-300' : 'bg-indigo-600'}`}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text className="font-semibold text-white">Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView className="flex-1 px-6 pt-4">
+          <Text className="mb-3 text-lg font-semibold text-gray-900">Day</Text>
+          <View className="mb-6 flex-row flex-wrap gap-2">
+            {DAY_NAMES.map((day, index) =>
+              renderChip(day.slice(0, 3), dayOfWeek === index, () => setDayOfWeek(index))
+            )}
+          </View>
+
+          <Text className="mb-3 text-lg font-semibold text-gray-900">Start Time</Text>
+          <View className="mb-6">
+            <DateTimeField value={startTime} onChange={setStartTime} mode="time" />
+          </View>
+
+          <Text className="mb-3 text-lg font-semibold text-gray-900">Duration</Text>
+          <View className="mb-6 flex-row flex-wrap gap-2">
+            {SLOT_DURATION_OPTIONS.map((minutes) =>
+              renderChip(`${minutes} min`, durationMinutes === minutes, () =>
+                setDurationMinutes(minutes)
+              )
+            )}
+          </View>
+
+          <Text className="mb-3 text-lg font-semibold text-gray-900">Check-in Radius</Text>
+          <View className="mb-6 flex-row flex-wrap gap-2">
+            {GEOFENCE_RADIUS_OPTIONS.map((option) =>
+              renderChip(formatDistance(option), radius === option, () => setRadius(option))
+            )}
+          </View>
+
+          <Text className="mb-3 text-lg font-semibold text-gray-900">Location</Text>
+          <View className="mb-8 flex-row items-center rounded-xl bg-gray-50 p-4">
+            <View className={`mr-3 rounded-full p-2 ${location ? 'bg-green-100' : 'bg-red-100'}`}>
+              <Ionicons
+                name="location-outline"
+                size={16}
+                color={location ? '#10b981' : '#ef4444'}
+              />
+            </View>
+            <View className="flex-1">
+              <Text className="text-sm font-medium text-gray-900">
+                {location ? 'Current location' : 'Location Required'}
+              </Text>
+              <Text className="text-xs text-gray-500">
+                {location
+                  ? `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`
+                  : locationError || 'Getting location...'}
+              </Text>
+            </View>
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={requestLocation}
+              className="rounded-full bg-blue-100 p-2">
+              <Ionicons name="refresh" size={16} color="#3b82f6" />
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+export default TimetableSlotModal;
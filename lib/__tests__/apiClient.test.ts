@@ -0,0 +1,184 @@
+import { api, ApiError, getErrorMessage } from '~/lib/apiClient';
+import { logoutAndRedirect } from '~/lib/utils';
+import { useAuthStore } from '~/store/authStore';
+import { useConnectivityStore } from '~/store/connectivityStore';
+
+jest.mock('expo-constants', () => ({
+  expoConfig: { extra: { API_BASE_URL: 'https://api.test' } },
+}));
+jest.mock('~/lib/utils', () => ({ logoutAndRedirect: jest.fn() }));
+jest.mock('~/store/authStore', () => ({ useAuthStore: { getState: jest.fn() } }));
+jest.mock('~/store/connectivityStore', () => ({ useConnectivityStore: { getState: jest.fn() } }));
+
+const respond = (status: number, body = '') => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: { get: () => 'application/json' },
+  text: async () => body,
+});
+
+const fetchMock = jest.fn();
+const refreshSession = jest.fn();
+const auth = { token: 'token-1' as string | null, refreshSession };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = fetchMock;
+  auth.token = 'token-1';
+  (useAuthStore.getState as jest.Mock).mockReturnValue(auth);
+  (useConnectivityStore.getState as jest.Mock).mockReturnValue({
+    isOnline: true,
+    waitForConnection: jest.fn(),
+  });
+  // No backoff delay between retries
+  jest.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+describe('retries', () => {
+  it('retries a GET after a server error', async () => {
+    fetchMock.mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(200, '{"id":1}'));
+
+    await expect(api.get('/api/v1/courses')).resolves.toEqual({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    fetchMock.mockResolvedValue(respond(500));
+
+    await expect(api.get('/api/v1/courses', { retry: { retries: 2 } })).rejects.toMatchObject({
+      status: 500,
+      retryable: true,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry a client error', async () => {
+    fetchMock.mockResolvedValue(respond(404, '{"message":"Course not found"}'));
+
+    await expect(api.get('/api/v1/courses/X')).rejects.toMatchObject({
+      status: 404,
+      serverMessage: 'Course not found',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('only retries a mutation that carries an idempotency key', async () => {
+    fetchMock.mockResolvedValue(respond(503));
+    await expect(api.post('/api/v1/courses', {})).rejects.toBeInstanceOf(ApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(201));
+    await api.post('/api/v1/courses', {}, { idempotencyKey: 'key-1' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].headers['Idempotency-Key']).toBe('key-1');
+  });
+
+  it('reports a network failure as a retryable error with status 0', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+
+    await expect(api.get('/api/v1/courses', { retry: false })).rejects.toMatchObject({
+      status: 0,
+      retryable: true,
+      isTimeout: false,
+    });
+  });
+});
+
+describe('deduplication', () => {
+  it('shares one request between identical GETs in flight', async () => {
+    fetchMock.mockResolvedValue(respond(200, '[1,2]'));
+
+    const [first, second] = await Promise.all([
+      api.get('/api/v1/courses'),
+      api.get('/api/v1/courses'),
+    ]);
+
+    expect(first).toEqual([1, 2]);
+    expect(second).toBe(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends separate requests when deduplication is turned off', async () => {
+    fetchMock.mockResolvedValue(respond(200, '[]'));
+
+    await Promise.all([
+      api.get('/api/v1/courses', { dedupe: false }),
+      api.get('/api/v1/courses', { dedupe: false }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the shared request going when only one caller cancels', async () => {
+    fetchMock.mockResolvedValue(respond(200, '"ok"'));
+    const controller = new AbortController();
+
+    const cancelled = api.get('/api/v1/courses', { signal: controller.signal });
+    const kept = api.get('/api/v1/courses');
+    controller.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ isCancelled: true });
+    await expect(kept).resolves.toBe('ok');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('session refresh', () => {
+  it('refreshes the session on 401 and replays the request with the new token', async () => {
+    refreshSession.mockImplementation(async () => {
+      auth.token = 'token-2';
+      return true;
+    });
+    fetchMock.mockResolvedValueOnce(respond(401)).mockResolvedValueOnce(respond(200, '{}'));
+
+    await api.get('/api/v1/user/profile');
+
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe('Bearer token-2');
+    expect(logoutAndRedirect).not.toHaveBeenCalled();
+  });
+
+  it('signs the user out when the refresh fails', async () => {
+    refreshSession.mockResolvedValue(false);
+    fetchMock.mockResolvedValue(respond(401));
+
+    await expect(api.get('/api/v1/user/profile')).rejects.toMatchObject({ status: 401 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(logoutAndRedirect).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the session when the refresh fails for lack of a connection', async () => {
+    refreshSession.mockRejectedValue(new ApiError({ status: 0, endpoint: '/auth/refresh' }));
+    fetchMock.mockResolvedValue(respond(401));
+
+    await expect(api.get('/api/v1/user/profile', { retry: false })).rejects.toMatchObject({
+      status: 0,
+      retryable: true,
+    });
+    expect(logoutAndRedirect).not.toHaveBeenCalled();
+  });
+
+  it('does not refresh for requests sent without a token', async () => {
+    auth.token = null;
+    fetchMock.mockResolvedValue(respond(401));
+
+    await expect(api.post('/api/v1/auth/signin', {})).rejects.toMatchObject({ status: 401 });
+    expect(refreshSession).not.toHaveBeenCalled();
+    expect(logoutAndRedirect).not.toHaveBeenCalled();
+  });
+});
+
+describe('getErrorMessage', () => {
+  it('prefers the server message, then the fallback', () => {
+    const withMessage = new ApiError({ status: 400, endpoint: '/x', serverMessage: 'Bad input' });
+    const withoutMessage = new ApiError({ status: 500, endpoint: '/x' });
+
+    expect(getErrorMessage(withMessage, 'Fallback')).toBe('Bad input');
+    expect(getErrorMessage(withoutMessage, 'Fallback')).toBe('Fallback');
+    expect(getErrorMessage(new ApiError({ status: 0, endpoint: '/x', isTimeout: true }), 'F')).toBe(
+      'Request timed out'
+    );
+  });
+});
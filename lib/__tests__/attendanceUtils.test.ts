@@ -0,0 +1,204 @@
+import {
+  findAbsenceJustification,
+  getMinutesLate,
+  getMinutesPresent,
+  getRosterAttendance,
+  getStudentAttendanceStats,
+  getStudentAttendanceStatus,
+  meetsMinimumPresence,
+} from '~/lib/attendanceUtils';
+import {
+  AbsenceJustification,
+  AbsenceJustificationStatus,
+  Attendance,
+  AttendanceEntry,
+  RosterEntry,
+  Session,
+  Student,
+} from '~/types/app';
+
+const student = (username: string): Student => ({
+  username,
+  firstName: username,
+  lastName: 'Mensah',
+  program: 'Computer Science',
+  IndexNumber: `IDX-${username}`,
+  email: `${username}@university.edu`,
+  role: 'STUDENT',
+});
+
+const ama = student('ama');
+
+// A session starting at 09:00 with a 10 minute late threshold
+const attendance = (
+  studentList: AttendanceEntry[],
+  overrides: Partial<Attendance> = {}
+): Attendance => ({
+  courseName: 'Algorithms',
+  date: '2026-10-19T09:00:00.000Z',
+  time: '09:00',
+  lecturer: 'Kofi Boateng',
+  lateThresholdMinutes: 10,
+  studentList,
+  overrides: [],
+  justifications: [],
+  ...overrides,
+});
+
+const checkedIn = (entry: Student, time: string): AttendanceEntry => ({
+  ...entry,
+  checkedInAt: `2026-10-19T${time}:00.000Z`,
+});
+
+describe('late arrivals', () => {
+  it('counts whole minutes after the start, and none for an early check-in', () => {
+    const record = attendance([]);
+
+    expect(getMinutesLate(record, checkedIn(ama, '09:12'))).toBe(12);
+    expect(getMinutesLate(record, checkedIn(ama, '08:55'))).toBe(0);
+    expect(getMinutesLate(record, ama)).toBeNull();
+  });
+
+  it('is late only past the threshold', () => {
+    expect(getStudentAttendanceStatus(attendance([checkedIn(ama, '09:10')]), ama)).toBe('PRESENT');
+    expect(getStudentAttendanceStatus(attendance([checkedIn(ama, '09:11')]), ama)).toBe('LATE');
+  });
+
+  it('treats a student added without a check-in time as on time', () => {
+    expect(getStudentAttendanceStatus(attendance([ama]), ama)).toBe('PRESENT');
+  });
+
+  it('still counts late check-ins as attended', () => {
+    const stats = getStudentAttendanceStats(
+      [
+        attendance([checkedIn(ama, '09:30')]),
+        attendance([checkedIn(ama, '09:00')]),
+        attendance([]),
+      ],
+      ama
+    );
+
+    expect(stats).toMatchObject({
+      totalSessions: 3,
+      attendedSessions: 2,
+      lateSessions: 1,
+      missedSessions: 1,
+      attendanceRate: 66.67,
+    });
+  });
+});
+
+describe('time present', () => {
+  // A one hour session that requires check-out, in a course asking for 75% presence
+  const session = {
+    startTime: '2026-10-19T09:00:00.000Z',
+    endTime: '2026-10-19T10:00:00.000Z',
+    requiresCheckOut: true,
+    course: { minimumPresencePercent: 75 },
+  } as Session;
+
+  const stayed = (from: string, to: string): AttendanceEntry => ({
+    ...checkedIn(ama, from),
+    checkedOutAt: `2026-10-19T${to}:00.000Z`,
+  });
+
+  it('counts whole minutes from check-in to check-out', () => {
+    expect(getMinutesPresent(stayed('09:05', '09:50'))).toBe(45);
+    expect(getMinutesPresent(checkedIn(ama, '09:05'))).toBeNull();
+  });
+
+  it('checks the time present against the minimum', () => {
+    expect(meetsMinimumPresence(session, stayed('09:00', '09:45'))).toBe(true);
+    expect(meetsMinimumPresence(session, stayed('09:00', '09:44'))).toBe(false);
+  });
+
+  it('fails a student who never checked out', () => {
+    expect(meetsMinimumPresence(session, checkedIn(ama, '09:00'))).toBe(false);
+  });
+
+  it('passes everyone when the session has no check-out or the course no minimum', () => {
+    const entry = checkedIn(ama, '09:00');
+
+    expect(meetsMinimumPresence({ ...session, requiresCheckOut: false }, entry)).toBe(true);
+    expect(meetsMinimumPresence({ ...session, course: {} } as Session, entry)).toBe(true);
+  });
+});
+
+describe('excused absences', () => {
+  const justification = (id: number, status: AbsenceJustificationStatus): AbsenceJustification => ({
+    id,
+    student: ama,
+    reason: 'Hospital appointment',
+    status,
+    createdAt: `2026-10-19T1${id}:00:00.000Z`,
+  });
+
+  const absentWith = (...justifications: AbsenceJustification[]) =>
+    attendance([], { justifications });
+
+  it('excuses an absence only once its justification is approved', () => {
+    expect(getStudentAttendanceStatus(absentWith(justification(1, 'APPROVED')), ama)).toBe(
+      'EXCUSED'
+    );
+    expect(getStudentAttendanceStatus(absentWith(justification(1, 'PENDING')), ama)).toBe('ABSENT');
+    expect(getStudentAttendanceStatus(absentWith(justification(1, 'REJECTED')), ama)).toBe(
+      'ABSENT'
+    );
+  });
+
+  it('goes by the latest justification', () => {
+    const record = absentWith(justification(1, 'REJECTED'), justification(2, 'APPROVED'));
+
+    expect(findAbsenceJustification(record, ama)?.id).toBe(2);
+    expect(getStudentAttendanceStatus(record, ama)).toBe('EXCUSED');
+  });
+
+  it('ignores a justification from a student who attended', () => {
+    const record = attendance([ama], { justifications: [justification(1, 'APPROVED')] });
+
+    expect(getStudentAttendanceStatus(record, ama)).toBe('PRESENT');
+  });
+
+  it('leaves excused sessions out of the attendance rate', () => {
+    const stats = getStudentAttendanceStats(
+      [attendance([ama]), attendance([]), absentWith(justification(1, 'APPROVED'))],
+      ama
+    );
+
+    expect(stats).toMatchObject({
+      totalSessions: 3,
+      attendedSessions: 1,
+      excusedSessions: 1,
+      missedSessions: 1,
+      attendanceRate: 50,
+    });
+  });
+});
+
+describe('getRosterAttendance', () => {
+  const enrolled = (entry: Student, enrolledAt: string): RosterEntry => ({ ...entry, enrolledAt });
+  const kwame = student('kwame');
+  const esi = student('esi');
+
+  it('splits the roster into present and absent students', () => {
+    const roster = [enrolled(ama, '2026-09-01'), enrolled(kwame, '2026-09-01')];
+    const result = getRosterAttendance(attendance([checkedIn(ama, '09:20')]), roster);
+
+    expect(result.present.map((entry) => entry.username)).toEqual(['ama']);
+    expect(result.absent.map((entry) => entry.username)).toEqual(['kwame']);
+  });
+
+  it('does not expect students who enrolled after the session', () => {
+    const roster = [enrolled(ama, '2026-09-01'), enrolled(esi, '2026-10-20')];
+    const result = getRosterAttendance(attendance([]), roster);
+
+    expect(result.expected.map((entry) => entry.username)).toEqual(['ama']);
+    expect(result.absent.map((entry) => entry.username)).toEqual(['ama']);
+  });
+
+  it('still lists a late enrollee who attended anyway', () => {
+    const result = getRosterAttendance(attendance([esi]), [enrolled(esi, '2026-10-20')]);
+
+    expect(result.present.map((entry) => entry.username)).toEqual(['esi']);
+  });
+});
@@ -0,0 +1,52 @@
+import { getCourseRole, hasCoursePermission, isStaffSession } from '~/lib/courseStaff';
+import { Course, Session } from '~/types/app';
+import { User } from '~/types/auth';
+
+const lecturer = (id: number, email: string) => ({ id, email }) as User;
+
+const owner = lecturer(1, 'owner@university.edu');
+const coLecturer = lecturer(2, 'co@university.edu');
+const assistant = lecturer(3, 'ta@university.edu');
+const outsider = lecturer(4, 'other@university.edu');
+
+const course = {
+  courseCode: 'CS101',
+  lecturerId: owner.id,
+  staff: [
+    { id: coLecturer.id, email: coLecturer.email, role: 'CO_LECTURER' },
+    // Listed under a different id, so only the email matches
+    { id: 99, email: assistant.email, role: 'TA' },
+  ],
+} as Course;
+
+describe('getCourseRole', () => {
+  it('finds the owner and staff members', () => {
+    expect(getCourseRole(course, owner)).toBe('OWNER');
+    expect(getCourseRole(course, coLecturer)).toBe('CO_LECTURER');
+    expect(getCourseRole(course, assistant)).toBe('TA');
+    expect(getCourseRole(course, outsider)).toBeNull();
+    expect(getCourseRole(course, null)).toBeNull();
+  });
+});
+
+describe('hasCoursePermission', () => {
+  it('lets each role do only what it is allowed to', () => {
+    expect(hasCoursePermission(course, owner, 'manageCourse')).toBe(true);
+    expect(hasCoursePermission(course, coLecturer, 'editAttendance')).toBe(true);
+    expect(hasCoursePermission(course, coLecturer, 'manageCourse')).toBe(false);
+    expect(hasCoursePermission(course, assistant, 'runSessions')).toBe(true);
+    expect(hasCoursePermission(course, assistant, 'editAttendance')).toBe(false);
+    expect(hasCoursePermission(course, outsider, 'runSessions')).toBe(false);
+  });
+});
+
+describe('isStaffSession', () => {
+  const session = (lecturerEmail: string, courseCode = 'CS101') =>
+    ({ lecturer: { email: lecturerEmail }, course: { courseCode } }) as Session;
+
+  it('lists sessions the lecturer ran or whose course they teach', () => {
+    expect(isStaffSession(session(owner.email), [course], assistant)).toBe(true);
+    expect(isStaffSession(session(outsider.email, 'CS999'), [course], outsider)).toBe(true);
+    expect(isStaffSession(session(owner.email), [course], outsider)).toBe(false);
+  });
+});
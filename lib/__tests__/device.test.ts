@@ -0,0 +1,59 @@
+import { getSignedPayload, hmacSha256 } from '~/lib/device';
+import { AttendanceRequest } from '~/types/app';
+
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digest: async (_algorithm: string, data: Uint8Array) =>
+    jest.requireActual('crypto').createHash('sha256').update(data).digest(),
+  getRandomBytes: jest.fn(),
+}));
+jest.mock('expo-secure-store', () => ({}));
+jest.mock('~/lib/apiClient', () => ({ api: {} }));
+
+describe('hmacSha256', () => {
+  // Test cases 2 and 6 from RFC 4231
+  it('matches the RFC 4231 test vectors', async () => {
+    await expect(hmacSha256('4a656665', 'what do ya want for nothing?')).resolves.toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+    await expect(
+      hmacSha256('aa'.repeat(131), 'Test Using Larger Than Block-Size Key - Hash Key First')
+    ).resolves.toBe('60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54');
+  });
+});
+
+describe('getSignedPayload', () => {
+  const request: AttendanceRequest = {
+    sessionId: 42,
+    location: { latitude: 5.65, longitude: -0.18 },
+  };
+
+  it('includes missing optional fields as empty values', () => {
+    expect(getSignedPayload(request, 'device-1', '2026-10-19T09:00:00.000Z')).toBe(
+      '42|device-1|2026-10-19T09:00:00.000Z|5.65|-0.18|||||||'
+    );
+  });
+
+  it('covers the QR token and integrity report', () => {
+    const payload = getSignedPayload(
+      {
+        ...request,
+        accuracy: 12,
+        qrToken: 'token-1',
+        integrity: {
+          sampleCount: 3,
+          acceptedCount: 2,
+          accuracy: 10,
+          maxSpeed: 1.5,
+          flags: ['LOW_ACCURACY', 'IMPLAUSIBLE_JUMP'],
+        },
+      },
+      'device-1',
+      '2026-10-19T09:00:00.000Z'
+    );
+
+    expect(payload).toBe(
+      '42|device-1|2026-10-19T09:00:00.000Z|5.65|-0.18|12|token-1|3|2|10|1.5|IMPLAUSIBLE_JUMP,LOW_ACCURACY'
+    );
+  });
+});
@@ -0,0 +1,36 @@
+import { formatDistance, getDistance, getGeofenceStatus } from '~/lib/geofence';
+
+describe('getDistance', () => {
+  it('is zero for the same point', () => {
+    const point = { latitude: 5.65, longitude: -0.18 };
+    expect(getDistance(point, point)).toBe(0);
+  });
+
+  it('measures one degree of latitude as about 111 km', () => {
+    const distance = getDistance({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 });
+    expect(distance).toBeCloseTo(111195, -1);
+  });
+});
+
+describe('getGeofenceStatus', () => {
+  it('is inside only when the whole accuracy circle fits in the radius', () => {
+    expect(getGeofenceStatus(30, 50, 10)).toBe('inside');
+    expect(getGeofenceStatus(50, 50)).toBe('inside');
+  });
+
+  it('is outside only when the accuracy circle lies entirely beyond the radius', () => {
+    expect(getGeofenceStatus(80, 50, 20)).toBe('outside');
+  });
+
+  it('is uncertain when the accuracy circle crosses the edge', () => {
+    expect(getGeofenceStatus(45, 50, 10)).toBe('uncertain');
+    expect(getGeofenceStatus(60, 50, 10)).toBe('uncertain');
+  });
+});
+
+describe('formatDistance', () => {
+  it('shows meters below a kilometer and kilometers above', () => {
+    expect(formatDistance(45.4)).toBe('45 m');
+    expect(formatDistance(1234)).toBe('1.2 km');
+  });
+});
@@ -0,0 +1,66 @@
+import { LocationObject } from 'expo-location';
+import { isReliableLocation, summarizeSamples } from '~/lib/locationIntegrity';
+
+jest.mock('expo-location', () => ({}));
+
+const sample = (
+  accuracy: number | null,
+  { latitude = 5.65, timestamp = 0, mocked = false } = {}
+): LocationObject => ({
+  coords: {
+    latitude,
+    longitude: -0.18,
+    accuracy,
+    altitude: null,
+    altitudeAccuracy: null,
+    heading: null,
+    speed: null,
+  },
+  timestamp,
+  mocked,
+});
+
+describe('summarizeSamples', () => {
+  it('uses the most accurate fix and reports a clean reading', () => {
+    const { accuracy, report } = summarizeSamples([
+      sample(30),
+      sample(12, { timestamp: 1000 }),
+      sample(20, { timestamp: 2000 }),
+    ]);
+
+    expect(accuracy).toBe(12);
+    expect(report).toMatchObject({ sampleCount: 3, acceptedCount: 3, flags: [] });
+    expect(isReliableLocation(report)).toBe(true);
+  });
+
+  it('flags a reading with no fix within the accepted accuracy', () => {
+    const { report } = summarizeSamples([sample(80), sample(null, { timestamp: 1000 })]);
+
+    expect(report).toMatchObject({ acceptedCount: 0, accuracy: 80, flags: ['LOW_ACCURACY'] });
+    expect(isReliableLocation(report)).toBe(false);
+  });
+
+  it('drops inaccurate fixes when a good one is available', () => {
+    const { accuracy, report } = summarizeSamples([sample(120), sample(25, { timestamp: 1000 })]);
+
+    expect(accuracy).toBe(25);
+    expect(report).toMatchObject({ acceptedCount: 1, flags: [] });
+  });
+
+  it('flags fixes further apart than anyone could travel', () => {
+    // About 1.1 km in one second
+    const { report } = summarizeSamples([
+      sample(10),
+      sample(10, { latitude: 5.66, timestamp: 1000 }),
+    ]);
+
+    expect(report.flags).toEqual(['IMPLAUSIBLE_JUMP']);
+    expect(isReliableLocation(report)).toBe(false);
+  });
+
+  it('flags a mocked fix', () => {
+    const { report } = summarizeSamples([sample(10, { mocked: true })]);
+
+    expect(report.flags).toEqual(['MOCKED']);
+  });
+});
@@ -0,0 +1,18 @@
+import { encodeQrPayload, parseQrPayload } from '~/lib/qrCode';
+
+const qrToken = { sessionId: 42, token: 'token-1', expiresAt: '2026-10-19T09:00:30.000Z' };
+
+describe('parseQrPayload', () => {
+  it('reads back an encoded check-in code', () => {
+    expect(parseQrPayload(encodeQrPayload(qrToken))).toEqual({ sessionId: 42, token: 'token-1' });
+  });
+
+  it.each([
+    ['another QR code', 'https://example.com'],
+    ['a payload that is not JSON', 'unitrack:checkin:{oops'],
+    ['a payload without a token', 'unitrack:checkin:{"s":42}'],
+    ['a session id that is not a number', 'unitrack:checkin:{"s":"42","t":"token-1"}'],
+  ])('rejects %s', (_, data) => {
+    expect(parseQrPayload(data)).toBeNull();
+  });
+});
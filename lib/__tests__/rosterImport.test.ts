@@ -0,0 +1,80 @@
+import {
+  guessRosterMapping,
+  isRosterMappingComplete,
+  previewRosterImport,
+} from '~/lib/rosterImport';
+import { parseCSV } from '~/lib/utils';
+import { RosterEntry } from '~/types/app';
+
+jest.mock('expo-router', () => ({ router: {} }));
+jest.mock('~/store/authStore', () => ({ useAuthStore: { getState: jest.fn() } }));
+
+describe('parseCSV', () => {
+  it('reads quoted fields with commas, escaped quotes and line breaks', () => {
+    expect(parseCSV('name,note\n"Mensah, Ama","said ""hi""\nthen left"')).toEqual([
+      ['name', 'note'],
+      ['Mensah, Ama', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('handles a byte order mark, CRLF line endings and blank lines', () => {
+    expect(parseCSV('\uFEFFa,b\r\n\r\n1,2\r\n,\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('guessRosterMapping', () => {
+  it('recognises common header names', () => {
+    const mapping = guessRosterMapping(['Student ID', 'Full Name', 'E-mail', 'Programme']);
+
+    expect(mapping).toEqual({ indexNumber: 0, name: 1, email: 2, program: 3 });
+    expect(isRosterMappingComplete(mapping)).toBe(true);
+  });
+
+  it('leaves unknown columns unmapped', () => {
+    const mapping = guessRosterMapping(['Index No', 'Remarks']);
+
+    expect(mapping).toEqual({ indexNumber: 0, name: null, email: null, program: null });
+    expect(isRosterMappingComplete(mapping)).toBe(false);
+  });
+});
+
+describe('previewRosterImport', () => {
+  const mapping = { indexNumber: 0, name: 1, email: 2, program: null };
+  const onRoster = { IndexNumber: 'PS/CSC/21/0003' } as RosterEntry;
+
+  it('sorts rows into students to import, errors and duplicates', () => {
+    const preview = previewRosterImport(
+      [
+        ['ps/csc/21/0001', 'Ama Mensah', 'ama@university.edu'],
+        ['PS/CSC/21/0002', '', ''],
+        ['12345', 'Kwame Asante', ''],
+        ['PS/CSC/21/0004', 'Esi Owusu', 'not-an-email'],
+        ['PS/CSC/21/0001', 'Ama Mensah', ''],
+        ['PS/CSC/21/0003', 'Kofi Boateng', ''],
+      ],
+      mapping,
+      [onRoster]
+    );
+
+    expect(preview.rows).toEqual([
+      {
+        indexNumber: 'PS/CSC/21/0001',
+        name: 'Ama Mensah',
+        email: 'ama@university.edu',
+        program: '',
+      },
+    ]);
+    expect(preview.errors.map(({ line, message }) => [line, message])).toEqual([
+      [3, 'Missing name'],
+      [4, 'Index number must be in the format XX/XXX/XX/XXXX'],
+      [5, 'Invalid email "not-an-email"'],
+    ]);
+    expect(preview.duplicates.map(({ line, message }) => [line, message])).toEqual([
+      [6, 'Same student as line 2'],
+      [7, 'Already enrolled'],
+    ]);
+  });
+});
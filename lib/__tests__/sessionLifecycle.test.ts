@@ -0,0 +1,52 @@
+import {
+  canReopenSession,
+  getReopenDeadline,
+  isCheckOutOpen,
+  isSessionOpen,
+} from '~/lib/sessionLifecycle';
+
+const endTime = '2026-10-19T10:00:00.000Z';
+const at = (time: string) => new Date(time).getTime();
+
+describe('isSessionOpen', () => {
+  it('is open while active or reopened', () => {
+    expect(isSessionOpen({ status: 'ACTIVE' })).toBe(true);
+    expect(isSessionOpen({ status: 'REOPENED' })).toBe(true);
+    expect(isSessionOpen({ status: 'SCHEDULED' })).toBe(false);
+    expect(isSessionOpen({ status: 'CLOSED' })).toBe(false);
+  });
+});
+
+describe('canReopenSession', () => {
+  it('allows reopening a closed session for 30 minutes after it ended', () => {
+    expect(getReopenDeadline({ endTime })).toBe('2026-10-19T10:30:00.000Z');
+    expect(canReopenSession({ status: 'CLOSED', endTime }, at('2026-10-19T10:29:59.000Z'))).toBe(
+      true
+    );
+    expect(canReopenSession({ status: 'CLOSED', endTime }, at('2026-10-19T10:30:00.000Z'))).toBe(
+      false
+    );
+  });
+
+  it('only reopens closed sessions', () => {
+    expect(canReopenSession({ status: 'ACTIVE', endTime }, at('2026-10-19T10:05:00.000Z'))).toBe(
+      false
+    );
+  });
+});
+
+describe('isCheckOutOpen', () => {
+  const session = { status: 'ACTIVE', endTime, requiresCheckOut: true } as const;
+
+  it('opens check-out for the last 15 minutes of an open session', () => {
+    expect(isCheckOutOpen(session, at('2026-10-19T09:44:59.000Z'))).toBe(false);
+    expect(isCheckOutOpen(session, at('2026-10-19T09:45:00.000Z'))).toBe(true);
+  });
+
+  it('stays closed when the session does not require check-out or has ended', () => {
+    const now = at('2026-10-19T09:50:00.000Z');
+
+    expect(isCheckOutOpen({ ...session, requiresCheckOut: false }, now)).toBe(false);
+    expect(isCheckOutOpen({ ...session, status: 'CLOSED' }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { getCurrentTerm, isCourseInTerm, isDateInTerm, resolveTermSelection } from '~/lib/terms';
+import { Course, Term } from '~/types/app';
+
+const autumn: Term = { id: 1, name: 'Autumn 2026', startDate: '2026-09-01', endDate: '2026-12-18' };
+const spring: Term = { id: 2, name: 'Spring 2027', startDate: '2027-01-11', endDate: '2027-05-07' };
+const terms = [spring, autumn];
+
+// Local times, since term dates are read as calendar days in the device's time zone
+const local = (year: number, month: number, day: number, hours = 12) =>
+  new Date(year, month - 1, day, hours);
+
+describe('getCurrentTerm', () => {
+  it('finds the term a date falls in', () => {
+    expect(getCurrentTerm(terms, local(2026, 10, 19))).toBe(autumn);
+    expect(getCurrentTerm(terms, local(2027, 2, 1))).toBe(spring);
+  });
+
+  it('keeps the last term that started between terms, and the first before any', () => {
+    expect(getCurrentTerm(terms, local(2026, 12, 28))).toBe(autumn);
+    expect(getCurrentTerm(terms, local(2026, 1, 1))).toBe(autumn);
+    expect(getCurrentTerm([])).toBeNull();
+  });
+});
+
+describe('resolveTermSelection', () => {
+  it('resolves all terms, a chosen term, and a term that no longer exists', () => {
+    expect(resolveTermSelection(terms, 'ALL')).toBeNull();
+    expect(resolveTermSelection(terms, 2)).toBe(spring);
+    expect(resolveTermSelection(terms, 99)).toBe(getCurrentTerm(terms));
+  });
+});
+
+describe('isDateInTerm', () => {
+  it('includes the whole of the first and last day', () => {
+    expect(isDateInTerm(local(2026, 9, 1, 0).toISOString(), autumn)).toBe(true);
+    expect(isDateInTerm(local(2026, 12, 18, 23).toISOString(), autumn)).toBe(true);
+    expect(isDateInTerm(local(2026, 12, 19, 0).toISOString(), autumn)).toBe(false);
+  });
+
+  it('lets every date through for all terms', () => {
+    expect(isDateInTerm('2020-01-01T00:00:00.000Z', null)).toBe(true);
+  });
+});
+
+describe('isCourseInTerm', () => {
+  const course = (termId?: number) => ({ courseCode: 'CS101', termId }) as Course;
+
+  it('matches courses bound to the term, and courses bound to none', () => {
+    expect(isCourseInTerm(course(1), autumn)).toBe(true);
+    expect(isCourseInTerm(course(2), autumn)).toBe(false);
+    expect(isCourseInTerm(course(), autumn)).toBe(true);
+    expect(isCourseInTerm(course(2), null)).toBe(true);
+  });
+});
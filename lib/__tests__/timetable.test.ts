@@ -0,0 +1,37 @@
+import { formatSlot, getNextOccurrence, toSlotTime } from '~/lib/timetable';
+import { TimetableSlot } from '~/types/app';
+
+// Wednesday 09:00 for 90 minutes
+const slot: TimetableSlot = {
+  id: 1,
+  courseCode: 'CS101',
+  dayOfWeek: 3,
+  startTime: '09:00',
+  durationMinutes: 90,
+  location: { latitude: 5.65, longitude: -0.18 },
+  radius: 50,
+};
+
+// Local times, so the expectations hold in any time zone; 19 October 2026 is a Monday
+const local = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes);
+
+describe('formatSlot', () => {
+  it('shows the day and the start and end times', () => {
+    expect(formatSlot(slot)).toBe('Wednesday · 09:00 – 10:30');
+    expect(toSlotTime(local(19, 7, 5))).toBe('07:05');
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('finds the next occurrence later in the week', () => {
+    expect(getNextOccurrence(slot, local(19, 12))).toEqual(local(21, 9));
+  });
+
+  it('counts an occurrence in progress as the next one', () => {
+    expect(getNextOccurrence(slot, local(21, 10))).toEqual(local(21, 9));
+  });
+
+  it('moves to the following week once the occurrence has ended', () => {
+    expect(getNextOccurrence(slot, local(21, 10, 30))).toEqual(local(28, 9));
+  });
+});
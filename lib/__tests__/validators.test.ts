@@ -0,0 +1,74 @@
+import {
+  validateLecturer,
+  validateList,
+  validatePage,
+  validateTerm,
+  validateUser,
+  ValidationError,
+} from '~/lib/validators';
+
+const term = (id: number) => ({
+  id,
+  name: `Term ${id}`,
+  startDate: '2026-09-01',
+  endDate: '2026-12-18',
+});
+
+const user = {
+  id: 7,
+  username: 'asmith',
+  firstName: 'Ama',
+  lastName: 'Smith',
+  email: 'asmith@university.edu',
+  role: 'STUDENT',
+};
+
+describe('validateList', () => {
+  it('drops malformed items', () => {
+    const terms = validateList(validateTerm)([term(1), { id: 'two' }, term(3)], 'terms');
+
+    expect(terms.map((t) => t.id)).toEqual([1, 3]);
+  });
+
+  it('still rejects a value that is not a list', () => {
+    expect(() => validateList(validateTerm)({ content: [] }, 'terms')).toThrow(ValidationError);
+  });
+});
+
+describe('validatePage', () => {
+  it('keeps the reported total and derives the last page', () => {
+    const page = validatePage(validateTerm)(
+      { content: [term(1)], number: 0, totalPages: 2, totalElements: 21 },
+      'terms'
+    );
+
+    expect(page).toMatchObject({ totalElements: 21, last: false, size: 1 });
+  });
+});
+
+describe('validateUser', () => {
+  it('accepts a user without a department', () => {
+    expect(validateUser(user, 'user').department).toBeUndefined();
+    expect(validateUser({ ...user, department: null }, 'user').department).toBeUndefined();
+  });
+
+  it('rejects an unknown role', () => {
+    expect(() => validateUser({ ...user, role: 'GUEST' }, 'user')).toThrow('user.role');
+  });
+});
+
+describe('validateLecturer', () => {
+  const lecturer = { ...user, id: 3, role: 'LECTURER' };
+
+  it('accepts a department given by name or as an object', () => {
+    expect(validateLecturer({ ...lecturer, department: 'Science' }, 'lecturer')).toMatchObject({
+      department: 'Science',
+    });
+    expect(
+      validateLecturer(
+        { ...lecturer, department: { id: 1, departmentName: 'Science' } },
+        'lecturer'
+      ).department
+    ).toMatchObject({ departmentName: 'Science' });
+  });
+});
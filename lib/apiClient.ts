@@ -0,0 +1,481 @@
+/**
+ * Centralized HTTP client for the Unitrack backend.
+ *
+ * Every store action talks to the API through `apiRequest` (or the `api` shorthands) so that
+ * authorization headers, timeouts and error parsing behave the same for every endpoint.
+ *
+ * Identical GET requests that are already in flight are shared rather than sent twice, and any
+ * request can be cancelled through an `AbortSignal` (e.g. when the screen that needs it unmounts).
+ *
+ * Requests that are safe to repeat (GETs, and mutations carrying an idempotency key) are retried
+ * with exponential backoff and jitter on network errors, timeouts, 408, 429 and 5xx responses.
+ * While the device is offline they wait for connectivity instead of failing straight away.
+ *
+ * @example
+ * ```typescript
+ * const courses = await api.get<Course[]>('/api/v1/courses');
+ * await api.post<void, SessionRequest>('/api/v1/session/create', sessionReq, {
+ *   query: { time: 300 },
+ * });
+ * ```
+ */
+import Constants from 'expo-constants';
+import { logoutAndRedirect } from '~/lib/utils';
+import { useAuthStore } from '~/store/authStore';
+import { useConnectivityStore } from '~/store/connectivityStore';
+import { QueryParams, RequestOptions, RetryPolicy } from '~/types/api';
+
+const API_BASE_URL = Constants.expoConfig?.extra?.API_BASE_URL;
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+/**
+ * How long a retryable request waits for the device to come back online before trying anyway.
+ */
+const OFFLINE_WAIT_MS = 10000;
+
+/**
+ * A GET request shared by every caller that asked for the same URL while it was in flight.
+ * @property promise - Resolves with the parsed response body.
+ * @property controller - Aborts the underlying fetch once every subscriber has cancelled.
+ * @property subscribers - The number of callers still waiting on the response.
+ */
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+/**
+ * Error thrown for every failed API request.
+ * @property status - The HTTP status code, or 0 when no response was received.
+ * @property endpoint - The endpoint that was requested (without the base URL).
+ * @property serverMessage - The message returned by the server, if any.
+ * @property retryable - Whether repeating the same request may succeed.
+ * @property isTimeout - Whether the request was aborted after exceeding its timeout.
+ * @property isCancelled - Whether the caller cancelled the request through its `AbortSignal`.
+ */
+class ApiError extends Error {
+  status: number;
+  endpoint: string;
+  serverMessage: string | null;
+  retryable: boolean;
+  isTimeout: boolean;
+  isCancelled: boolean;
+
+  constructor({
+    status,
+    endpoint,
+    serverMessage = null,
+    isTimeout = false,
+    isCancelled = false,
+  }: {
+    status: number;
+    endpoint: string;
+    serverMessage?: string | null;
+    isTimeout?: boolean;
+    isCancelled?: boolean;
+  }) {
+    super(
+      serverMessage ||
+        (isCancelled
+          ? `Request to ${endpoint} was cancelled`
+          : isTimeout
+            ? `Request to ${endpoint} timed out`
+            : status === 0
+              ? `Network request to ${endpoint} failed`
+              : `Request to ${endpoint} failed with status ${status}`)
+    );
+    this.name = 'ApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+    this.serverMessage = serverMessage;
+    this.isTimeout = isTimeout;
+    this.isCancelled = isCancelled;
+    this.retryable =
+      !isCancelled && (status === 0 || status === 408 || status === 429 || status >= 500);
+  }
+}
+
+/**
+ * Builds the full request URL from an endpoint and optional query parameters.
+ *
+ * @param endpoint - The API path, e.g. "/api/v1/courses".
+ * @param query - Query string parameters; `null` and `undefined` values are skipped.
+ * @returns The absolute URL.
+ */
+const buildUrl = (endpoint: string, query?: QueryParams) => {
+  const params = Object.entries(query ?? {})
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+
+  return `${API_BASE_URL}${endpoint}${params ? `?${params}` : ''}`;
+};
+
+/**
+ * Extracts a human-readable message from an error response body.
+ * JSON bodies are searched for `message` or `error` fields; anything else is used as plain text.
+ *
+ * @param response - The failed fetch response.
+ * @returns The server message, or null if the body is empty or unreadable.
+ */
+const parseErrorBody = async (response: Response): Promise<string | null> => {
+  try {
+    const text = await response.text();
+    if (!text) return null;
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('application/json') || /^\s*[{[]/.test(text)) {
+      try {
+        const data = JSON.parse(text);
+        if (typeof data === 'string') return data;
+        return data?.message || data?.error || data?.detail || text;
+      } catch {
+        return text;
+      }
+    }
+
+    return text;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads a successful response body. Empty bodies resolve to undefined, and JSON responses that
+ * fail to parse fall back to their raw text.
+ *
+ * @param response - The successful fetch response.
+ * @param responseType - Whether the caller expects JSON or text.
+ */
+const parseResponseBody = async <TResponse>(
+  response: Response,
+  responseType: 'json' | 'text'
+): Promise<TResponse> => {
+  const text = await response.text();
+
+  if (responseType === 'text') return text as TResponse;
+  if (!text) return undefined as TResponse;
+
+  try {
+    return JSON.parse(text) as TResponse;
+  } catch {
+    return text as TResponse;
+  }
+};
+
+/**
+ * Sends a single request without interpreting the response status.
+ *
+ * @param endpoint - The API path, e.g. "/api/v1/courses".
+ * @param options - Request options (method, body, query, headers, auth, timeout, signal).
+ * @returns The raw fetch response and whether a bearer token was attached.
+ * @throws {ApiError} With status 0 when the network fails, the request times out or is cancelled.
+ */
+const sendRequest = async <TBody>(
+  endpoint: string,
+  options: RequestOptions<TBody>
+): Promise<{ response: Response; authorized: boolean }> => {
+  const {
+    method = 'GET',
+    body,
+    query,
+    headers,
+    auth = true,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal,
+  } = options;
+
+  const requestHeaders: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}),
+    ...headers,
+  };
+
+  const token = auth ? useAuthStore.getState().token : null;
+  if (token) {
+    requestHeaders.Authorization = `Bearer ${token}`;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const cancel = () => controller.abort();
+
+  if (signal?.aborted) {
+    cancel();
+  }
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    const response = await fetch(buildUrl(endpoint, query), {
+      method,
+      headers: requestHeaders,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    return { response, authorized: !!token };
+  } catch {
+    throw new ApiError({
+      status: 0,
+      endpoint,
+      isTimeout: controller.signal.aborted && !signal?.aborted,
+      isCancelled: !!signal?.aborted,
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+/**
+ * Sends a request, refreshing the session and replaying it once on 401, and parses the response.
+ *
+ * @param endpoint - The API path, e.g. "/api/v1/courses".
+ * @param options - Request options.
+ * @returns The parsed response body.
+ * @throws {ApiError} When the request fails, times out, is cancelled, or returns a non-2xx status.
+ * A refresh that fails without the server rejecting the refresh token rethrows its error and
+ * keeps the user signed in.
+ */
+const performRequest = async <TResponse, TBody>(
+  endpoint: string,
+  options: RequestOptions<TBody>
+): Promise<TResponse> => {
+  let { response, authorized } = await sendRequest(endpoint, options);
+
+  if (response.status === 401 && authorized) {
+    const refreshed = await useAuthStore.getState().refreshSession();
+
+    if (refreshed) {
+      ({ response } = await sendRequest(endpoint, options));
+    }
+
+    if (!refreshed || response.status === 401) {
+      logoutAndRedirect();
+    }
+  }
+
+  if (!response.ok) {
+    throw new ApiError({
+      status: response.status,
+      endpoint,
+      serverMessage: await parseErrorBody(response),
+    });
+  }
+
+  return parseResponseBody<TResponse>(response, options.responseType ?? 'json');
+};
+
+/**
+ * Waits before the next retry, using exponential backoff with full jitter.
+ *
+ * @param attempt - The zero-based number of the retry about to be made.
+ * @param policy - The retry policy.
+ * @param endpoint - The API path, used in the cancellation error.
+ * @param signal - Cancels the wait.
+ * @throws {ApiError} A cancelled error when the signal is aborted during the wait.
+ */
+const backoff = (attempt: number, policy: RetryPolicy, endpoint: string, signal?: AbortSignal) => {
+  const delay = Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+  return new Promise<void>((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new ApiError({ status: 0, endpoint, isCancelled: true }));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, delay);
+
+    if (signal?.aborted) {
+      cancel();
+      return;
+    }
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+};
+
+/**
+ * Performs a request, retrying it according to its retry policy when it is safe to repeat.
+ *
+ * @param endpoint - The API path, e.g. "/api/v1/courses".
+ * @param options - Request options.
+ * @returns The parsed response body.
+ * @throws {ApiError} The last error once retries are exhausted or the error is not retryable.
+ */
+const performWithRetry = async <TResponse, TBody>(
+  endpoint: string,
+  options: RequestOptions<TBody>
+): Promise<TResponse> => {
+  const { method = 'GET', retry, idempotencyKey, signal } = options;
+  const canRetry = retry !== false && (method === 'GET' || !!idempotencyKey);
+  const policy: RetryPolicy | null = canRetry ? { ...DEFAULT_RETRY_POLICY, ...retry } : null;
+
+  for (let attempt = 0; ; attempt++) {
+    if (policy && !useConnectivityStore.getState().isOnline) {
+      // Hold the request while offline instead of spending a retry on it
+      await useConnectivityStore.getState().waitForConnection(OFFLINE_WAIT_MS, signal);
+    }
+
+    try {
+      return await performRequest<TResponse, TBody>(endpoint, options);
+    } catch (error) {
+      const retryable = error instanceof ApiError && error.retryable;
+      if (!policy || !retryable || attempt >= policy.retries) throw error;
+
+      await backoff(attempt, policy, endpoint, signal);
+    }
+  }
+};
+
+/**
+ * Joins (or starts) the shared in-flight request for `key`.
+ *
+ * Each caller can cancel its own wait through `signal`; the underlying request is only aborted
+ * once every caller waiting on it has cancelled.
+ *
+ * @param key - Identifies identical requests (method, URL and credentials).
+ * @param endpoint - The API path, used in the cancellation error.
+ * @param signal - The caller's cancellation signal, if any.
+ * @param run - Sends the request with the shared abort signal.
+ * @returns The shared response.
+ */
+const dedupeRequest = <TResponse>(
+  key: string,
+  endpoint: string,
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal) => Promise<TResponse>
+): Promise<TResponse> => {
+  let shared = inFlightRequests.get(key);
+
+  if (!shared) {
+    const controller = new AbortController();
+    const entry: InFlightRequest = {
+      controller,
+      subscribers: 0,
+      promise: run(controller.signal).finally(() => {
+        if (inFlightRequests.get(key) === entry) {
+          inFlightRequests.delete(key);
+        }
+      }),
+    };
+    inFlightRequests.set(key, entry);
+    shared = entry;
+  }
+
+  const request = shared;
+  request.subscribers++;
+
+  if (!signal) {
+    return request.promise as Promise<TResponse>;
+  }
+
+  return new Promise<TResponse>((resolve, reject) => {
+    const cancel = () => {
+      request.subscribers--;
+      if (request.subscribers === 0) {
+        // Nobody is waiting any more; stop the request and let the next caller start afresh
+        if (inFlightRequests.get(key) === request) {
+          inFlightRequests.delete(key);
+        }
+        request.controller.abort();
+      }
+      reject(new ApiError({ status: 0, endpoint, isCancelled: true }));
+    };
+
+    if (signal.aborted) {
+      cancel();
+      return;
+    }
+
+    signal.addEventListener('abort', cancel, { once: true });
+    (request.promise as Promise<TResponse>)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', cancel));
+  });
+};
+
+/**
+ * Performs a request against the backend API.
+ *
+ * When an authorized request is rejected with 401, the session is refreshed once and the
+ * request replayed with the new token. If the refresh fails the user is signed out.
+ *
+ * GET requests identical to one already in flight share its response unless `dedupe` is false.
+ *
+ * @param endpoint - The API path, e.g. "/api/v1/courses".
+ * @param options - Request options (method, body, query, headers, auth, timeout, signal, dedupe).
+ * @returns The parsed response body.
+ * @throws {ApiError} When the request fails, times out, is cancelled, or returns a non-2xx status.
+ */
+const apiRequest = async <TResponse, TBody = unknown>(
+  endpoint: string,
+  options: RequestOptions<TBody> = {}
+): Promise<TResponse> => {
+  const { method = 'GET', auth = true, dedupe = true, signal } = options;
+
+  if (method !== 'GET' || !dedupe) {
+    return performWithRetry<TResponse, TBody>(endpoint, options);
+  }
+
+  const token = auth ? useAuthStore.getState().token : null;
+  const key = `${method} ${buildUrl(endpoint, options.query)} ${token ?? ''}`;
+
+  return dedupeRequest(key, endpoint, signal, (sharedSignal) =>
+    performWithRetry<TResponse, TBody>(endpoint, { ...options, signal: sharedSignal })
+  );
+};
+
+/**
+ * Shorthand helpers around `apiRequest` for each HTTP method.
+ */
+const api = {
+  get: <TResponse>(endpoint: string, options?: Omit<RequestOptions, 'method' | 'body'>) =>
+    apiRequest<TResponse>(endpoint, { ...options, method: 'GET' }),
+
+  post: <TResponse, TBody = unknown>(
+    endpoint: string,
+    body?: TBody,
+    options?: Omit<RequestOptions<TBody>, 'method' | 'body'>
+  ) => apiRequest<TResponse, TBody>(endpoint, { ...options, method: 'POST', body }),
+
+  put: <TResponse, TBody = unknown>(
+    endpoint: string,
+    body?: TBody,
+    options?: Omit<RequestOptions<TBody>, 'method' | 'body'>
+  ) => apiRequest<TResponse, TBody>(endpoint, { ...options, method: 'PUT', body }),
+
+  delete: <TResponse>(endpoint: string, options?: Omit<RequestOptions, 'method' | 'body'>) =>
+    apiRequest<TResponse>(endpoint, { ...options, method: 'DELETE' }),
+};
+
+/**
+ * Resolves the message to show the user for a failed request.
+ * Prefers the server's own message, then falls back to the provided default.
+ *
+ * @param error - The caught error.
+ * @param fallback - The message to use when the error carries nothing useful.
+ * @returns The error message.
+ */
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    if (error.isCancelled) return 'Request was cancelled';
+    return error.serverMessage || (error.isTimeout ? 'Request timed out' : fallback);
+  }
+
+  return error instanceof Error && error.message ? error.message : fallback;
+};
+
+export { api, ApiError, apiRequest, getErrorMessage };
@@ -1,55 +1,200 @@
-import { Attendance, Student } from '~/types/app';
+import {
+  AbsenceJustification,
+  Attendance,
+  AttendanceEntry,
+  AttendanceStatus,
+  RosterEntry,
+  Session,
+  Student,
+} from '~/types/app';
 import { User } from '~/types/auth';
 
 /**
- * Checks if a student was present in a specific attendance record
- * @param attendance - The attendance record to check
- * @param student - The student to check for (can be User or Student type)
- * @returns boolean indicating if the student was present
+ * Minutes after a session starts before a check-in counts as late, when neither the session nor
+ * its course sets a threshold
+ */
+export const DEFAULT_LATE_THRESHOLD_MINUTES = 15;
+
+/**
+ * Late thresholds (in minutes) offered when creating a session
+ */
+export const LATE_THRESHOLD_OPTIONS = [5, 10, 15, 30];
+
+/**
+ * Finds a student's entry in a specific attendance record
+ * @param attendance - The attendance record to search
+ * @param student - The student to look for (can be User or Student type)
+ * @returns The student's entry, or undefined if they were not present
  */
-export const isStudentPresent = (attendance: Attendance, student: User | Student): boolean => {
+export const findAttendanceEntry = (
+  attendance: Attendance,
+  student: User | Student
+): AttendanceEntry | undefined => {
   if (!attendance.studentList || attendance.studentList.length === 0) {
-    return false;
+    return undefined;
   }
 
   // Check by username first (most reliable)
   if (student.username) {
-    return attendance.studentList.some((s) => s.username === student.username);
+    return attendance.studentList.find((s) => s.username === student.username);
   }
 
   // Fallback to email check
   if (student.email) {
-    return attendance.studentList.some((s) => s.email === student.email);
+    return attendance.studentList.find((s) => s.email === student.email);
   }
 
   // For students with IndexNumber, check that too
   if ('IndexNumber' in student && student.IndexNumber) {
-    return attendance.studentList.some((s) => s.IndexNumber === student.IndexNumber);
+    return attendance.studentList.find((s) => s.IndexNumber === student.IndexNumber);
   }
 
-  return false;
+  return undefined;
 };
 
+/**
+ * Finds a student's latest absence justification for a specific attendance record
+ * @param attendance - The attendance record to search
+ * @param student - The student to look for (can be User or Student type)
+ * @returns The latest justification, or undefined if the student has not submitted one
+ */
+export const findAbsenceJustification = (
+  attendance: Attendance,
+  student: User | Student
+): AbsenceJustification | undefined =>
+  attendance.justifications
+    .filter(
+      (justification) =>
+        justification.student.username === student.username ||
+        justification.student.email === student.email
+    )
+    .at(-1);
+
+/**
+ * Checks if a student was present in a specific attendance record
+ * @param attendance - The attendance record to check
+ * @param student - The student to check for (can be User or Student type)
+ * @returns boolean indicating if the student was present
+ */
+export const isStudentPresent = (attendance: Attendance, student: User | Student): boolean =>
+  findAttendanceEntry(attendance, student) !== undefined;
+
+/**
+ * Works out how many minutes after the session started a student checked in
+ * @param attendance - The attendance record the entry belongs to
+ * @param entry - The student's entry
+ * @returns Whole minutes after the start (0 if early), or null when the check-in time is unknown
+ */
+export const getMinutesLate = (attendance: Attendance, entry: AttendanceEntry): number | null => {
+  if (!entry.checkedInAt) return null;
+
+  const delay = new Date(entry.checkedInAt).getTime() - new Date(attendance.date).getTime();
+  return Number.isNaN(delay) ? null : Math.max(0, Math.floor(delay / 60000));
+};
+
+/**
+ * Works out how long a student stayed, from check-in to check-out
+ * @param entry - The student's entry
+ * @returns Whole minutes present, or null if the student has not checked in and out
+ */
+export const getMinutesPresent = (entry: AttendanceEntry): number | null => {
+  if (!entry.checkedInAt || !entry.checkedOutAt) return null;
+
+  const present = new Date(entry.checkedOutAt).getTime() - new Date(entry.checkedInAt).getTime();
+  return Number.isNaN(present) ? null : Math.max(0, Math.floor(present / 60000));
+};
+
+/**
+ * Checks a student's time present against the course's minimum-presence rule.
+ * Sessions without check-out, and courses without a rule, always pass.
+ * @param session - The session the entry belongs to
+ * @param entry - The student's entry
+ * @returns boolean indicating if the student's attendance counts
+ */
+export const meetsMinimumPresence = (session: Session, entry: AttendanceEntry): boolean => {
+  const { minimumPresencePercent } = session.course;
+  if (!session.requiresCheckOut || minimumPresencePercent === undefined) return true;
+
+  const minutesPresent = getMinutesPresent(entry);
+  if (minutesPresent === null) return false;
+
+  const sessionMinutes =
+    (new Date(session.endTime).getTime() - new Date(session.startTime).getTime()) / 60000;
+  return minutesPresent >= (sessionMinutes * minimumPresencePercent) / 100;
+};
+
+/**
+ * Gets whether a student was on time, late, absent or excused for a specific attendance record.
+ * Students without a check-in time (e.g. added by the lecturer) count as on time, and absences
+ * with an approved justification count as excused.
+ * @param attendance - The attendance record to check
+ * @param student - The student to check for (can be User or Student type)
+ * @returns The student's attendance status
+ */
+export const getStudentAttendanceStatus = (
+  attendance: Attendance,
+  student: User | Student
+): AttendanceStatus => {
+  const entry = findAttendanceEntry(attendance, student);
+  if (!entry) {
+    return findAbsenceJustification(attendance, student)?.status === 'APPROVED'
+      ? 'EXCUSED'
+      : 'ABSENT';
+  }
+
+  const minutesLate = getMinutesLate(attendance, entry);
+  return minutesLate !== null && minutesLate > attendance.lateThresholdMinutes ? 'LATE' : 'PRESENT';
+};
+
+/**
+ * Checks whether a session counts towards a student's record: it was held after they enrolled,
+ * or they attended it anyway
+ * @param attendance - The attendance record to check
+ * @param student - The student to check for
+ * @param enrolledAt - (Optional) When the student enrolled in the course (ISO string)
+ * @returns boolean indicating if the session counts
+ */
+export const isSessionCounted = (
+  attendance: Attendance,
+  student: User | Student,
+  enrolledAt?: string
+): boolean =>
+  !enrolledAt ||
+  new Date(attendance.date).getTime() >= new Date(enrolledAt).getTime() ||
+  isStudentPresent(attendance, student);
+
 /**
  * Gets the attendance status for a student across all attendance records
  * @param attendanceRecords - Array of attendance records
  * @param student - The student to check
+ * @param enrolledAt - (Optional) When the student enrolled; earlier sessions they missed don't count
  * @returns Object with attendance statistics
  */
 export const getStudentAttendanceStats = (
   attendanceRecords: Attendance[],
-  student: User | Student
+  student: User | Student,
+  enrolledAt?: string
 ) => {
-  const totalSessions = attendanceRecords.length;
-  const attendedSessions = attendanceRecords.filter((record) =>
-    isStudentPresent(record, student)
+  const countedRecords = attendanceRecords.filter((record) =>
+    isSessionCounted(record, student, enrolledAt)
+  );
+  const statuses = countedRecords.map((record) => getStudentAttendanceStatus(record, student));
+  const totalSessions = countedRecords.length;
+  const lateSessions = statuses.filter((status) => status === 'LATE').length;
+  const attendedSessions = statuses.filter(
+    (status) => status === 'PRESENT' || status === 'LATE'
   ).length;
-  const missedSessions = totalSessions - attendedSessions;
-  const attendanceRate = totalSessions > 0 ? (attendedSessions / totalSessions) * 100 : 0;
+  const excusedSessions = statuses.filter((status) => status === 'EXCUSED').length;
+  const missedSessions = statuses.filter((status) => status === 'ABSENT').length;
+  // Excused sessions are left out of the rate rather than counted as missed
+  const countedSessions = totalSessions - excusedSessions;
+  const attendanceRate = countedSessions > 0 ? (attendedSessions / countedSessions) * 100 : 0;
 
   return {
     totalSessions,
     attendedSessions,
+    lateSessions, // Late check-ins still count as attended
+    excusedSessions,
     missedSessions,
     attendanceRate: Math.round(attendanceRate * 100) / 100, // Round to 2 decimal places
   };
@@ -62,16 +207,51 @@ export const getStudentAttendanceStats = (
  * @returns Object with display properties for the attendance status
  */
 export const getAttendanceStatusDisplay = (attendance: Attendance, student: User | Student) => {
-  const isPresent = isStudentPresent(attendance, student);
+  const status = getStudentAttendanceStatus(attendance, student);
+  const entry = findAttendanceEntry(attendance, student);
+  const minutesLate = entry ? getMinutesLate(attendance, entry) : null;
+
+  const display = {
+    PRESENT: {
+      badgeColor: 'bg-green-100',
+      textColor: 'text-green-600',
+      iconName: 'check-circle',
+      iconColor: '#10b981',
+      statusText: 'Present',
+      statusBarColor: 'bg-green-500',
+    },
+    LATE: {
+      badgeColor: 'bg-amber-100',
+      textColor: 'text-amber-600',
+      iconName: 'schedule',
+      iconColor: '#f59e0b',
+      statusText: `Late (${minutesLate} min)`,
+      statusBarColor: 'bg-amber-500',
+    },
+    EXCUSED: {
+      badgeColor: 'bg-blue-100',
+      textColor: 'text-blue-600',
+      iconName: 'event-available',
+      iconColor: '#3b82f6',
+      statusText: 'Excused',
+      statusBarColor: 'bg-blue-500',
+    },
+    ABSENT: {
+      badgeColor: 'bg-red-100',
+      textColor: 'text-red-600',
+      iconName: 'cancel',
+      iconColor: '#ef4444',
+      statusText: 'Absent',
+      statusBarColor: 'bg-red-500',
+    },
+  }[status];
 
   return {
-    isPresent,
-    badgeColor: isPresent ? 'bg-green-100' : 'bg-red-100',
-    textColor: isPresent ? 'text-green-600' : 'text-red-600',
-    iconName: isPresent ? 'check-circle' : 'cancel',
-    iconColor: isPresent ? '#10b981' : '#ef4444',
-    statusText: isPresent ? 'Present' : 'Absent',
-    statusBarColor: isPresent ? 'bg-green-500' : 'bg-red-500',
+    status,
+    isPresent: status === 'PRESENT' || status === 'LATE',
+    isLate: status === 'LATE',
+    checkedInAt: entry?.checkedInAt,
+    ...display,
   };
 };
 
@@ -89,7 +269,8 @@ export const getStudentPresentSessions = (
 };
 
 /**
- * Filters attendance records to show only sessions where the student was absent
+ * Filters attendance records to show only sessions where the student was absent without an
+ * approved justification
  * @param attendanceRecords - Array of attendance records
  * @param student - The student to filter for
  * @returns Array of attendance records where the student was absent
@@ -98,5 +279,46 @@ export const getStudentAbsentSessions = (
   attendanceRecords: Attendance[],
   student: User | Student
 ): Attendance[] => {
-  return attendanceRecords.filter((record) => !isStudentPresent(record, student));
+  return attendanceRecords.filter(
+    (record) => getStudentAttendanceStatus(record, student) === 'ABSENT'
+  );
+};
+
+/**
+ * Filters attendance records to show only sessions where the student's absence was excused
+ * @param attendanceRecords - Array of attendance records
+ * @param student - The student to filter for
+ * @returns Array of attendance records where the student was excused
+ */
+export const getStudentExcusedSessions = (
+  attendanceRecords: Attendance[],
+  student: User | Student
+): Attendance[] => {
+  return attendanceRecords.filter(
+    (record) => getStudentAttendanceStatus(record, student) === 'EXCUSED'
+  );
+};
+
+/**
+ * Splits a course roster by attendance for a specific session. Students who enrolled after the
+ * session are left out.
+ * @param attendance - The session's attendance record
+ * @param roster - The students enrolled in the course
+ * @returns The roster entries who attended, were excused, and were absent
+ */
+export const getRosterAttendance = (attendance: Attendance, roster: RosterEntry[]) => {
+  const expected = roster.filter((student) =>
+    isSessionCounted(attendance, student, student.enrolledAt)
+  );
+  const byStatus = (...statuses: AttendanceStatus[]) =>
+    expected.filter((student) =>
+      statuses.includes(getStudentAttendanceStatus(attendance, student))
+    );
+
+  return {
+    expected,
+    present: byStatus('PRESENT', 'LATE'),
+    excused: byStatus('EXCUSED'),
+    absent: byStatus('ABSENT'),
+  };
 };
@@ -0,0 +1,88 @@
+/**
+ * Helpers for course teaching staff and what each role may do.
+ *
+ * A course has one owner (`Course.lecturerId`) and any number of co-lecturers and teaching
+ * assistants in `Course.staff`. Everyone on the staff sees every session of the course, whoever
+ * ran it; what they may change depends on their role.
+ */
+import { Course, CourseStaffPermission, CourseStaffRole, Session } from '~/types/app';
+import { User } from '~/types/auth';
+
+const COURSE_STAFF_PERMISSIONS: Record<CourseStaffRole, CourseStaffPermission[]> = {
+  OWNER: ['runSessions', 'editAttendance', 'manageCourse'],
+  CO_LECTURER: ['runSessions', 'editAttendance'],
+  TA: ['runSessions'],
+};
+
+/**
+ * Display labels for each role.
+ */
+const COURSE_STAFF_ROLE_LABELS: Record<CourseStaffRole, string> = {
+  OWNER: 'Owner',
+  CO_LECTURER: 'Co-lecturer',
+  TA: 'Teaching Assistant',
+};
+
+/**
+ * Roles the owner can give other staff members.
+ */
+const ASSIGNABLE_STAFF_ROLES: Exclude<CourseStaffRole, 'OWNER'>[] = ['CO_LECTURER', 'TA'];
+
+/**
+ * Finds a user's role on a course.
+ *
+ * @param course - The course.
+ * @param user - The user.
+ * @returns The user's role, or null if they are not on the course's staff.
+ */
+const getCourseRole = (course: Course, user: User | null): CourseStaffRole | null => {
+  if (!user) return null;
+  if (course.lecturerId === user.id) return 'OWNER';
+
+  const member = (course.staff ?? []).find(
+    (staff) => staff.id === user.id || staff.email === user.email
+  );
+  return member?.role ?? null;
+};
+
+/**
+ * Checks whether a user may do something on a course.
+ *
+ * @param course - The course.
+ * @param user - The user.
+ * @param permission - What they want to do.
+ * @returns True if the user's role on the course allows it.
+ */
+const hasCoursePermission = (
+  course: Course,
+  user: User | null,
+  permission: CourseStaffPermission
+) => {
+  const role = getCourseRole(course, user);
+  return role !== null && COURSE_STAFF_PERMISSIONS[role].includes(permission);
+};
+
+/**
+ * Checks whether a session belongs in a lecturer's lists: they ran it, or they are on the staff of
+ * its course.
+ *
+ * @param session - The session.
+ * @param courses - The known courses, for their staff lists.
+ * @param user - The lecturer.
+ * @returns True if the lecturer should see the session.
+ */
+const isStaffSession = (session: Session, courses: Course[], user: User | null) => {
+  if (!user) return false;
+  if (session.lecturer?.email === user.email) return true;
+
+  const course = courses.find((candidate) => candidate.courseCode === session.course?.courseCode);
+  return !!course && getCourseRole(course, user) !== null;
+};
+
+export {
+  ASSIGNABLE_STAFF_ROLES,
+  COURSE_STAFF_ROLE_LABELS,
+  getCourseRole,
+  hasCoursePermission,
+  isStaffSession,
+};
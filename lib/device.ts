@@ -0,0 +1,190 @@
+/**
+ * Device identity and attendance signing.
+ *
+ * Each install has a device ID and a secret signing key, both kept in secure storage. The key is
+ * registered with the server when the user signs in, so the server can recompute the HMAC-SHA256
+ * signature sent with every attendance mark and check that the mark (including its client
+ * timestamp, location, QR token and integrity report) was captured on this device and not altered
+ * since, e.g. while it waited in the offline queue.
+ */
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import uuid from 'react-native-uuid';
+import { api } from '~/lib/apiClient';
+import { AttendanceRequest } from '~/types/app';
+
+const DEVICE_ID_KEY = 'UnitrackDeviceId';
+const DEVICE_SIGNING_KEY = 'UnitrackDeviceSigningKey';
+const DEVICE_REGISTERED_FOR_KEY = 'UnitrackDeviceRegisteredFor';
+
+/**
+ * SHA-256 block size in bytes, used to pad the HMAC key.
+ */
+const HMAC_BLOCK_SIZE = 64;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) =>
+  new Uint8Array((hex.match(/.{2}/g) ?? []).map((byte) => parseInt(byte, 16)));
+
+const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+};
+
+const sha256 = async (data: Uint8Array) =>
+  new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, data));
+
+/**
+ * Reads a value from secure storage, generating and saving a new one if none exists yet.
+ *
+ * Fails rather than falling back to a throwaway value: a device ID or key that changes on every
+ * call would make the signature meaningless.
+ *
+ * @param key - The secure storage key.
+ * @param generate - Creates the value when none is stored.
+ * @returns The stored (or newly generated) value.
+ */
+const getOrCreateSecureValue = async (key: string, generate: () => string): Promise<string> => {
+  try {
+    let value = await SecureStore.getItemAsync(key);
+
+    if (!value) {
+      value = generate();
+
+      await SecureStore.setItemAsync(key, value);
+    }
+
+    return value;
+  } catch {
+    throw new Error('This device could not access its secure storage. Please try again.');
+  }
+};
+
+/**
+ * Gets or generates a unique device ID
+ * @returns Promise<string> - The device ID
+ */
+const getDeviceId = (): Promise<string> =>
+  getOrCreateSecureValue(DEVICE_ID_KEY, () => uuid.v4() as string);
+
+/**
+ * Gets or generates the device's 256-bit signing key.
+ * @returns Promise<string> - The hex-encoded key
+ */
+const getSigningKey = (): Promise<string> =>
+  getOrCreateSecureValue(DEVICE_SIGNING_KEY, () => toHex(Crypto.getRandomBytes(32)));
+
+/**
+ * Computes an HMAC-SHA256 (RFC 2104) of a message.
+ *
+ * @param keyHex - The hex-encoded key.
+ * @param message - The message to authenticate.
+ * @returns The hex-encoded MAC.
+ */
+const hmacSha256 = async (keyHex: string, message: string): Promise<string> => {
+  let key = fromHex(keyHex);
+  if (key.length > HMAC_BLOCK_SIZE) key = await sha256(key);
+
+  const block = new Uint8Array(HMAC_BLOCK_SIZE);
+  block.set(key);
+  const innerPad = block.map((byte) => byte ^ 0x36);
+  const outerPad = block.map((byte) => byte ^ 0x5c);
+
+  const inner = await sha256(concatBytes(innerPad, new TextEncoder().encode(message)));
+  return toHex(await sha256(concatBytes(outerPad, inner)));
+};
+
+/**
+ * Builds the canonical string the server recomputes to verify an attendance signature. Optional
+ * fields are included as empty values so that stripping one changes the payload.
+ *
+ * @param attendanceReq - The attendance request.
+ * @param deviceId - The device ID sent with the request.
+ * @param clientTimestamp - ISO timestamp of when the student marked attendance.
+ * @returns The fields joined with "|".
+ */
+const getSignedPayload = (
+  { sessionId, location, accuracy, qrToken, integrity }: AttendanceRequest,
+  deviceId: string,
+  clientTimestamp: string
+) =>
+  [
+    sessionId,
+    deviceId,
+    clientTimestamp,
+    location.latitude,
+    location.longitude,
+    accuracy ?? '',
+    qrToken ?? '',
+    integrity?.sampleCount ?? '',
+    integrity?.acceptedCount ?? '',
+    integrity?.accuracy ?? '',
+    integrity?.maxSpeed ?? '',
+    integrity ? [...integrity.flags].sort().join(',') : '',
+  ].join('|');
+
+/**
+ * Signs an attendance mark with the device's registered key so that the mark cannot be forged or
+ * altered after it was captured.
+ *
+ * @param attendanceReq - The attendance request being signed.
+ * @param deviceId - The device ID sent with the request.
+ * @param clientTimestamp - ISO timestamp of when the student marked attendance.
+ * @returns Hex-encoded HMAC-SHA256 signature.
+ */
+const signAttendance = async (
+  attendanceReq: AttendanceRequest,
+  deviceId: string,
+  clientTimestamp: string
+): Promise<string> =>
+  hmacSha256(await getSigningKey(), getSignedPayload(attendanceReq, deviceId, clientTimestamp));
+
+/**
+ * Registers the device's ID and signing key with the server for the signed-in user.
+ *
+ * @param owner - Email of the signed-in user.
+ * @param force - Register again even if this device was already registered for `owner`.
+ */
+const registerDevice = async (owner: string, force = false) => {
+  if (!force && (await SecureStore.getItemAsync(DEVICE_REGISTERED_FOR_KEY)) === owner) return;
+
+  const deviceId = await getDeviceId();
+  const signingKey = await getSigningKey();
+  await api.post<void>(
+    '/api/v1/devices/register',
+    { deviceId, signingKey, algorithm: 'HMAC-SHA256' },
+    { responseType: 'text' }
+  );
+  await SecureStore.setItemAsync(DEVICE_REGISTERED_FOR_KEY, owner);
+};
+
+/**
+ * Builds the device headers sent with every attendance mark.
+ *
+ * @param deviceId - The device ID.
+ * @param clientTimestamp - ISO timestamp of when the student marked attendance.
+ * @param signature - Signature produced by `signAttendance`.
+ * @returns Headers object
+ */
+const getAttendanceHeaders = (
+  deviceId: string,
+  clientTimestamp: string,
+  signature: string
+): Record<string, string> => ({
+  'X-Device_ID': deviceId,
+  'X-Client-Timestamp': clientTimestamp,
+  'X-Client-Signature': signature,
+});
+
+export {
+  getAttendanceHeaders,
+  getDeviceId,
+  getSignedPayload,
+  hmacSha256,
+  registerDevice,
+  signAttendance,
+};
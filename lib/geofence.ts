@@ -0,0 +1,80 @@
+/**
+ * Geofence helpers for session attendance.
+ *
+ * Every session has a radius around the lecturer's location within which students can mark
+ * attendance. The attendance tab uses these helpers to show students how far they are from the
+ * session before submitting, taking the GPS accuracy of their fix into account.
+ */
+import { Location } from '~/types/app';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Radius used for sessions created before the radius was configurable.
+ */
+const DEFAULT_GEOFENCE_RADIUS = 50;
+
+/**
+ * Radii (in meters) offered when creating a session, from tutorial rooms to large auditoriums.
+ */
+const GEOFENCE_RADIUS_OPTIONS = [25, 50, 100, 200];
+
+/**
+ * Where a student is relative to a session's geofence.
+ * - 'inside': within the radius even allowing for GPS error.
+ * - 'outside': outside the radius even allowing for GPS error.
+ * - 'uncertain': the GPS error is too large to tell.
+ */
+type GeofenceStatus = 'inside' | 'outside' | 'uncertain';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points using the haversine formula.
+ *
+ * @param from - The first point.
+ * @param to - The second point.
+ * @returns The distance in meters.
+ */
+const getDistance = (from: Location, to: Location) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Classifies a distance against a geofence radius.
+ *
+ * @param distance - Distance to the session location in meters.
+ * @param radius - The session's geofence radius in meters.
+ * @param accuracy - (Optional) GPS accuracy of the student's fix in meters.
+ * @returns The geofence status.
+ */
+const getGeofenceStatus = (distance: number, radius: number, accuracy = 0): GeofenceStatus => {
+  if (distance + accuracy <= radius) return 'inside';
+  if (distance - accuracy > radius) return 'outside';
+  return 'uncertain';
+};
+
+/**
+ * Formats a distance for display.
+ * Example output: "45 m", "1.2 km"
+ *
+ * @param meters - The distance in meters.
+ * @returns The formatted distance.
+ */
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+export {
+  DEFAULT_GEOFENCE_RADIUS,
+  formatDistance,
+  GEOFENCE_RADIUS_OPTIONS,
+  getDistance,
+  getGeofenceStatus,
+};
+export type { GeofenceStatus };
@@ -0,0 +1,139 @@
+/**
+ * Location integrity checks for attendance marking.
+ *
+ * A single GPS fix is easy to fake and often inaccurate indoors, so attendance uses several fixes
+ * instead. Readings with poor accuracy are discarded, mocked locations are flagged where the
+ * platform exposes it (Android only), and samples that jump further apart than anyone could
+ * travel are flagged. A flagged reading is not submitted; otherwise the report is sent with the
+ * attendance request so the server can make the final call.
+ *
+ * @example
+ * ```typescript
+ * const { location, accuracy, report } = await sampleLocation();
+ * if (!isReliableLocation(report)) Alert.alert('Refresh your location');
+ * ```
+ */
+import * as ExpoLocation from 'expo-location';
+import { getDistance } from '~/lib/geofence';
+import { Location, LocationIntegrityFlag, LocationIntegrityReport } from '~/types/app';
+
+const LOCATION_SAMPLE_COUNT = 3;
+const SAMPLE_INTERVAL_MS = 1000;
+
+/**
+ * Fixes less accurate than this (in meters) are discarded, and a reading with none better is not
+ * submitted.
+ */
+const MAX_ACCEPTABLE_ACCURACY = 50;
+
+/**
+ * Apparent movement faster than this (in meters per second, ~180 km/h) between fixes is treated
+ * as a spoofed or glitched location.
+ */
+const MAX_PLAUSIBLE_SPEED = 50;
+
+/**
+ * A location reading together with its integrity report.
+ * @property location - The most accurate accepted fix.
+ * @property accuracy - Accuracy of `location` in meters, or null when the platform doesn't report it.
+ * @property report - The integrity report to send with the attendance request.
+ */
+interface SampledLocation {
+  location: Location;
+  accuracy: number | null;
+  report: LocationIntegrityReport;
+}
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const toLocation = ({ coords }: ExpoLocation.LocationObject): Location => ({
+  latitude: coords.latitude,
+  longitude: coords.longitude,
+});
+
+const accuracyOf = (sample: ExpoLocation.LocationObject) =>
+  sample.coords.accuracy ?? Number.POSITIVE_INFINITY;
+
+/**
+ * Fastest apparent speed between consecutive samples, in meters per second.
+ */
+const getMaxSpeed = (samples: ExpoLocation.LocationObject[]) =>
+  samples.slice(1).reduce((max, sample, index) => {
+    const previous = samples[index];
+    const seconds = Math.max((sample.timestamp - previous.timestamp) / 1000, 1);
+    const distance = getDistance(toLocation(previous), toLocation(sample));
+    return Math.max(max, distance / seconds);
+  }, 0);
+
+/**
+ * Picks the best of several fixes and summarizes how trustworthy they are.
+ *
+ * @param samples - The fixes taken, at least one.
+ * @returns The best fix and its integrity report.
+ */
+const summarizeSamples = (samples: ExpoLocation.LocationObject[]): SampledLocation => {
+  const accepted = samples.filter((sample) => accuracyOf(sample) <= MAX_ACCEPTABLE_ACCURACY);
+  const best = (accepted.length > 0 ? accepted : samples).reduce((a, b) =>
+    accuracyOf(b) < accuracyOf(a) ? b : a
+  );
+  const maxSpeed = getMaxSpeed(samples);
+
+  const flags: LocationIntegrityFlag[] = [];
+  if (samples.some((sample) => sample.mocked)) flags.push('MOCKED');
+  if (accepted.length === 0) flags.push('LOW_ACCURACY');
+  if (maxSpeed > MAX_PLAUSIBLE_SPEED) flags.push('IMPLAUSIBLE_JUMP');
+
+  return {
+    location: toLocation(best),
+    accuracy: best.coords.accuracy,
+    report: {
+      sampleCount: samples.length,
+      acceptedCount: accepted.length,
+      accuracy: best.coords.accuracy,
+      maxSpeed: Math.round(maxSpeed * 10) / 10,
+      flags,
+    },
+  };
+};
+
+/**
+ * Checks whether a reading may be submitted: not mocked, accurate to within
+ * `MAX_ACCEPTABLE_ACCURACY`, and without implausible jumps between fixes.
+ *
+ * @param report - The reading's integrity report.
+ */
+const isReliableLocation = (report: LocationIntegrityReport) => report.flags.length === 0;
+
+/**
+ * Takes several location fixes and summarizes how trustworthy they are.
+ * Location permission must already be granted.
+ *
+ * @param sampleCount - How many fixes to take.
+ * @returns The best fix and its integrity report.
+ * @throws Error if no fix could be taken.
+ */
+const sampleLocation = async (
+  sampleCount: number = LOCATION_SAMPLE_COUNT
+): Promise<SampledLocation> => {
+  const samples: ExpoLocation.LocationObject[] = [];
+
+  for (let i = 0; i < sampleCount; i++) {
+    if (i > 0) await wait(SAMPLE_INTERVAL_MS);
+    try {
+      samples.push(
+        await ExpoLocation.getCurrentPositionAsync({ accuracy: ExpoLocation.Accuracy.Highest })
+      );
+    } catch {
+      // One failed fix is not fatal as long as another succeeds
+    }
+  }
+
+  if (samples.length === 0) {
+    throw new Error('Failed to get location');
+  }
+
+  return summarizeSamples(samples);
+};
+
+export { isReliableLocation, MAX_ACCEPTABLE_ACCURACY, sampleLocation, summarizeSamples };
+export type { SampledLocation };
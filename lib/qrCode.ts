@@ -0,0 +1,51 @@
+/**
+ * Encoding of session check-in QR codes.
+ *
+ * Lecturers display a rotating token from the server as a QR code; students scan it and submit the
+ * token with their attendance. The payload also carries the session so the scanner can select the
+ * right session. Expiry is left to the server: a student's clock may be a few seconds off, and a
+ * code that has already rotated (e.g. an old screenshot) is refused when the attendance is marked.
+ */
+import { QrToken } from '~/types/app';
+
+const QR_PAYLOAD_PREFIX = 'unitrack:checkin:';
+
+/**
+ * A check-in code read by the scanner.
+ * @property sessionId - The session the code belongs to.
+ * @property token - The token to submit with the attendance request.
+ */
+interface ScannedQrCode {
+  sessionId: number;
+  token: string;
+}
+
+/**
+ * Encodes a check-in token as the string shown in the QR code.
+ *
+ * @param qrToken - The token issued by the server.
+ * @returns The QR payload.
+ */
+const encodeQrPayload = ({ sessionId, token }: QrToken) =>
+  `${QR_PAYLOAD_PREFIX}${JSON.stringify({ s: sessionId, t: token })}`;
+
+/**
+ * Decodes a scanned QR payload.
+ *
+ * @param data - The raw string read by the camera.
+ * @returns The check-in code, or null if the QR code is not a Unitrack check-in code.
+ */
+const parseQrPayload = (data: string): ScannedQrCode | null => {
+  if (!data.startsWith(QR_PAYLOAD_PREFIX)) return null;
+
+  try {
+    const { s, t } = JSON.parse(data.slice(QR_PAYLOAD_PREFIX.length));
+    if (typeof s !== 'number' || typeof t !== 'string') return null;
+    return { sessionId: s, token: t };
+  } catch {
+    return null;
+  }
+};
+
+export { encodeQrPayload, parseQrPayload };
+export type { ScannedQrCode };
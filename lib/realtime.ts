@@ -0,0 +1,176 @@
+/**
+ * Realtime updates for a single session over a WebSocket, with a polling fallback.
+ *
+ * The server pushes `SessionEvent`s (students joining or checking out, the session closing, being
+ * extended or reopened) on `/ws/sessions/{id}`. Events are validated and applied to `useApiStore`, so every screen showing
+ * the session updates without re-fetching all active sessions. When the socket cannot be kept
+ * open, the session is polled instead and the socket is retried periodically.
+ *
+ * @example
+ * ```typescript
+ * const status = useSessionUpdates(session.id, isSessionOpen(session));
+ * ```
+ */
+import Constants from 'expo-constants';
+import { useEffect, useState } from 'react';
+import { validateSessionEvent } from '~/lib/validators';
+import { useApiStore } from '~/store/apiStore';
+import { useAuthStore } from '~/store/authStore';
+import { RealtimeStatus, SessionEvent } from '~/types/app';
+
+const API_BASE_URL: string = Constants.expoConfig?.extra?.API_BASE_URL ?? '';
+
+/**
+ * Reconnect attempts before falling back to polling.
+ */
+const MAX_RECONNECT_ATTEMPTS = 3;
+
+/**
+ * How often to poll while the socket is unavailable.
+ */
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * How long to poll before trying the socket again.
+ */
+const LIVE_RETRY_MS = 60 * 1000;
+
+/**
+ * React Native's WebSocket, which accepts request headers as a third argument. The DOM typings
+ * loaded alongside it only declare the browser constructor.
+ */
+const NativeWebSocket = WebSocket as unknown as new (
+  url: string,
+  protocols: string | string[] | undefined,
+  options: { headers: Record<string, string> }
+) => WebSocket;
+
+/**
+ * Builds the WebSocket URL for a session's event channel.
+ *
+ * @param sessionId - The session to subscribe to.
+ */
+const getSessionSocketUrl = (sessionId: number) =>
+  `${API_BASE_URL.replace(/^http/, 'ws')}/ws/sessions/${sessionId}`;
+
+/**
+ * Opens the realtime channel for a session, reconnecting with exponential backoff.
+ *
+ * @param sessionId - The session to subscribe to.
+ * @param handlers.onEvent - Called with every valid event; malformed messages are dropped.
+ * @param handlers.onStatusChange - Called whenever the channel changes state.
+ * @returns A function that closes the channel.
+ */
+const subscribeToSession = (
+  sessionId: number,
+  {
+    onEvent,
+    onStatusChange,
+  }: {
+    onEvent: (event: SessionEvent) => void;
+    onStatusChange: (status: RealtimeStatus) => void;
+  }
+) => {
+  let socket: WebSocket | null = null;
+  let attempts = 0;
+  let isUnsubscribed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const connect = () => {
+    const token = useAuthStore.getState().token;
+    if (!token) {
+      onStatusChange('polling');
+      return;
+    }
+
+    onStatusChange('connecting');
+    // Sent as a header rather than in the URL, which ends up in proxy and server logs
+    socket = new NativeWebSocket(getSessionSocketUrl(sessionId), undefined, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    socket.onopen = () => {
+      attempts = 0;
+      onStatusChange('live');
+    };
+
+    socket.onmessage = (message) => {
+      try {
+        const event = validateSessionEvent(JSON.parse(message.data), 'event');
+        if (event.sessionId === sessionId) onEvent(event);
+      } catch {
+        // Malformed events are dropped; the next poll or event brings the session up to date
+      }
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      if (isUnsubscribed) return;
+
+      if (attempts >= MAX_RECONNECT_ATTEMPTS) {
+        onStatusChange('polling');
+        reconnectTimer = setTimeout(() => {
+          attempts = 0;
+          connect();
+        }, LIVE_RETRY_MS);
+        return;
+      }
+
+      const delay = Math.min(30000, 1000 * 2 ** attempts++);
+      reconnectTimer = setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+
+  return () => {
+    isUnsubscribed = true;
+    clearTimeout(reconnectTimer);
+    socket?.close();
+  };
+};
+
+/**
+ * React hook that keeps a session up to date in `useApiStore` while `enabled` is true.
+ * Uses the realtime channel when available and polls active sessions otherwise.
+ *
+ * @param sessionId - The session to follow.
+ * @param enabled - Whether updates are expected (e.g. false once the session has closed).
+ * @returns The state of the channel.
+ */
+const useSessionUpdates = (sessionId: number, enabled: boolean): RealtimeStatus => {
+  const [status, setStatus] = useState<RealtimeStatus>(enabled ? 'connecting' : 'closed');
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('closed');
+      return;
+    }
+
+    return subscribeToSession(sessionId, {
+      onEvent: (event) => useApiStore.getState().applySessionEvent(event),
+      onStatusChange: setStatus,
+    });
+  }, [sessionId, enabled]);
+
+  useEffect(() => {
+    if (status !== 'live' && status !== 'polling') return;
+
+    const controller = new AbortController();
+    const refresh = () =>
+      useApiStore.getState().fetchActiveSessions({ force: true, signal: controller.signal });
+
+    // Catch up on anything missed while connecting, then keep polling if there is no socket
+    refresh();
+    const interval = status === 'polling' ? setInterval(refresh, POLL_INTERVAL_MS) : undefined;
+
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [status]);
+
+  return status;
+};
+
+export { subscribeToSession, useSessionUpdates };
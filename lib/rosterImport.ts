@@ -0,0 +1,125 @@
+/**
+ * Helpers for importing a course roster from a CSV file.
+ *
+ * The lecturer picks a CSV exported from the school's records system, maps its columns to the
+ * roster fields (a mapping is guessed from the header row), and checks a preview of the rows that
+ * will be imported before committing. Rows with an invalid index number or email, or that repeat a
+ * student already in the file or on the roster, are skipped.
+ */
+import { validateIndexNumber } from '~/lib/utils';
+import {
+  RosterEntry,
+  RosterImportField,
+  RosterImportIssue,
+  RosterImportMapping,
+  RosterImportPreview,
+} from '~/types/app';
+
+/**
+ * The fields that can be mapped, in display order. Only the index number and name are required.
+ */
+const ROSTER_IMPORT_FIELDS: { field: RosterImportField; label: string; required: boolean }[] = [
+  { field: 'indexNumber', label: 'Index Number', required: true },
+  { field: 'name', label: 'Name', required: true },
+  { field: 'email', label: 'Email', required: false },
+  { field: 'program', label: 'Program', required: false },
+];
+
+// Header names (lower-cased, letters only) recognised for each field
+const HEADER_ALIASES: Record<RosterImportField, string[]> = {
+  indexNumber: ['indexnumber', 'indexno', 'index', 'studentid', 'studentnumber'],
+  name: ['name', 'fullname', 'studentname'],
+  email: ['email', 'emailaddress', 'mail'],
+  program: ['program', 'programme', 'programname'],
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Guesses which column holds each field from a CSV header row.
+ *
+ * @param headers - The header row.
+ * @returns The guessed mapping; fields with no matching header are left unmapped.
+ */
+const guessRosterMapping = (headers: string[]): RosterImportMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const findColumn = (field: RosterImportField) => {
+    const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    indexNumber: findColumn('indexNumber'),
+    name: findColumn('name'),
+    email: findColumn('email'),
+    program: findColumn('program'),
+  };
+};
+
+/**
+ * Checks whether every required field is mapped to a column.
+ *
+ * @param mapping - The column mapping.
+ * @returns True if the roster can be previewed.
+ */
+const isRosterMappingComplete = (mapping: RosterImportMapping) =>
+  ROSTER_IMPORT_FIELDS.every(({ field, required }) => !required || mapping[field] !== null);
+
+/**
+ * Reads the data rows of a roster CSV with a column mapping, sorting them into rows to import,
+ * invalid rows and duplicates.
+ *
+ * @param dataRows - The CSV rows after the header row.
+ * @param mapping - The column mapping.
+ * @param roster - (Optional) The course's current roster; students on it count as duplicates.
+ * @returns The import preview.
+ */
+const previewRosterImport = (
+  dataRows: string[][],
+  mapping: RosterImportMapping,
+  roster: RosterEntry[] = []
+): RosterImportPreview => {
+  const enrolled = new Set(roster.map((student) => student.IndexNumber.toUpperCase()));
+  const seen = new Map<string, number>();
+  const preview: RosterImportPreview = { rows: [], errors: [], duplicates: [] };
+
+  const read = (row: string[], field: RosterImportField) => {
+    const column = mapping[field];
+    return column === null ? '' : (row[column] ?? '').trim();
+  };
+
+  dataRows.forEach((row, index) => {
+    const line = index + 2; // 1-based, after the header row
+    const indexNumber = read(row, 'indexNumber').toUpperCase();
+    const name = read(row, 'name');
+    const email = read(row, 'email');
+    const issue = (message: string): RosterImportIssue => ({
+      line,
+      indexNumber: indexNumber || undefined,
+      message,
+    });
+
+    if (!indexNumber) {
+      preview.errors.push(issue('Missing index number'));
+    } else if (!validateIndexNumber(indexNumber)) {
+      preview.errors.push(issue('Index number must be in the format XX/XXX/XX/XXXX'));
+    } else if (!name) {
+      preview.errors.push(issue('Missing name'));
+    } else if (email && !EMAIL_REGEX.test(email)) {
+      preview.errors.push(issue(`Invalid email "${email}"`));
+    } else if (seen.has(indexNumber)) {
+      preview.duplicates.push(issue(`Same student as line ${seen.get(indexNumber)}`));
+    } else if (enrolled.has(indexNumber)) {
+      preview.duplicates.push(issue('Already enrolled'));
+    } else {
+      seen.set(indexNumber, line);
+      preview.rows.push({ indexNumber, name, email, program: read(row, 'program') });
+    }
+  });
+
+  return preview;
+};
+
+export { guessRosterMapping, isRosterMappingComplete, previewRosterImport, ROSTER_IMPORT_FIELDS };
@@ -0,0 +1,40 @@
+/**
+ * Helpers for academic semesters, which courses are archived under.
+ *
+ * The academic year starts in August: Semester 1 runs from August to December and Semester 2 from
+ * January to July, so "2025/2026 Semester 2" covers January to July 2026.
+ */
+
+/**
+ * Names the semester a date falls in.
+ * Example output: "2025/2026 Semester 1"
+ *
+ * @param date - (Optional) The date; defaults to now.
+ * @returns The semester label.
+ */
+const getSemesterLabel = (date: Date = new Date()) => {
+  const year = date.getFullYear();
+  return date.getMonth() >= 7 ? `${year}/${year + 1} Semester 1` : `${year - 1}/${year} Semester 2`;
+};
+
+const getSemesterStart = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth() >= 7 ? 7 : 0, 1);
+
+/**
+ * Lists the current semester and the ones before it, newest first.
+ *
+ * @param count - (Optional) How many semesters to list.
+ * @returns The semester labels.
+ */
+const getRecentSemesters = (count: number = 3) => {
+  const semesters: string[] = [];
+  let start = getSemesterStart(new Date());
+  while (semesters.length < count) {
+    semesters.push(getSemesterLabel(start));
+    // The day before a semester starts falls in the previous one
+    start = getSemesterStart(new Date(start.getFullYear(), start.getMonth(), 0));
+  }
+  return semesters;
+};
+
+export { getRecentSemesters, getSemesterLabel };
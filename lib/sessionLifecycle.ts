@@ -0,0 +1,94 @@
+/**
+ * Rules for ending, extending and reopening sessions.
+ *
+ * A session is open while it is 'ACTIVE' or 'REOPENED'. Lecturers can end an open session early,
+ * extend it when class runs over, and reopen a session that closed recently for a short grace
+ * window (e.g. for students who arrived as it closed). Sessions that require check-out let students
+ * check out during the last few minutes. The server enforces the same limits; these helpers only
+ * decide which controls to offer.
+ */
+import { Session } from '~/types/app';
+
+/**
+ * How long after closing a session can still be reopened.
+ */
+const REOPEN_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * How long (in minutes) a reopened session stays open.
+ */
+const REOPEN_GRACE_MINUTES = 10;
+
+/**
+ * Extensions (in minutes) offered for an open session.
+ */
+const EXTEND_OPTIONS = [5, 10, 15, 30];
+
+/**
+ * How long before the end students can check out.
+ */
+const CHECK_OUT_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Whether students can currently mark attendance for the session.
+ *
+ * @param session - The session to check.
+ * @returns `true` if the session is active or reopened.
+ */
+const isSessionOpen = (session: Pick<Session, 'status'>) =>
+  session.status === 'ACTIVE' || session.status === 'REOPENED';
+
+/**
+ * When a closed session stops being reopenable.
+ *
+ * @param session - The closed session.
+ * @returns The deadline as an ISO string.
+ */
+const getReopenDeadline = (session: Pick<Session, 'endTime'>) =>
+  new Date(new Date(session.endTime).getTime() + REOPEN_WINDOW_MS).toISOString();
+
+/**
+ * Whether a closed session is still within its reopen window.
+ *
+ * @param session - The session to check.
+ * @param now - (Optional) The current time in epoch milliseconds.
+ * @returns `true` if the session can be reopened.
+ */
+const canReopenSession = (session: Pick<Session, 'status' | 'endTime'>, now = Date.now()) =>
+  session.status === 'CLOSED' && now < new Date(getReopenDeadline(session)).getTime();
+
+/**
+ * When students can start checking out of a session.
+ *
+ * @param session - The session.
+ * @returns The time check-out opens as an ISO string.
+ */
+const getCheckOutOpensAt = (session: Pick<Session, 'endTime'>) =>
+  new Date(new Date(session.endTime).getTime() - CHECK_OUT_WINDOW_MS).toISOString();
+
+/**
+ * Whether students can currently check out of the session.
+ *
+ * @param session - The session to check.
+ * @param now - (Optional) The current time in epoch milliseconds.
+ * @returns `true` if the session requires check-out, is open and is within its check-out window.
+ */
+const isCheckOutOpen = (
+  session: Pick<Session, 'status' | 'endTime' | 'requiresCheckOut'>,
+  now = Date.now()
+) =>
+  session.requiresCheckOut &&
+  isSessionOpen(session) &&
+  now >= new Date(getCheckOutOpensAt(session)).getTime();
+
+export {
+  canReopenSession,
+  CHECK_OUT_WINDOW_MS,
+  EXTEND_OPTIONS,
+  getCheckOutOpensAt,
+  getReopenDeadline,
+  isCheckOutOpen,
+  isSessionOpen,
+  REOPEN_GRACE_MINUTES,
+  REOPEN_WINDOW_MS,
+};
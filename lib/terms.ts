@@ -0,0 +1,84 @@
+/**
+ * Helpers for academic terms.
+ *
+ * Lists and statistics are scoped to one term at a time: courses by the term they are bound to,
+ * and sessions and attendance by the term their date falls in. A null term means "all terms", so
+ * every helper lets everything through when given one.
+ */
+import { Course, Term, TermSelection } from '~/types/app';
+
+// Term dates are calendar days, so read them in local time rather than as UTC midnight
+const getTermStart = (term: Term) => new Date(`${term.startDate.slice(0, 10)}T00:00:00`);
+
+const getTermEnd = (term: Term) => new Date(`${term.endDate.slice(0, 10)}T23:59:59.999`);
+
+/**
+ * Finds the term a date falls in. Between terms, the latest term that has started is used; before
+ * the first term, the first one.
+ *
+ * @param terms - The terms to choose from.
+ * @param now - (Optional) The date; defaults to now.
+ * @returns The current term, or null if there are no terms.
+ */
+const getCurrentTerm = (terms: Term[], now: Date = new Date()): Term | null => {
+  const sorted = [...terms].sort((a, b) => getTermStart(a).getTime() - getTermStart(b).getTime());
+  const started = sorted.filter((term) => getTermStart(term) <= now);
+  return started.at(-1) ?? sorted[0] ?? null;
+};
+
+/**
+ * Turns a term selection into the term it refers to.
+ *
+ * @param terms - The known terms.
+ * @param selection - The selection.
+ * @returns The selected term, or null for all terms. A selected term that no longer exists falls
+ *   back to the current term.
+ */
+const resolveTermSelection = (terms: Term[], selection: TermSelection): Term | null => {
+  if (selection === 'ALL') return null;
+  if (selection !== 'CURRENT') {
+    const term = terms.find((candidate) => candidate.id === selection);
+    if (term) return term;
+  }
+  return getCurrentTerm(terms);
+};
+
+/**
+ * Checks whether a date falls within a term.
+ *
+ * @param dateString - The date (ISO string).
+ * @param term - The term, or null for all terms.
+ * @returns True if the date is in the term.
+ */
+const isDateInTerm = (dateString: string, term: Term | null) => {
+  if (!term) return true;
+
+  const date = new Date(dateString);
+  return date >= getTermStart(term) && date <= getTermEnd(term);
+};
+
+/**
+ * Checks whether a course is taught in a term. Courses not bound to a term are in every term.
+ *
+ * @param course - The course.
+ * @param term - The term, or null for all terms.
+ * @returns True if the course is in the term.
+ */
+const isCourseInTerm = (course: Course, term: Term | null) =>
+  !term || course.termId === undefined || course.termId === term.id;
+
+/**
+ * Formats a term's dates for display.
+ * Example output: "Aug 11, 2025 – Dec 19, 2025"
+ *
+ * @param term - The term.
+ * @returns The formatted date range.
+ */
+const formatTermDates = (term: Term) => {
+  const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
+  return `${getTermStart(term).toLocaleDateString('en-US', options)} – ${getTermEnd(
+    term
+  ).toLocaleDateString('en-US', options)}`;
+};
+
+export { formatTermDates, getCurrentTerm, isCourseInTerm, isDateInTerm, resolveTermSelection };
@@ -0,0 +1,64 @@
+/**
+ * Helpers for weekly timetable slots.
+ *
+ * Slots store the day of the week and a local "HH:mm" start time; the server turns every
+ * occurrence into a scheduled session. These helpers format slots and work out when the next
+ * occurrence is so the course screen can show what is coming up.
+ */
+import { TimetableSlot } from '~/types/app';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Session lengths (in minutes) offered when adding a slot.
+ */
+const SLOT_DURATION_OPTIONS = [60, 90, 120, 180];
+
+const parseTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return { hours, minutes };
+};
+
+/**
+ * Formats a `Date`'s local time as "HH:mm", the format slots are stored in.
+ *
+ * @param date - The date to take the time from.
+ * @returns The time string.
+ */
+const toSlotTime = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+/**
+ * Formats a slot for display.
+ * Example output: "Monday · 09:00 – 10:30"
+ *
+ * @param slot - The slot to format.
+ * @returns The formatted slot.
+ */
+const formatSlot = ({ dayOfWeek, startTime, durationMinutes }: TimetableSlot) => {
+  const { hours, minutes } = parseTime(startTime);
+  const end = new Date();
+  end.setHours(hours, minutes + durationMinutes, 0, 0);
+  return `${DAY_NAMES[dayOfWeek]} · ${startTime} – ${toSlotTime(end)}`;
+};
+
+/**
+ * Finds when a slot next starts. An occurrence that is still in progress counts as the next one.
+ *
+ * @param slot - The slot.
+ * @param now - (Optional) The current time.
+ * @returns The start of the next occurrence.
+ */
+const getNextOccurrence = (slot: TimetableSlot, now: Date = new Date()) => {
+  const { hours, minutes } = parseTime(slot.startTime);
+  const next = new Date(now);
+  next.setDate(now.getDate() + ((slot.dayOfWeek - now.getDay() + 7) % 7));
+  next.setHours(hours, minutes, 0, 0);
+
+  if (next.getTime() + slot.durationMinutes * 60 * 1000 <= now.getTime()) {
+    next.setDate(next.getDate() + 7);
+  }
+  return next;
+};
+
+export { DAY_NAMES, formatSlot, getNextOccurrence, SLOT_DURATION_OPTIONS, toSlotTime };
@@ -1,6 +1,7 @@
 import { router } from 'expo-router';
 import { useEffect } from 'react';
 import { useAuthStore } from '~/store/authStore';
+import { Attendance, AttendanceOverride } from '~/types/app';
 
 /**
  * Formats a date string for CSV export in a clean format.
@@ -63,6 +64,66 @@ const escapeCSVField = (field: string | number | null | undefined): string => {
   return stringField;
 };
 
+/**
+ * Parses CSV text into rows of fields, the inverse of `escapeCSVField`.
+ * Handles quoted fields (with escaped quotes and line breaks), CRLF line endings and a leading
+ * byte order mark. Blank lines are skipped.
+ *
+ * @param text - The CSV text.
+ * @returns The rows, each an array of field values.
+ */
+const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+/**
+ * Checks that an index number has the "XX/XXX/XX/XXXX" format, e.g. "PS/CSC/21/0001".
+ *
+ * @param indexNumber - The index number to check.
+ * @returns True if the index number is well formed.
+ */
+const validateIndexNumber = (indexNumber: string) =>
+  /^[A-Za-z]{2}\/[A-Za-z]{3}\/\d{2}\/\d{4}$/.test(indexNumber);
+
 /**
  * Formats a date string into a human-readable date and time string.
  * Example output: "Jan 1, 2024, 10:30 AM"
@@ -140,9 +201,10 @@ const formatDateTime = (dateString: string) => {
  * Checks if a given JWT token is expired.
  *
  * @param token - The JWT token string to check.
+ * @param leewaySeconds - Treat the token as expired this many seconds before its actual expiry.
  * @returns `true` if the token is expired or invalid, otherwise `false`.
  */
-const isJWTExpired = (token: string | null): boolean => {
+const isJWTExpired = (token: string | null, leewaySeconds: number = 0): boolean => {
   try {
     if (!token) {
       throw new Error('Token is null or undefined');
@@ -159,7 +221,7 @@ const isJWTExpired = (token: string | null): boolean => {
       throw new Error('No expiration time found in token');
     }
     const currentTime = Math.floor(Date.now() / 1000);
-    return payload.exp < currentTime;
+    return payload.exp < currentTime + leewaySeconds;
   } catch (error) {
     //TODO: Remove console.error in production
     console.error('Error checking JWT expiration:', error);
@@ -173,6 +235,7 @@ const isJWTExpired = (token: string | null): boolean => {
 const logoutAndRedirect = () => {
   useAuthStore.setState({
     token: null,
+    refreshToken: null,
     user: null,
     role: null,
     resMessage: null,
@@ -183,28 +246,34 @@ const logoutAndRedirect = () => {
 };
 
 /**
- * React hook that watches a JWT token and logs out the user if the token expires.
- * Checks token expiration on mount and every 10 seconds.
+ * React hook that watches a JWT token and refreshes it shortly before it expires.
+ * The user is only logged out when the token has expired and the server rejects the refresh.
+ * Checks token expiration on mount and every minute.
  *
  * @param token - The JWT token string to watch.
  */
 
 const useTokenWatcher = (token: string | null) => {
   useEffect(() => {
-    // Initial check on mount
-    if (token && isJWTExpired(token)) {
-      logoutAndRedirect();
-    }
+    const checkToken = async () => {
+      // Refresh up to two minutes early so requests never go out with a stale token
+      if (!token || !isJWTExpired(token, 120)) return;
 
-    // Periodically check token every 10 seconds
-    const interval = setInterval(
-      () => {
-        if (token && isJWTExpired(token)) {
+      try {
+        const refreshed = await useAuthStore.getState().refreshSession();
+        if (!refreshed && isJWTExpired(token)) {
           logoutAndRedirect();
         }
-      },
-      1000 * 60 * 10
-    ); // 10 minutes
+      } catch {
+        // The refresh could not reach the server; try again on the next check
+      }
+    };
+
+    // Initial check on mount
+    checkToken();
+
+    // Periodically check token every minute
+    const interval = setInterval(checkToken, 1000 * 60);
 
     return () => clearInterval(interval); // Clean up
   }, [token]);
@@ -354,6 +423,19 @@ export const filterAttendanceByStudent = (
   });
 };
 
+/**
+ * Finds the lecturer's latest manual override for a student in a session's attendance.
+ *
+ * @param attendance - The session's attendance record.
+ * @param email - The student's email.
+ * @returns The latest override for the student, or undefined if their entry is self-marked.
+ */
+const getAttendanceOverride = (
+  attendance: Attendance,
+  email: string
+): AttendanceOverride | undefined =>
+  attendance.overrides.filter((override) => override.student.email === email).at(-1);
+
 export {
   escapeCSVField,
   formatDate,
@@ -362,6 +444,10 @@ export {
   formatDateTime,
   formatTime,
   formatTimeForCSV,
+  getAttendanceOverride,
   isJWTExpired,
+  logoutAndRedirect,
+  parseCSV,
   useTokenWatcher,
+  validateIndexNumber,
 };
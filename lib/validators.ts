@@ -0,0 +1,486 @@
+/**
+ * Runtime validation of API responses.
+ *
+ * The store runs every payload through these validators before it is cached, so malformed data is
+ * rejected at the boundary with a descriptive error instead of crashing a screen later on. Malformed
+ * items of a list are dropped (and reported) so the rest of the list still shows. Optional fields
+ * the UI relies on (e.g. `Session.attendance.studentList`) are normalized to safe defaults.
+ *
+ * @example
+ * ```typescript
+ * const courses = validateList(validateCourse)(await api.get('/api/v1/courses'), 'courses');
+ * ```
+ */
+import { DEFAULT_LATE_THRESHOLD_MINUTES } from '~/lib/attendanceUtils';
+import { DEFAULT_GEOFENCE_RADIUS } from '~/lib/geofence';
+import {
+  AbsenceJustification,
+  Attendance,
+  AttendanceEntry,
+  AttendanceOverride,
+  Course,
+  CourseStaffMember,
+  CourseStaffRole,
+  Department,
+  departmentName,
+  Lecturer,
+  Location,
+  Page,
+  QrToken,
+  RosterEntry,
+  RosterImportResult,
+  Session,
+  SessionEvent,
+  Student,
+  Term,
+  TimetableSlot,
+} from '~/types/app';
+import { User } from '~/types/auth';
+
+/**
+ * Validates (and normalizes) an unknown value, naming `path` in the error when it is malformed.
+ */
+type Validator<T> = (value: unknown, path: string) => T;
+
+const DEPARTMENT_NAMES: departmentName[] = ['Art', 'Science', 'Economics', 'Law'];
+
+/**
+ * Error thrown when an API payload does not match the expected shape.
+ * @property path - Where in the payload the problem is, e.g. "sessions[2].course.courseCode".
+ */
+class ValidationError extends Error {
+  path: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    super(`Invalid ${path}: expected ${expected} but got ${describe(value)}`);
+    this.name = 'ValidationError';
+    this.path = path;
+  }
+}
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  return typeof value === 'object' ? 'an object' : String(value);
+};
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const asRecord = (value: unknown, path: string): Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError(path, 'an object', value);
+  }
+  return value as Record<string, unknown>;
+};
+
+const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new ValidationError(path, 'a string', value);
+  return value;
+};
+
+const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new ValidationError(path, 'a number', value);
+  }
+  return value;
+};
+
+const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new ValidationError(path, 'a boolean', value);
+  return value;
+};
+
+const oneOf =
+  <T extends string>(...options: T[]): Validator<T> =>
+  (value, path) => {
+    if (!options.includes(value as T)) {
+      throw new ValidationError(path, `one of ${options.join(', ')}`, value);
+    }
+    return value as T;
+  };
+
+/**
+ * Accepts a missing (undefined or null) value, replacing it with `fallback`.
+ */
+const withDefault =
+  <T>(validator: Validator<T>, fallback: T): Validator<T> =>
+  (value, path) =>
+    isMissing(value) ? fallback : validator(value, path);
+
+const optional =
+  <T>(validator: Validator<T>): Validator<T | undefined> =>
+  (value, path) =>
+    isMissing(value) ? undefined : validator(value, path);
+
+/**
+ * Validates an array, checking every item with `item`. Items that fail validation are dropped
+ * instead of failing the whole list.
+ */
+const validateList =
+  <T>(item: Validator<T>): Validator<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw new ValidationError(path, 'an array', value);
+    return value.flatMap((entry, index) => {
+      try {
+        return [item(entry, `${path}[${index}]`)];
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        return [];
+      }
+    });
+  };
+
+/**
+ * Validates a paginated response, checking every item on the page with `item`.
+ */
+const validatePage =
+  <T>(item: Validator<T>): Validator<Page<T>> =>
+  (value, path) => {
+    const page = asRecord(value, path);
+    const content = validateList(item)(page.content, `${path}.content`);
+    const pageNumber = withDefault(number, 0)(page.number, `${path}.number`);
+    const totalPages = withDefault(number, 1)(page.totalPages, `${path}.totalPages`);
+
+    return {
+      content,
+      number: pageNumber,
+      size: withDefault(number, content.length)(page.size, `${path}.size`),
+      totalPages,
+      totalElements: withDefault(number, content.length)(
+        page.totalElements,
+        `${path}.totalElements`
+      ),
+      last: typeof page.last === 'boolean' ? page.last : pageNumber + 1 >= totalPages,
+    };
+  };
+
+const validateLocation: Validator<Location> = (value, path) => {
+  const location = asRecord(value, path);
+  return {
+    latitude: number(location.latitude, `${path}.latitude`),
+    longitude: number(location.longitude, `${path}.longitude`),
+  };
+};
+
+const validateCourseStaffMember: Validator<CourseStaffMember> = (value, path) => {
+  const member = asRecord(value, path);
+  return {
+    id: number(member.id, `${path}.id`),
+    email: string(member.email, `${path}.email`),
+    firstName: string(member.firstName, `${path}.firstName`),
+    lastName: string(member.lastName, `${path}.lastName`),
+    role: oneOf<CourseStaffRole>('OWNER', 'CO_LECTURER', 'TA')(member.role, `${path}.role`),
+  };
+};
+
+const validateCourse: Validator<Course> = (value, path) => {
+  const course = asRecord(value, path);
+  return {
+    courseName: string(course.courseName, `${path}.courseName`),
+    courseCode: string(course.courseCode, `${path}.courseCode`),
+    lecturerId: number(course.lecturerId, `${path}.lecturerId`),
+    department: withDefault(string, '')(course.department, `${path}.department`),
+    lateThresholdMinutes: optional(number)(
+      course.lateThresholdMinutes,
+      `${path}.lateThresholdMinutes`
+    ),
+    minimumPresencePercent: optional(number)(
+      course.minimumPresencePercent,
+      `${path}.minimumPresencePercent`
+    ),
+    studentCount: optional(number)(course.studentCount, `${path}.studentCount`),
+    enrolledAt: optional(string)(course.enrolledAt, `${path}.enrolledAt`),
+    sessionCount: optional(number)(course.sessionCount, `${path}.sessionCount`),
+    archivedAt: optional(string)(course.archivedAt, `${path}.archivedAt`),
+    archivedSemester: optional(string)(course.archivedSemester, `${path}.archivedSemester`),
+    termId: optional(number)(course.termId, `${path}.termId`),
+    staff: optional(validateList(validateCourseStaffMember))(course.staff, `${path}.staff`),
+  };
+};
+
+const validateDepartment: Validator<Department> = (value, path) => {
+  const department = asRecord(value, path);
+  return {
+    id: number(department.id, `${path}.id`),
+    departmentName: oneOf(...DEPARTMENT_NAMES)(department.departmentName, `${path}.departmentName`),
+    users: withDefault(validateList(validateUser), [])(department.users, `${path}.users`),
+    courses: withDefault(validateList(validateCourse), [])(department.courses, `${path}.courses`),
+  };
+};
+
+// Some endpoints send a lecturer's department by name only
+const validateLecturerDepartment: Validator<string | Department> = (value, path) =>
+  typeof value === 'string' ? value : validateDepartment(value, path);
+
+const validateStudent: Validator<Student> = (value, path) => {
+  const student = asRecord(value, path);
+  return {
+    username: string(student.username, `${path}.username`),
+    firstName: string(student.firstName, `${path}.firstName`),
+    lastName: string(student.lastName, `${path}.lastName`),
+    email: string(student.email, `${path}.email`),
+    program: withDefault(string, '')(student.program, `${path}.program`),
+    IndexNumber: withDefault(string, '')(student.IndexNumber, `${path}.IndexNumber`),
+    role: withDefault(string, 'STUDENT')(student.role, `${path}.role`),
+  };
+};
+
+const validateRosterEntry: Validator<RosterEntry> = (value, path) => {
+  const entry = asRecord(value, path);
+  return {
+    ...validateStudent(value, path),
+    enrolledAt: string(entry.enrolledAt, `${path}.enrolledAt`),
+  };
+};
+
+const validateRosterImportResult: Validator<RosterImportResult> = (value, path) => {
+  const result = asRecord(value, path);
+  return {
+    roster: validateList(validateRosterEntry)(result.roster, `${path}.roster`),
+    added: number(result.added, `${path}.added`),
+    unmatched: withDefault(validateList(string), [])(result.unmatched, `${path}.unmatched`),
+  };
+};
+
+const validateAttendanceEntry: Validator<AttendanceEntry> = (value, path) => {
+  const entry = asRecord(value, path);
+  return {
+    ...validateStudent(value, path),
+    checkedInAt: optional(string)(entry.checkedInAt, `${path}.checkedInAt`),
+    checkedOutAt: optional(string)(entry.checkedOutAt, `${path}.checkedOutAt`),
+  };
+};
+
+const validateAttendance: Validator<Attendance> = (value, path) => {
+  const attendance = asRecord(value, path);
+  return {
+    courseName: string(attendance.courseName, `${path}.courseName`),
+    date: string(attendance.date, `${path}.date`),
+    time: withDefault(string, '')(attendance.time, `${path}.time`),
+    lecturer: withDefault(string, '')(attendance.lecturer, `${path}.lecturer`),
+    lateThresholdMinutes: withDefault(number, DEFAULT_LATE_THRESHOLD_MINUTES)(
+      attendance.lateThresholdMinutes,
+      `${path}.lateThresholdMinutes`
+    ),
+    studentList: withDefault(validateList(validateAttendanceEntry), [])(
+      attendance.studentList,
+      `${path}.studentList`
+    ),
+    overrides: withDefault(validateList(validateAttendanceOverride), [])(
+      attendance.overrides,
+      `${path}.overrides`
+    ),
+    justifications: withDefault(validateList(validateAbsenceJustification), [])(
+      attendance.justifications,
+      `${path}.justifications`
+    ),
+  };
+};
+
+const validateAttendanceOverride: Validator<AttendanceOverride> = (value, path) => {
+  const override = asRecord(value, path);
+  return {
+    student: validateStudent(override.student, `${path}.student`),
+    status: oneOf<AttendanceOverride['status']>('PRESENT', 'ABSENT')(
+      override.status,
+      `${path}.status`
+    ),
+    reason: withDefault(string, '')(override.reason, `${path}.reason`),
+    createdAt: string(override.createdAt, `${path}.createdAt`),
+  };
+};
+
+const validateAbsenceJustification: Validator<AbsenceJustification> = (value, path) => {
+  const justification = asRecord(value, path);
+  return {
+    id: number(justification.id, `${path}.id`),
+    student: validateStudent(justification.student, `${path}.student`),
+    reason: string(justification.reason, `${path}.reason`),
+    attachmentName: optional(string)(justification.attachmentName, `${path}.attachmentName`),
+    attachmentUrl: optional(string)(justification.attachmentUrl, `${path}.attachmentUrl`),
+    status: oneOf<AbsenceJustification['status']>(
+      'PENDING',
+      'APPROVED',
+      'REJECTED'
+    )(justification.status, `${path}.status`),
+    reviewNote: optional(string)(justification.reviewNote, `${path}.reviewNote`),
+    createdAt: string(justification.createdAt, `${path}.createdAt`),
+    reviewedAt: optional(string)(justification.reviewedAt, `${path}.reviewedAt`),
+  };
+};
+
+const validateLecturer: Validator<Lecturer> = (value, path) => {
+  const lecturer = asRecord(value, path);
+  const id = number(lecturer.id, `${path}.id`);
+  const firstName = string(lecturer.firstName, `${path}.firstName`);
+  const lastName = string(lecturer.lastName, `${path}.lastName`);
+
+  return {
+    id,
+    lecturerId: withDefault(number, id)(lecturer.lecturerId, `${path}.lecturerId`),
+    username: string(lecturer.username, `${path}.username`),
+    firstName,
+    lastName,
+    email: string(lecturer.email, `${path}.email`),
+    role: withDefault(string, 'LECTURER')(lecturer.role, `${path}.role`),
+    name: withDefault(string, `${firstName} ${lastName}`)(lecturer.name, `${path}.name`),
+    department: optional(validateLecturerDepartment)(lecturer.department, `${path}.department`),
+    courses: withDefault(validateList(validateCourse), [])(lecturer.courses, `${path}.courses`),
+    sessions: withDefault(validateList(validateSession), [])(lecturer.sessions, `${path}.sessions`),
+    attendance: withDefault(validateList(validateAttendance), [])(
+      lecturer.attendance,
+      `${path}.attendance`
+    ),
+    location: optional(validateLocation)(lecturer.location, `${path}.location`),
+  };
+};
+
+const validateSession: Validator<Session> = (value, path) => {
+  const session = asRecord(value, path);
+  const startTime = string(session.startTime, `${path}.startTime`);
+  const course = validateCourse(session.course, `${path}.course`);
+  const lecturer = validateLecturer(session.lecturer, `${path}.lecturer`);
+  const lateThresholdMinutes = withDefault(
+    number,
+    course.lateThresholdMinutes ?? DEFAULT_LATE_THRESHOLD_MINUTES
+  )(session.lateThresholdMinutes, `${path}.lateThresholdMinutes`);
+  // Sessions nobody has attended yet may come without an attendance record
+  const attendance = withDefault(validateAttendance, {
+    courseName: course.courseName,
+    date: startTime,
+    time: '',
+    lecturer: lecturer.name,
+    lateThresholdMinutes,
+    studentList: [],
+    overrides: [],
+    justifications: [],
+  })(session.attendance, `${path}.attendance`);
+
+  return {
+    id: number(session.id, `${path}.id`),
+    status: oneOf<Session['status']>(
+      'SCHEDULED',
+      'ACTIVE',
+      'REOPENED',
+      'CLOSED'
+    )(session.status, `${path}.status`),
+    startTime,
+    endTime: string(session.endTime, `${path}.endTime`),
+    location: validateLocation(session.location, `${path}.location`),
+    radius: withDefault(number, DEFAULT_GEOFENCE_RADIUS)(session.radius, `${path}.radius`),
+    lateThresholdMinutes,
+    requiresCheckOut: withDefault(boolean, false)(
+      session.requiresCheckOut,
+      `${path}.requiresCheckOut`
+    ),
+    requiresQrCode: withDefault(boolean, false)(session.requiresQrCode, `${path}.requiresQrCode`),
+    lecturer,
+    course,
+    // The session's threshold wins, so lateness is judged the same way everywhere
+    attendance: { ...attendance, lateThresholdMinutes },
+  };
+};
+
+const validateSessionEvent: Validator<SessionEvent> = (value, path) => {
+  const event = asRecord(value, path);
+  const type = oneOf<SessionEvent['type']>(
+    'STUDENT_JOINED',
+    'STUDENT_CHECKED_OUT',
+    'SESSION_CLOSED',
+    'SESSION_EXTENDED',
+    'SESSION_REOPENED'
+  )(event.type, `${path}.type`);
+  const sessionId = number(event.sessionId, `${path}.sessionId`);
+
+  if (type === 'STUDENT_JOINED') {
+    return { type, sessionId, student: validateAttendanceEntry(event.student, `${path}.student`) };
+  }
+  if (type === 'STUDENT_CHECKED_OUT') {
+    return {
+      type,
+      sessionId,
+      username: string(event.username, `${path}.username`),
+      checkedOutAt: string(event.checkedOutAt, `${path}.checkedOutAt`),
+    };
+  }
+  return { type, sessionId, endTime: string(event.endTime, `${path}.endTime`) };
+};
+
+const validateQrToken: Validator<QrToken> = (value, path) => {
+  const qrToken = asRecord(value, path);
+  return {
+    sessionId: number(qrToken.sessionId, `${path}.sessionId`),
+    token: string(qrToken.token, `${path}.token`),
+    expiresAt: string(qrToken.expiresAt, `${path}.expiresAt`),
+  };
+};
+
+const validateTerm: Validator<Term> = (value, path) => {
+  const term = asRecord(value, path);
+  return {
+    id: number(term.id, `${path}.id`),
+    name: string(term.name, `${path}.name`),
+    startDate: string(term.startDate, `${path}.startDate`),
+    endDate: string(term.endDate, `${path}.endDate`),
+  };
+};
+
+const validateTimetableSlot: Validator<TimetableSlot> = (value, path) => {
+  const slot = asRecord(value, path);
+  const dayOfWeek = number(slot.dayOfWeek, `${path}.dayOfWeek`);
+  if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+    throw new ValidationError(`${path}.dayOfWeek`, 'a day from 0 to 6', dayOfWeek);
+  }
+  const startTime = string(slot.startTime, `${path}.startTime`);
+  if (!/^\d{2}:\d{2}/.test(startTime)) {
+    throw new ValidationError(`${path}.startTime`, 'a time as HH:mm', startTime);
+  }
+
+  return {
+    id: number(slot.id, `${path}.id`),
+    courseCode: string(slot.courseCode, `${path}.courseCode`),
+    dayOfWeek,
+    // The server may include seconds ("09:00:00")
+    startTime: startTime.slice(0, 5),
+    durationMinutes: number(slot.durationMinutes, `${path}.durationMinutes`),
+    location: validateLocation(slot.location, `${path}.location`),
+    radius: withDefault(number, DEFAULT_GEOFENCE_RADIUS)(slot.radius, `${path}.radius`),
+  };
+};
+
+const validateUser: Validator<User> = (value, path) => {
+  const user = asRecord(value, path);
+  return {
+    id: number(user.id, `${path}.id`),
+    username: string(user.username, `${path}.username`),
+    firstName: string(user.firstName, `${path}.firstName`),
+    lastName: string(user.lastName, `${path}.lastName`),
+    email: string(user.email, `${path}.email`),
+    role: oneOf<User['role']>('LECTURER', 'STUDENT', 'ADMIN')(user.role, `${path}.role`),
+    program: optional(string)(user.program, `${path}.program`),
+    IndexNumber: optional(string)(user.IndexNumber, `${path}.IndexNumber`),
+    department: optional(oneOf(...DEPARTMENT_NAMES))(user.department, `${path}.department`),
+  };
+};
+
+export {
+  validateAbsenceJustification,
+  validateAttendance,
+  validateAttendanceOverride,
+  validateCourse,
+  validateLecturer,
+  validateList,
+  validatePage,
+  validateQrToken,
+  validateRosterEntry,
+  validateRosterImportResult,
+  validateSession,
+  validateSessionEvent,
+  validateStudent,
+  validateTerm,
+  validateTimetableSlot,
+  validateUser,
+  ValidationError,
+};
+export type { Validator };
@@ -0,0 +1,126 @@
+import { api, ApiError } from '~/lib/apiClient';
+import { registerDevice } from '~/lib/device';
+import { useAttendanceQueueStore } from '~/store/attendanceQueueStore';
+import { useAuthStore } from '~/store/authStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () =>
+  jest.requireActual('@react-native-community/netinfo/jest/netinfo-mock')
+);
+jest.mock('~/lib/apiClient', () => ({
+  ...jest.requireActual('~/lib/apiClient'),
+  api: { post: jest.fn() },
+}));
+jest.mock('~/lib/device', () => ({
+  getAttendanceHeaders: jest.fn(() => ({})),
+  registerDevice: jest.fn(),
+}));
+jest.mock('~/store/apiStore', () => ({ useApiStore: { getState: jest.fn() } }));
+jest.mock('~/store/authStore', () => ({ useAuthStore: { getState: jest.fn() } }));
+
+const post = api.post as jest.Mock;
+const OWNER = 'student@university.edu';
+
+const queueMark = (sessionId: number, owner = OWNER) =>
+  useAttendanceQueueStore.getState().enqueue({
+    request: { sessionId, location: { latitude: 5.6, longitude: -0.2 } },
+    owner,
+    deviceId: 'device-1',
+    clientTimestamp: '2026-10-19T09:00:00.000Z',
+    signature: 'signature',
+    idempotencyKey: `key-${sessionId}`,
+  });
+
+const statuses = () => useAttendanceQueueStore.getState().items.map((item) => item.status);
+
+const apiError = (status: number, serverMessage?: string) =>
+  new ApiError({ status, endpoint: '/api/v1/attendance/mark', serverMessage });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  useAttendanceQueueStore.setState({ items: [], isSyncing: false });
+  (useAuthStore.getState as jest.Mock).mockReturnValue({ user: { email: OWNER } });
+  (registerDevice as jest.Mock).mockResolvedValue(undefined);
+});
+
+it('replays pending marks with their idempotency keys', async () => {
+  queueMark(1);
+  queueMark(2);
+  post.mockResolvedValue('');
+
+  await expect(useAttendanceQueueStore.getState().syncQueue()).resolves.toBe(2);
+
+  expect(statuses()).toEqual(['synced', 'synced']);
+  expect(post.mock.calls.map(([, , options]) => options.idempotencyKey)).toEqual([
+    'key-1',
+    'key-2',
+  ]);
+});
+
+it('only replays marks queued by the signed-in user', async () => {
+  queueMark(1, 'someone@university.edu');
+  queueMark(2);
+  post.mockResolvedValue('');
+
+  await expect(useAttendanceQueueStore.getState().syncQueue()).resolves.toBe(1);
+  expect(statuses()).toEqual(['pending', 'synced']);
+});
+
+it.each([
+  ['the network fails', 0],
+  ['the session expired', 401],
+  ['access is denied', 403],
+  ['the server is rate limiting', 429],
+  ['the server fails', 503],
+])('keeps marks pending and stops when %s', async (_, status) => {
+  queueMark(1);
+  queueMark(2);
+  post.mockRejectedValue(apiError(status));
+
+  await expect(useAttendanceQueueStore.getState().syncQueue()).resolves.toBe(0);
+
+  expect(post).toHaveBeenCalledTimes(1);
+  expect(statuses()).toEqual(['pending', 'pending']);
+  expect(useAttendanceQueueStore.getState().items[0].attempts).toBe(1);
+});
+
+it('rejects a mark the server definitively refuses and carries on', async () => {
+  queueMark(1);
+  queueMark(2);
+  post.mockRejectedValueOnce(apiError(400, 'Session has ended')).mockResolvedValueOnce('');
+
+  await expect(useAttendanceQueueStore.getState().syncQueue()).resolves.toBe(1);
+
+  const [rejected] = useAttendanceQueueStore.getState().items;
+  expect(statuses()).toEqual(['rejected', 'synced']);
+  expect(rejected.reason).toBe('Session has ended');
+});
+
+it('treats a conflict as a mark that already reached the server', async () => {
+  queueMark(1);
+  post.mockRejectedValue(apiError(409));
+
+  await expect(useAttendanceQueueStore.getState().syncQueue()).resolves.toBe(1);
+  expect(statuses()).toEqual(['synced']);
+});
+
+it('keeps everything pending when the device cannot be registered', async () => {
+  queueMark(1);
+  (registerDevice as jest.Mock).mockRejectedValue(apiError(0));
+
+  await expect(useAttendanceQueueStore.getState().syncQueue()).resolves.toBe(0);
+
+  expect(post).not.toHaveBeenCalled();
+  expect(statuses()).toEqual(['pending']);
+  expect(useAttendanceQueueStore.getState().isSyncing).toBe(false);
+});
+
+it('does nothing while signed out', async () => {
+  queueMark(1);
+  (useAuthStore.getState as jest.Mock).mockReturnValue({ user: null });
+
+  await expect(useAttendanceQueueStore.getState().syncQueue()).resolves.toBe(0);
+  expect(registerDevice).not.toHaveBeenCalled();
+});
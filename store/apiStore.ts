@@ -3,21 +3,48 @@
  *
  * This store provides methods to interact with the backend API for operations such as:
  * - Fetching and updating user profiles
- * - Managing courses (fetch, add)
- * - Managing sessions (fetch, create)
- * - Managing attendance (fetch, mark)
+ * - Managing courses (fetch, add, edit, archive, delete), their teaching staff, and their rosters of
+ *   enrolled students (added one by one or imported from a CSV file)
+ * - Managing sessions (paginated fetch with server-side filters, create now or scheduled, end
+ *   early, extend, reopen, realtime updates)
+ * - Managing weekly timetable slots, from which the server schedules recurring sessions
+ * - Managing academic terms and the selected term that lists and statistics are scoped to
+ * - Managing attendance (fetch, mark, check out, lecturer overrides, absence justifications)
  * - Managing users (fetch, update, delete)
  *
- * The store maintains loading and error states for UI feedback.
+ * The store tracks the status of every request per resource (idle/loading/success/error), so
+ * polling or failing one resource never flickers or clobbers the state of another. Screens read
+ * it through `useResourceStatus`, `useIsLoading` and `useResourceError`.
  *
  * @remarks
- * - Uses the authentication token from `useAuthStore` for authorized requests.
- * - Automatically refreshes relevant data after mutations (e.g., after adding a course, creating a session, etc.).
- * - Handles API errors and exposes them via the `error` state.
+ * - All requests go through the shared client in `~/lib/apiClient`, which attaches the
+ *   authentication token from `useAuthStore` and throws a structured `ApiError` on failure.
+ * - Persists fetched data in AsyncStorage under the key 'api-cache' so screens render instantly
+ *   (and read-only offline) on cold start. The cache is cleared when the user signs out.
+ * - Fetches are stale-while-revalidate: data younger than its TTL in `CACHE_TTL` is served as-is,
+ *   older data stays on screen while it is revalidated in the background. Pass `{ force: true }`
+ *   to bypass the TTL (pull-to-refresh, polling).
+ * - Sessions are loaded a page at a time: `fetchSessions` loads the first page for a set of
+ *   filters and `loadMoreSessions` appends the next one while `sessionsPage.hasMore` is true.
+ *   That list belongs to the Sessions tab; screens that count sessions or show one course's
+ *   sessions load a complete list of their own with `fetchSessionList` (see `useSessionList`).
+ * - Every fetch carries a per-resource sequence number and only the latest one may write its
+ *   result, so a slow response can never overwrite a newer one. Fetches accept an `AbortSignal`
+ *   so screens can cancel them when they unmount; identical in-flight GETs are shared by the client.
+ * - Every mutation carries a client-generated idempotency key. The key is remembered (and
+ *   persisted) until the outcome is known, so a retry, a double tap or an app restart repeats the
+ *   same operation instead of creating a new one.
+ * - Mutations invalidate the resources they affect and refetch them (e.g., after adding a course, creating a session, etc.).
+ * - Every response is checked by the validators in `~/lib/validators` before it reaches the
+ *   cache; malformed payloads fail the request with a descriptive error instead of crashing screens.
+ * - Handles API errors and exposes them via the resource's entry in `requests`, including failed
+ *   background revalidations; the cached data stays available, so screens can show the error
+ *   alongside it.
  *
  * @example
  * ```typescript
- * const { fetchCourses, courses, isLoading, error } = useApiStore();
+ * const { fetchCourses, courses } = useApiStore();
+ * const { isLoading, error } = useResourceStatus('courses');
  * useEffect(() => {
  *   fetchCourses();
  * }, []);
@@ -28,399 +55,1568 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import Constants from 'expo-constants';
 import uuid from 'react-native-uuid';
 import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { api, ApiError, getErrorMessage } from '~/lib/apiClient';
+import { getAttendanceHeaders, getDeviceId, registerDevice, signAttendance } from '~/lib/device';
+import { isSessionOpen, REOPEN_GRACE_MINUTES } from '~/lib/sessionLifecycle';
+import { resolveTermSelection } from '~/lib/terms';
+import {
+  validateAbsenceJustification,
+  validateAttendance,
+  validateAttendanceOverride,
+  validateCourse,
+  validateList,
+  validatePage,
+  validateQrToken,
+  validateRosterEntry,
+  validateRosterImportResult,
+  validateSession,
+  validateStudent,
+  validateTerm,
+  validateTimetableSlot,
+  validateUser,
+} from '~/lib/validators';
+import { useAttendanceQueueStore } from '~/store/attendanceQueueStore';
 import { useAuthStore } from '~/store/authStore';
-import { ApiState, Attendance, AttendanceRequest } from '~/types/app';
-const API_BASE_URL = Constants.expoConfig?.extra?.API_BASE_URL;
-import * as SecureStore from "expo-secure-store"
-;
-const DEVICE_ID_KEY = 'UnitrackDeviceId';
+import { useConnectivityStore } from '~/store/connectivityStore';
+import {
+  ApiState,
+  AttendanceRequest,
+  CacheKey,
+  Course,
+  FetchOptions,
+  Page,
+  PendingMutation,
+  RequestStatus,
+  ResourceKey,
+  ResourceStatus,
+  Session,
+  SessionFetchOptions,
+  SessionList,
+  SessionListKey,
+  SessionPagination,
+  SessionQuery,
+  Term,
+  TermSelection,
+} from '~/types/app';
 
 /**
- * Gets or generates a unique device ID
- * @returns Promise<string> - The device ID
+ * How long (in milliseconds) each cached resource is considered fresh.
  */
-const getDeviceId = async (): Promise<string> => {
-  try {
-    let deviceId = await SecureStore.getItemAsync(DEVICE_ID_KEY);
+const CACHE_TTL: Record<CacheKey, number> = {
+  courses: 10 * 60 * 1000,
+  sessions: 2 * 60 * 1000,
+  activeSessions: 30 * 1000,
+  closedSessions: 5 * 60 * 1000,
+  attendance: 2 * 60 * 1000,
+  timetable: 10 * 60 * 1000,
+  terms: 60 * 60 * 1000,
+  users: 10 * 60 * 1000,
+};
 
-    if (!deviceId) {
-      deviceId = uuid.v4() as string;
+/**
+ * Number of sessions requested per page.
+ */
+const SESSION_PAGE_SIZE = 20;
 
-      await SecureStore.setItemAsync(DEVICE_ID_KEY, deviceId);
-    }
+/**
+ * Number of sessions requested per page when loading a complete session list.
+ */
+const SESSION_LIST_PAGE_SIZE = 100;
 
-    return deviceId;
-  } catch (error) {
-    console.error('Error getting/generating device ID:', error);
-    return uuid.v4();
-  }
+/**
+ * How long (in milliseconds) an idempotency key is reused for a mutation whose outcome is unknown.
+ */
+const IDEMPOTENCY_KEY_TTL = 24 * 60 * 60 * 1000;
+
+const initialSessionsPage: SessionPagination = {
+  page: 0,
+  size: SESSION_PAGE_SIZE,
+  totalPages: 0,
+  totalElements: 0,
+  hasMore: false,
+  query: {},
 };
+
 /**
- * Generates authentication headers with optional device ID
- * @param mark - Whether to include device ID (for attendance marking)
- * @returns Promise<object> - Headers object
+ * Drops empty filters so that equivalent queries compare (and serialize) the same.
  */
-const getAuthHeaders = async (
-  mark?: boolean
-): Promise<{
-  'Content-Type': string;
-  Authorization: string;
-  'X-Device_ID'?: string;
-}> => {
-  const token = useAuthStore.getState().token;
-
-  const headers: {
-    'Content-Type': string;
-    Authorization: string;
-    'X-Device_ID'?: string;
-  } = {
-    'Content-Type': 'application/json',
-    Authorization: token ? `Bearer ${token}` : '',
-    'X-Device_ID': mark ? await getDeviceId() : '',
-  };
+const normalizeSessionQuery = ({
+  search,
+  status,
+  courseCode,
+  termId,
+  staffOnly,
+}: SessionQuery): SessionQuery => ({
+  ...(search?.trim() ? { search: search.trim() } : {}),
+  ...(status ? { status } : {}),
+  ...(courseCode ? { courseCode } : {}),
+  ...(termId !== undefined ? { termId } : {}),
+  ...(staffOnly ? { staffOnly } : {}),
+});
+
+const isSameSessionQuery = (a: SessionQuery, b: SessionQuery) =>
+  a.search === b.search &&
+  a.status === b.status &&
+  a.courseCode === b.courseCode &&
+  a.termId === b.termId &&
+  a.staffOnly === b.staffOnly;
 
-  // console.log(headers['X-Device_ID']);
+/**
+ * Identifies the complete session list for a query.
+ */
+const getSessionListKey = (query: SessionQuery): SessionListKey =>
+  `sessionList:${JSON.stringify(normalizeSessionQuery(query))}`;
 
-  return headers;
-};
+const isSessionListKey = (key: string): key is SessionListKey => key.startsWith('sessionList:');
 
-export const useApiStore = create<ApiState>((set, get) => ({
+/**
+ * Builds the pagination state from a page returned by the server.
+ */
+const toSessionPagination = (page: Page<Session>, query: SessionQuery): SessionPagination => ({
+  page: page.number,
+  size: page.size,
+  totalPages: page.totalPages,
+  totalElements: page.totalElements,
+  hasMore: !page.last && page.number + 1 < page.totalPages,
+  query,
+});
+
+const initialData = {
   courses: [],
+  rosters: {},
   sessions: [],
+  sessionsPage: initialSessionsPage,
+  sessionLists: {} as Record<SessionListKey, SessionList>,
   activeSessions: [],
   closedSessions: [],
   attendance: [],
+  timetable: [],
   users: [],
-  isLoading: false,
-  error: null,
-
-  fetchUserProfile: async () => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/users/profile`, {
-        headers: await getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch user profile');
-      }
-
-      const userData = await response.json();
-      // Update the user in auth store
-      useAuthStore.getState().setUser(userData);
-
-      set({ isLoading: false });
-      return userData;
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to fetch user profile',
-        isLoading: false,
-      });
-      throw error;
-    }
-  },
-
-  fetchCourses: async () => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/courses`, {
-        headers: await getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch courses');
-      }
-
-      const courses = await response.json();
-      set({ courses, isLoading: false });
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to fetch courses',
-        isLoading: false,
-      });
-    }
-  },
-
-  //TODO:Make sure to add privileges to add course
-  addCourse: async (course) => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/courses/add`, {
-        method: 'POST',
-        headers: await getAuthHeaders(),
-        body: JSON.stringify(course),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        set({
-          error: errorText || 'Failed to add course',
-          isLoading: false,
+  terms: [],
+  termSelection: 'CURRENT' as TermSelection,
+  lastFetched: {},
+  pendingMutations: {} as Record<string, PendingMutation>,
+};
+
+export const useApiStore = create<ApiState>()(
+  persist(
+    (set, get) => {
+      /**
+       * Sequence number of the latest request started for each resource.
+       */
+      const latestRequest: Partial<Record<ResourceKey, number>> = {};
+
+      /**
+       * Starts a new request for a resource, superseding any request still in flight for it.
+       *
+       * @returns A function that tells whether this request is still the latest one.
+       */
+      const beginRequest = (key: ResourceKey) => {
+        const sequence = (latestRequest[key] ?? 0) + 1;
+        latestRequest[key] = sequence;
+        return () => latestRequest[key] === sequence;
+      };
+
+      /**
+       * Records the status of a resource's latest request.
+       */
+      const setRequest = (key: ResourceKey, status: RequestStatus, error: string | null = null) => {
+        set((state) => ({
+          requests: {
+            ...state.requests,
+            [key]: {
+              status,
+              error,
+              lastFetched: status === 'success' ? Date.now() : state.requests[key]?.lastFetched,
+            },
+          },
+        }));
+      };
+
+      /**
+       * Runs a mutation with an idempotency key tied to the operation.
+       *
+       * The key for `operation` is reused while a previous attempt's outcome is unknown (network
+       * failure, timeout or server error) and forgotten once the server gives a definitive answer.
+       *
+       * @param operation - Identifies the logical operation, e.g. "markAttendance:42".
+       * @param send - Sends the request; `isRepeat` is true when the key was used before.
+       */
+      const runMutation = async <T>(
+        operation: string,
+        send: (idempotencyKey: string, isRepeat: boolean) => Promise<T>
+      ): Promise<T> => {
+        const now = Date.now();
+        const previous = get().pendingMutations[operation];
+        const isRepeat = !!previous && now - previous.createdAt < IDEMPOTENCY_KEY_TTL;
+        const idempotencyKey = isRepeat ? previous.idempotencyKey : (uuid.v4() as string);
+
+        set((state) => {
+          // Drop keys that have expired while we're here
+          const pendingMutations = Object.fromEntries(
+            Object.entries(state.pendingMutations).filter(
+              ([, mutation]) => now - mutation.createdAt < IDEMPOTENCY_KEY_TTL
+            )
+          );
+          pendingMutations[operation] = {
+            idempotencyKey,
+            createdAt: isRepeat ? previous.createdAt : now,
+          };
+          return { pendingMutations };
         });
-        throw new Error(errorText || 'Failed to add course');
-      }
-
-      // Refresh courses after adding
-      await get().fetchCourses();
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to add course',
-        isLoading: false,
-      });
-      throw error; // Ensure error is thrown to be caught in UI
-    }
-  },
-
-  fetchSessions: async () => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/session?size=1000`, {
-        headers: await getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch sessions');
-      }
-
-      const sessions = await response.json();
-      set({ sessions: sessions.content, isLoading: false });
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to fetch sessions',
-        isLoading: false,
-      });
-    }
-  },
-
-  fetchActiveSessions: async () => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/session/active`, {
-        headers: await getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch active sessions');
-      }
-
-      const sessions = await response.json();
-      set({ activeSessions: sessions, isLoading: false });
-    } catch (error) {
-      console.log(error);
-      set({
-        error: error instanceof Error ? error.message : 'Failed to fetch active sessions',
-        isLoading: false,
-      });
-    }
-  },
-
-  fetchClosedSessions: async () => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/session/closed`, {
-        headers: await getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch sessions');
-      }
-
-      const sessions = await response.json();
-      set({ closedSessions: sessions, isLoading: false });
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to fetch sessions',
-        isLoading: false,
-      });
-    }
-  },
-
-  createSession: async (sessionReq, time = 300) => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/session/create?time=${time}`, {
-        method: 'POST',
-        headers: await getAuthHeaders(),
-        body: JSON.stringify(sessionReq),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to create session');
-      }
-
-      // Refresh sessions after creating
-      await get().fetchSessions();
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to create session',
-        isLoading: false,
-      });
-    }
-  },
-
-  fetchAttendance: async () => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/attendance`, {
-        headers: await getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch attendance');
-      }
-
-      const attendance: Attendance[] = await response.json();
-      set({ attendance, isLoading: false });
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to fetch attendance',
-        isLoading: false,
-      });
-    }
-  },
-
-  fetchSingleAttendance: async (attendanceId: number) => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/attendance/one?id=${attendanceId}`, {
-        headers: await getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch attendance');
-      }
-
-      const attendance: Attendance = await response.json();
-      set({ isLoading: false });
-      return attendance;
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to fetch attendance',
-        isLoading: false,
-      });
-    }
-  },
-
-  markAttendance: async (attendanceReq: AttendanceRequest) => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/attendance/mark`, {
-        method: 'POST',
-        headers: await getAuthHeaders(true),
-        body: JSON.stringify(attendanceReq),
-      });
-
-      if (!response.ok) {
-        // console.log('Response not OK:', response.status, response.statusText);
-        const errorText = await response.text();
-        set({
-          error: errorText || 'Failed to mark attendance',
-          isLoading: false,
+
+        const settle = () =>
+          set((state) => {
+            const { [operation]: _settled, ...pendingMutations } = state.pendingMutations;
+            return { pendingMutations };
+          });
+
+        try {
+          const result = await send(idempotencyKey, isRepeat);
+          settle();
+          return result;
+        } catch (error) {
+          // Keep the key only if the server may have applied the request without us seeing it
+          if (!(error instanceof ApiError && error.retryable)) {
+            settle();
+          }
+          throw error;
+        }
+      };
+
+      /**
+       * Loads a cached resource with stale-while-revalidate semantics.
+       * Shows the loading state only when there is no cached data to show, or when the caller forced
+       * the fetch. Failures are recorded either way; the cached data stays in place. Results of
+       * superseded or cancelled fetches are dropped.
+       *
+       * @param toState - Maps the response to the state to store; defaults to storing it under `key`.
+       */
+      const loadResource = async <T>(
+        key: CacheKey | SessionListKey,
+        request: (signal?: AbortSignal) => Promise<T>,
+        fallbackError: string,
+        { force = false, signal }: FetchOptions = {},
+        toState: (data: T) => Partial<ApiState> = (data) => ({ [key]: data })
+      ) => {
+        const fetchedAt = get().lastFetched[key];
+        const ttl = isSessionListKey(key) ? CACHE_TTL.sessions : CACHE_TTL[key];
+        if (!force && fetchedAt && Date.now() - fetchedAt < ttl) return;
+
+        const isLatest = beginRequest(key);
+        const isBackground = !!fetchedAt && !force;
+        if (!isBackground) {
+          setRequest(key, 'loading');
+        }
+
+        try {
+          const data = await request(signal);
+          if (!isLatest()) return;
+
+          set((state) => ({
+            ...toState(data),
+            lastFetched: { ...state.lastFetched, [key]: Date.now() },
+          }));
+          setRequest(key, 'success');
+        } catch (error) {
+          if (!isLatest()) return;
+
+          if (error instanceof ApiError && error.isCancelled) {
+            // Nobody is waiting for this result any more; don't leave a spinner behind
+            if (get().requests[key]?.status === 'loading') {
+              setRequest(key, get().lastFetched[key] ? 'success' : 'idle');
+            }
+            return;
+          }
+
+          setRequest(key, 'error', getErrorMessage(error, fallbackError));
+        }
+      };
+
+      /**
+       * Replaces a cached course (looked up by its code before the change) with the server's copy.
+       */
+      const storeCourse = (courseCode: string, updated: Course) =>
+        set((state) => ({
+          courses: state.courses.map((course) =>
+            course.courseCode === courseCode ? updated : course
+          ),
+        }));
+
+      /**
+       * Changes a course's staff and stores the updated course returned by the server.
+       *
+       * @param operation - Identifies the change for idempotency, e.g. "removeCourseStaff:CSC101:7".
+       */
+      const changeCourseStaff = async (
+        operation: string,
+        courseCode: string,
+        request: (idempotencyKey: string) => Promise<unknown>,
+        fallbackError: string
+      ) => {
+        setRequest('courseStaff', 'loading');
+
+        try {
+          const course = validateCourse(await runMutation(operation, request), 'courseStaff');
+          storeCourse(courseCode, course);
+          setRequest('courseStaff', 'success');
+
+          // Staff changes decide whose sessions show up in the course views
+          get().invalidate('sessions');
+          return course;
+        } catch (error) {
+          setRequest('courseStaff', 'error', getErrorMessage(error, fallbackError));
+          throw error;
+        }
+      };
+
+      /**
+       * Applies a change to the sessions of every complete session list.
+       */
+      const mapSessionLists = (
+        sessionLists: Record<SessionListKey, SessionList>,
+        update: (sessions: Session[]) => Session[]
+      ) =>
+        Object.fromEntries(
+          Object.entries(sessionLists).map(([key, list]) => [
+            key,
+            { ...list, sessions: update(list.sessions) },
+          ])
+        ) as Record<SessionListKey, SessionList>;
+
+      /**
+       * Applies a change to a session wherever it is cached.
+       */
+      const updateSession = (sessionId: number, apply: (session: Session) => Session) =>
+        set((state) => {
+          const update = (list: Session[]) =>
+            list.map((session) => (session.id === sessionId ? apply(session) : session));
+          return {
+            sessions: update(state.sessions),
+            activeSessions: update(state.activeSessions),
+            closedSessions: update(state.closedSessions),
+            sessionLists: mapSessionLists(state.sessionLists, update),
+          };
         });
-        throw new Error(errorText || 'Failed to mark attendance');
-      }
-
-      // Add a small delay to ensure backend processing completes
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      return true; // Indicate success
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to mark attendance',
-        isLoading: false,
-      });
-    }
-  },
-
-  fetchUsers: async () => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/users`, {
-        headers: await getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch users');
-      }
-
-      const users = await response.json();
-      set({ users, isLoading: false });
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to fetch users',
-        isLoading: false,
-      });
-    }
-  },
-
-  updateUser: async (userData) => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/users/update`, {
-        method: 'PUT',
-        headers: await getAuthHeaders(),
-        body: JSON.stringify(userData),
-      });
-
-      if (!response.ok) {
-        //TODO: Remind to give permissions to update user
-        // console.log(response);
-
-        throw new Error('Failed to update user');
-      }
-
-      // Refresh user profile after updating
-      await get().fetchUserProfile();
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to update user',
-        isLoading: false,
-      });
-    }
-  },
-
-  deleteUser: async (userId) => {
-    set({ isLoading: true, error: null });
-
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/users/delete/${userId}`, {
-        method: 'DELETE',
-        headers: await getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to delete user');
-      }
-
-      const result = await response.text();
-      console.log('Delete user response:', result);
-
-      // Refresh users after deleting
-      await get().fetchUsers();
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to delete user',
-        isLoading: false,
-      });
+
+      /**
+       * Stores the latest copy of a session wherever it is cached, moving it between the active
+       * and closed lists when it opens or closes. Scheduled sessions belong to neither.
+       */
+      const storeSession = (updated: Session) =>
+        set((state) => {
+          const isOpen = isSessionOpen(updated);
+          const isClosed = updated.status === 'CLOSED';
+          const replace = (list: Session[]) =>
+            list.map((session) => (session.id === updated.id ? updated : session));
+          const remove = (list: Session[]) => list.filter((session) => session.id !== updated.id);
+          const upsert = (list: Session[]) =>
+            list.some((session) => session.id === updated.id) ? replace(list) : [updated, ...list];
+
+          return {
+            sessions: replace(state.sessions),
+            sessionLists: mapSessionLists(state.sessionLists, replace),
+            activeSessions: isOpen ? upsert(state.activeSessions) : remove(state.activeSessions),
+            closedSessions: isClosed ? upsert(state.closedSessions) : remove(state.closedSessions),
+          };
+        });
+
+      /**
+       * Ends, extends or reopens a session and stores the updated session returned by the server.
+       *
+       * @param operation - Identifies the change for idempotency, e.g. "extendSession:42:<endTime>".
+       */
+      const changeSessionLifecycle = async (
+        key: 'endSession' | 'extendSession' | 'reopenSession',
+        operation: string,
+        endpoint: string,
+        query: Record<string, number>,
+        fallbackError: string
+      ) => {
+        setRequest(key, 'loading');
+
+        try {
+          const session = validateSession(
+            await runMutation(operation, (idempotencyKey) =>
+              api.post<unknown>(endpoint, undefined, { query, idempotencyKey })
+            ),
+            'session'
+          );
+          storeSession(session);
+          setRequest(key, 'success');
+
+          get().invalidate('sessions', 'activeSessions', 'closedSessions');
+          return session;
+        } catch (error) {
+          setRequest(key, 'error', getErrorMessage(error, fallbackError));
+          throw error;
+        }
+      };
+
+      /**
+       * Fetches one page of sessions matching the given filters.
+       */
+      const fetchSessionPage = (
+        page: number,
+        query: SessionQuery,
+        signal?: AbortSignal,
+        size = SESSION_PAGE_SIZE
+      ) =>
+        api
+          .get<unknown>('/api/v1/session', {
+            query: { ...query, page, size },
+            signal,
+          })
+          .then((data) => validatePage(validateSession)(data, 'sessions'));
+
+      /**
+       * Fetches every session matching the given filters, one page after another.
+       */
+      const fetchAllSessions = async (
+        query: SessionQuery,
+        signal?: AbortSignal
+      ): Promise<SessionList> => {
+        const sessions: Session[] = [];
+
+        for (let page = 0; ; page++) {
+          const result = await fetchSessionPage(page, query, signal, SESSION_LIST_PAGE_SIZE);
+
+          // Sessions created while paging shift later pages; skip the duplicates
+          const loadedIds = new Set(sessions.map((session) => session.id));
+          sessions.push(...result.content.filter((session) => !loadedIds.has(session.id)));
+
+          if (result.last || page + 1 >= result.totalPages) {
+            return { sessions, totalElements: result.totalElements };
+          }
+        }
+      };
+
+      return {
+        ...initialData,
+        requests: {},
+
+        fetchUserProfile: async () => {
+          setRequest('profile', 'loading');
+
+          try {
+            const userData = validateUser(
+              await api.get<unknown>('/api/v1/users/profile'),
+              'profile'
+            );
+            // Update the user in auth store
+            useAuthStore.getState().setUser(userData);
+
+            setRequest('profile', 'success');
+            return userData;
+          } catch (error) {
+            setRequest('profile', 'error', getErrorMessage(error, 'Failed to fetch user profile'));
+            throw error;
+          }
+        },
+
+        fetchTerms: (options) =>
+          loadResource(
+            'terms',
+            (signal) =>
+              api
+                .get<unknown>('/api/v1/terms', { signal })
+                .then((data) => validateList(validateTerm)(data, 'terms')),
+            'Failed to fetch terms',
+            options
+          ),
+
+        selectTerm: (selection) => set({ termSelection: selection }),
+
+        fetchCourses: (options) =>
+          loadResource(
+            'courses',
+            (signal) =>
+              api
+                .get<unknown>('/api/v1/courses', { signal })
+                .then((data) => validateList(validateCourse)(data, 'courses')),
+            'Failed to fetch courses',
+            options
+          ),
+
+        //TODO:Make sure to add privileges to add course
+        addCourse: async (course) => {
+          setRequest('addCourse', 'loading');
+
+          try {
+            await runMutation(`addCourse:${course.courseCode}`, (idempotencyKey) =>
+              api.post<void>('/api/v1/courses/add', course, {
+                responseType: 'text',
+                idempotencyKey,
+              })
+            );
+            setRequest('addCourse', 'success');
+
+            // Refresh courses after adding
+            get().invalidate('courses');
+            await get().fetchCourses();
+          } catch (error) {
+            setRequest('addCourse', 'error', getErrorMessage(error, 'Failed to add course'));
+            throw error; // Ensure error is thrown to be caught in UI
+          }
+        },
+
+        updateCourse: async (courseCode, update) => {
+          setRequest('updateCourse', 'loading');
+
+          try {
+            const course = validateCourse(
+              await runMutation(
+                `updateCourse:${courseCode}:${JSON.stringify(update)}`,
+                (idempotencyKey) =>
+                  api.put<unknown>(`/api/v1/courses/${encodeURIComponent(courseCode)}`, update, {
+                    idempotencyKey,
+                  })
+              ),
+              'updateCourse'
+            );
+            storeCourse(courseCode, course);
+            setRequest('updateCourse', 'success');
+
+            if (course.courseCode !== courseCode) {
+              // Everything cached under the old code is stale after a rename
+              set((state) => {
+                const { [courseCode]: roster, ...rosters } = state.rosters;
+                return { rosters: roster ? { ...rosters, [course.courseCode]: roster } : rosters };
+              });
+              get().invalidate('sessions', 'activeSessions', 'closedSessions', 'timetable');
+            }
+            return course;
+          } catch (error) {
+            setRequest('updateCourse', 'error', getErrorMessage(error, 'Failed to update course'));
+            throw error;
+          }
+        },
+
+        archiveCourse: async (courseCode, semester) => {
+          setRequest('archiveCourse', 'loading');
+          const action = semester ? 'archive' : 'unarchive';
+
+          try {
+            const course = validateCourse(
+              await runMutation(
+                `${action}Course:${courseCode}:${semester ?? ''}`,
+                (idempotencyKey) =>
+                  api.post<unknown>(
+                    `/api/v1/courses/${encodeURIComponent(courseCode)}/${action}`,
+                    semester ? { semester } : undefined,
+                    { idempotencyKey }
+                  )
+              ),
+              'archiveCourse'
+            );
+            storeCourse(courseCode, course);
+            setRequest('archiveCourse', 'success');
+
+            // The timetable of an archived course stops scheduling sessions
+            get().invalidate('timetable', 'sessions');
+            return course;
+          } catch (error) {
+            setRequest(
+              'archiveCourse',
+              'error',
+              getErrorMessage(
+                error,
+                semester ? 'Failed to archive course' : 'Failed to restore course'
+              )
+            );
+            throw error;
+          }
+        },
+
+        deleteCourse: async (courseCode) => {
+          setRequest('deleteCourse', 'loading');
+
+          try {
+            await runMutation(`deleteCourse:${courseCode}`, (idempotencyKey) =>
+              api.delete<void>(`/api/v1/courses/${encodeURIComponent(courseCode)}`, {
+                responseType: 'text',
+                idempotencyKey,
+              })
+            );
+            set((state) => {
+              const { [courseCode]: _roster, ...rosters } = state.rosters;
+              return {
+                courses: state.courses.filter((course) => course.courseCode !== courseCode),
+                timetable: state.timetable.filter((slot) => slot.courseCode !== courseCode),
+                rosters,
+              };
+            });
+            setRequest('deleteCourse', 'success');
+
+            get().invalidate('courses', 'timetable');
+          } catch (error) {
+            // The server refuses (409) to delete a course that has sessions
+            setRequest('deleteCourse', 'error', getErrorMessage(error, 'Failed to delete course'));
+            throw error;
+          }
+        },
+
+        addCourseStaff: (courseCode, member) =>
+          changeCourseStaff(
+            `addCourseStaff:${courseCode}:${member.email}`,
+            courseCode,
+            (idempotencyKey) =>
+              api.post<unknown>(`/api/v1/courses/${encodeURIComponent(courseCode)}/staff`, member, {
+                idempotencyKey,
+              }),
+            'Failed to add staff member'
+          ),
+
+        updateCourseStaff: (courseCode, userId, role) =>
+          changeCourseStaff(
+            `updateCourseStaff:${courseCode}:${userId}:${role}`,
+            courseCode,
+            (idempotencyKey) =>
+              api.put<unknown>(
+                `/api/v1/courses/${encodeURIComponent(courseCode)}/staff/${userId}`,
+                { role },
+                { idempotencyKey }
+              ),
+            'Failed to change staff role'
+          ),
+
+        removeCourseStaff: (courseCode, userId) =>
+          changeCourseStaff(
+            `removeCourseStaff:${courseCode}:${userId}`,
+            courseCode,
+            (idempotencyKey) =>
+              api.delete<unknown>(
+                `/api/v1/courses/${encodeURIComponent(courseCode)}/staff/${userId}`,
+                { idempotencyKey }
+              ),
+            'Failed to remove staff member'
+          ),
+
+        fetchRoster: async (courseCode, signal) => {
+          setRequest('roster', 'loading');
+
+          try {
+            const roster = validateList(validateRosterEntry)(
+              await api.get<unknown>(`/api/v1/courses/${encodeURIComponent(courseCode)}/roster`, {
+                signal,
+              }),
+              'roster'
+            );
+            set((state) => ({ rosters: { ...state.rosters, [courseCode]: roster } }));
+            setRequest('roster', 'success');
+            return roster;
+          } catch (error) {
+            if (error instanceof ApiError && error.isCancelled) {
+              setRequest('roster', 'idle');
+            } else {
+              setRequest('roster', 'error', getErrorMessage(error, 'Failed to fetch roster'));
+            }
+            throw error;
+          }
+        },
+
+        addToRoster: async (courseCode, usernames) => {
+          setRequest('addToRoster', 'loading');
+
+          try {
+            const roster = validateList(validateRosterEntry)(
+              await runMutation(
+                `addToRoster:${courseCode}:${[...usernames].sort().join(',')}`,
+                (idempotencyKey) =>
+                  api.post<unknown>(
+                    `/api/v1/courses/${encodeURIComponent(courseCode)}/roster/add`,
+                    { usernames },
+                    { idempotencyKey }
+                  )
+              ),
+              'roster'
+            );
+            set((state) => ({ rosters: { ...state.rosters, [courseCode]: roster } }));
+            setRequest('addToRoster', 'success');
+
+            get().invalidate('courses');
+          } catch (error) {
+            setRequest(
+              'addToRoster',
+              'error',
+              getErrorMessage(error, 'Failed to add students to the roster')
+            );
+            throw error;
+          }
+        },
+
+        removeFromRoster: async (courseCode, username) => {
+          setRequest('removeFromRoster', 'loading');
+
+          try {
+            await runMutation(`removeFromRoster:${courseCode}:${username}`, (idempotencyKey) =>
+              api.delete<void>(
+                `/api/v1/courses/${encodeURIComponent(courseCode)}/roster/${encodeURIComponent(username)}`,
+                { responseType: 'text', idempotencyKey }
+              )
+            );
+            set((state) => ({
+              rosters: {
+                ...state.rosters,
+                [courseCode]: (state.rosters[courseCode] ?? []).filter(
+                  (student) => student.username !== username
+                ),
+              },
+            }));
+            setRequest('removeFromRoster', 'success');
+
+            get().invalidate('courses');
+          } catch (error) {
+            setRequest(
+              'removeFromRoster',
+              'error',
+              getErrorMessage(error, 'Failed to remove student from the roster')
+            );
+            throw error;
+          }
+        },
+
+        importRoster: async (courseCode, rows) => {
+          setRequest('importRoster', 'loading');
+
+          try {
+            const indexNumbers = rows.map((row) => row.indexNumber).sort();
+            const result = validateRosterImportResult(
+              await runMutation(
+                `importRoster:${courseCode}:${indexNumbers.join(',')}`,
+                (idempotencyKey) =>
+                  api.post<unknown>(
+                    `/api/v1/courses/${encodeURIComponent(courseCode)}/roster/import`,
+                    { students: rows },
+                    { idempotencyKey }
+                  )
+              ),
+              'importRoster'
+            );
+            set((state) => ({ rosters: { ...state.rosters, [courseCode]: result.roster } }));
+            setRequest('importRoster', 'success');
+
+            get().invalidate('courses');
+            return result;
+          } catch (error) {
+            setRequest('importRoster', 'error', getErrorMessage(error, 'Failed to import roster'));
+            throw error;
+          }
+        },
+
+        enrollInCourse: async (courseCode) => {
+          setRequest('enroll', 'loading');
+
+          try {
+            await runMutation(`enroll:${courseCode}`, (idempotencyKey) =>
+              api.post<void>(
+                `/api/v1/courses/${encodeURIComponent(courseCode)}/enroll`,
+                undefined,
+                {
+                  responseType: 'text',
+                  idempotencyKey,
+                }
+              )
+            );
+            setRequest('enroll', 'success');
+
+            get().invalidate('courses', 'sessions');
+            await get().fetchCourses();
+          } catch (error) {
+            setRequest('enroll', 'error', getErrorMessage(error, 'Failed to enroll in course'));
+            throw error;
+          }
+        },
+
+        fetchSessions: ({ query, force, signal }: SessionFetchOptions = {}) => {
+          const currentQuery = get().sessionsPage.query;
+          const nextQuery = query ? normalizeSessionQuery(query) : currentQuery;
+
+          return loadResource(
+            'sessions',
+            (signal) => fetchSessionPage(0, nextQuery, signal),
+            'Failed to fetch sessions',
+            // Cached pages belong to the previous filters, so a new query always refetches
+            { force: force || !isSameSessionQuery(nextQuery, currentQuery), signal },
+            (page) => ({
+              sessions: page.content,
+              sessionsPage: toSessionPagination(page, nextQuery),
+            })
+          );
+        },
+
+        loadMoreSessions: async () => {
+          const { sessionsPage, requests } = get();
+          if (
+            !sessionsPage.hasMore ||
+            requests.sessions?.status === 'loading' ||
+            requests.moreSessions?.status === 'loading'
+          ) {
+            return;
+          }
+
+          const isLatest = beginRequest('moreSessions');
+          const listVersion = latestRequest.sessions;
+          setRequest('moreSessions', 'loading');
+
+          try {
+            const page = await fetchSessionPage(sessionsPage.page + 1, sessionsPage.query);
+            if (!isLatest()) return;
+
+            // Ignore the page if the list was reloaded in the meantime
+            if (latestRequest.sessions !== listVersion) {
+              setRequest('moreSessions', 'idle');
+              return;
+            }
+
+            set((state) => {
+              // Sessions created since the first page shift later pages; skip the duplicates
+              const loadedIds = new Set(state.sessions.map((session) => session.id));
+              return {
+                sessions: [
+                  ...state.sessions,
+                  ...page.content.filter((session) => !loadedIds.has(session.id)),
+                ],
+                sessionsPage: toSessionPagination(page, sessionsPage.query),
+              };
+            });
+            setRequest('moreSessions', 'success');
+          } catch (error) {
+            if (!isLatest()) return;
+            setRequest(
+              'moreSessions',
+              'error',
+              getErrorMessage(error, 'Failed to load more sessions')
+            );
+          }
+        },
+
+        fetchSessionList: (query, options) => {
+          const key = getSessionListKey(query);
+          const normalizedQuery = normalizeSessionQuery(query);
+
+          return loadResource(
+            key,
+            (signal) => fetchAllSessions(normalizedQuery, signal),
+            'Failed to fetch sessions',
+            options,
+            (list) => ({ sessionLists: { ...get().sessionLists, [key]: list } })
+          );
+        },
+
+        fetchActiveSessions: (options) =>
+          loadResource(
+            'activeSessions',
+            (signal) =>
+              api
+                .get<unknown>('/api/v1/session/active', { signal })
+                .then((data) => validateList(validateSession)(data, 'activeSessions')),
+            'Failed to fetch active sessions',
+            options
+          ),
+
+        fetchClosedSessions: (options) =>
+          loadResource(
+            'closedSessions',
+            (signal) =>
+              api
+                .get<unknown>('/api/v1/session/closed', { signal })
+                .then((data) => validateList(validateSession)(data, 'closedSessions')),
+            'Failed to fetch sessions',
+            options
+          ),
+
+        createSession: async (sessionReq, time = 300, submissionId = uuid.v4() as string) => {
+          setRequest('createSession', 'loading');
+
+          try {
+            // Retrying the same submission reuses its key; changing the form makes it a new one
+            await runMutation(
+              `createSession:${submissionId}:${JSON.stringify({ ...sessionReq, time })}`,
+              (idempotencyKey) =>
+                api.post<void>('/api/v1/session/create', sessionReq, {
+                  query: { time },
+                  responseType: 'text',
+                  idempotencyKey,
+                })
+            );
+            setRequest('createSession', 'success');
+
+            // Refresh sessions after creating
+            get().invalidate('sessions', 'activeSessions');
+            await get().fetchSessions();
+          } catch (error) {
+            setRequest(
+              'createSession',
+              'error',
+              getErrorMessage(error, 'Failed to create session')
+            );
+            throw error; // Ensure error is thrown to be caught in UI
+          }
+        },
+
+        discardSessionSubmission: (submissionId) =>
+          set((state) => ({
+            pendingMutations: Object.fromEntries(
+              Object.entries(state.pendingMutations).filter(
+                ([operation]) => !operation.startsWith(`createSession:${submissionId}:`)
+              )
+            ),
+          })),
+
+        fetchQrToken: async (sessionId) => {
+          setRequest('qrToken', 'loading');
+
+          try {
+            const qrToken = validateQrToken(
+              await api.get<unknown>('/api/v1/session/qr', {
+                query: { id: sessionId },
+                // Every request must produce a fresh token
+                dedupe: false,
+              }),
+              'qrToken'
+            );
+            setRequest('qrToken', 'success');
+            return qrToken;
+          } catch (error) {
+            setRequest('qrToken', 'error', getErrorMessage(error, 'Failed to fetch QR code'));
+            throw error;
+          }
+        },
+
+        endSession: (sessionId) =>
+          changeSessionLifecycle(
+            'endSession',
+            `endSession:${sessionId}`,
+            '/api/v1/session/close',
+            { id: sessionId },
+            'Failed to end session'
+          ),
+
+        extendSession: (sessionId, minutes) => {
+          // Keyed on the current end time so a second extension isn't mistaken for a retry
+          const endTime = get().activeSessions.find((session) => session.id === sessionId)?.endTime;
+          return changeSessionLifecycle(
+            'extendSession',
+            `extendSession:${sessionId}:${endTime}:${minutes}`,
+            '/api/v1/session/extend',
+            { id: sessionId, minutes },
+            'Failed to extend session'
+          );
+        },
+
+        reopenSession: (sessionId, minutes = REOPEN_GRACE_MINUTES) =>
+          changeSessionLifecycle(
+            'reopenSession',
+            `reopenSession:${sessionId}`,
+            '/api/v1/session/reopen',
+            { id: sessionId, minutes },
+            'Failed to reopen session'
+          ),
+
+        applySessionEvent: (event) => {
+          const apply = (session: Session): Session => {
+            switch (event.type) {
+              case 'STUDENT_JOINED': {
+                const { studentList } = session.attendance;
+                const isKnown = studentList.some(
+                  (student) => student.email === event.student.email
+                );
+                if (isKnown) return session;
+
+                return {
+                  ...session,
+                  attendance: {
+                    ...session.attendance,
+                    studentList: [...studentList, event.student],
+                  },
+                };
+              }
+              case 'STUDENT_CHECKED_OUT':
+                return {
+                  ...session,
+                  attendance: {
+                    ...session.attendance,
+                    studentList: session.attendance.studentList.map((student) =>
+                      student.username === event.username
+                        ? { ...student, checkedOutAt: event.checkedOutAt }
+                        : student
+                    ),
+                  },
+                };
+              case 'SESSION_CLOSED':
+                return { ...session, status: 'CLOSED', endTime: event.endTime };
+              case 'SESSION_EXTENDED':
+                return { ...session, endTime: event.endTime };
+              case 'SESSION_REOPENED':
+                return { ...session, status: 'REOPENED', endTime: event.endTime };
+            }
+          };
+
+          // Closing or reopening moves the session between the active and closed lists
+          const { sessions, activeSessions, closedSessions, sessionLists } = get();
+          const session = [
+            ...activeSessions,
+            ...closedSessions,
+            ...sessions,
+            ...Object.values(sessionLists).flatMap((list) => list.sessions),
+          ].find((cached) => cached.id === event.sessionId);
+          if (session) storeSession(apply(session));
+        },
+
+        fetchTimetable: (options) =>
+          loadResource(
+            'timetable',
+            (signal) =>
+              api
+                .get<unknown>('/api/v1/timetable', { signal })
+                .then((data) => validateList(validateTimetableSlot)(data, 'timetable')),
+            'Failed to fetch timetable',
+            options
+          ),
+
+        addTimetableSlot: async (slot) => {
+          setRequest('addTimetableSlot', 'loading');
+
+          try {
+            await runMutation(
+              `addTimetableSlot:${slot.courseCode}:${slot.dayOfWeek}:${slot.startTime}`,
+              (idempotencyKey) =>
+                api.post<void>('/api/v1/timetable/add', slot, {
+                  responseType: 'text',
+                  idempotencyKey,
+                })
+            );
+            setRequest('addTimetableSlot', 'success');
+
+            // New slots schedule new sessions
+            get().invalidate('timetable', 'sessions');
+            await get().fetchTimetable();
+          } catch (error) {
+            setRequest(
+              'addTimetableSlot',
+              'error',
+              getErrorMessage(error, 'Failed to add timetable slot')
+            );
+            throw error;
+          }
+        },
+
+        deleteTimetableSlot: async (slotId) => {
+          setRequest('deleteTimetableSlot', 'loading');
+
+          try {
+            await runMutation(`deleteTimetableSlot:${slotId}`, (idempotencyKey) =>
+              api.delete<void>(`/api/v1/timetable/delete/${slotId}`, {
+                responseType: 'text',
+                idempotencyKey,
+              })
+            );
+            set((state) => ({ timetable: state.timetable.filter((slot) => slot.id !== slotId) }));
+            setRequest('deleteTimetableSlot', 'success');
+
+            // Removing a slot cancels the sessions it scheduled
+            get().invalidate('timetable', 'sessions');
+          } catch (error) {
+            setRequest(
+              'deleteTimetableSlot',
+              'error',
+              getErrorMessage(error, 'Failed to delete timetable slot')
+            );
+            throw error;
+          }
+        },
+
+        fetchAttendance: (options) =>
+          loadResource(
+            'attendance',
+            (signal) =>
+              api
+                .get<unknown>('/api/v1/attendance', { signal })
+                .then((data) => validateList(validateAttendance)(data, 'attendance')),
+            'Failed to fetch attendance',
+            options
+          ),
+
+        fetchSingleAttendance: async (attendanceId: number) => {
+          setRequest('singleAttendance', 'loading');
+
+          try {
+            const attendance = validateAttendance(
+              await api.get<unknown>('/api/v1/attendance/one', { query: { id: attendanceId } }),
+              'attendance'
+            );
+            setRequest('singleAttendance', 'success');
+            return attendance;
+          } catch (error) {
+            setRequest(
+              'singleAttendance',
+              'error',
+              getErrorMessage(error, 'Failed to fetch attendance')
+            );
+          }
+        },
+
+        markAttendance: async (attendanceReq: AttendanceRequest) => {
+          setRequest('markAttendance', 'loading');
+
+          const operation = `markAttendance:${attendanceReq.sessionId}`;
+          const owner = useAuthStore.getState().user?.email;
+
+          try {
+            // Queued marks are only replayed for their owner, so an unowned mark would never sync
+            if (!owner) {
+              throw new Error(
+                'Your profile has not loaded yet. Please sign in again to mark attendance.'
+              );
+            }
+
+            const deviceId = await getDeviceId();
+            const clientTimestamp = new Date().toISOString();
+            const signature = await signAttendance(attendanceReq, deviceId, clientTimestamp);
+
+            const queueAttendance = () => {
+              // A check-in code rotates within seconds, so it would be stale by the time it's replayed
+              if (attendanceReq.qrToken) {
+                throw new Error(
+                  "You appear to be offline. Marks with a check-in code can't be saved for later; reconnect and scan the code again."
+                );
+              }
+              useAttendanceQueueStore.getState().enqueue({
+                request: attendanceReq,
+                owner,
+                deviceId,
+                clientTimestamp,
+                signature,
+                idempotencyKey:
+                  get().pendingMutations[operation]?.idempotencyKey ?? (uuid.v4() as string),
+              });
+              setRequest('markAttendance', 'success');
+              return 'queued' as const;
+            };
+
+            if (!useConnectivityStore.getState().isOnline) {
+              return queueAttendance();
+            }
+
+            try {
+              await registerDevice(owner);
+              await runMutation(operation, async (idempotencyKey, isRepeat) => {
+                try {
+                  await api.post<void>('/api/v1/attendance/mark', attendanceReq, {
+                    headers: getAttendanceHeaders(deviceId, clientTimestamp, signature),
+                    responseType: 'text',
+                    idempotencyKey,
+                  });
+                } catch (error) {
+                  // The earlier attempt that timed out was accepted after all
+                  if (isRepeat && error instanceof ApiError && error.status === 409) return;
+                  throw error;
+                }
+              });
+            } catch (error) {
+              // No response from the server: keep the mark and replay it once we are back online
+              if (error instanceof ApiError && error.status === 0) {
+                return queueAttendance();
+              }
+              throw error;
+            }
+
+            // Add a small delay to ensure backend processing completes
+            await new Promise((resolve) => setTimeout(resolve, 500));
+
+            get().invalidate('attendance', 'activeSessions');
+            setRequest('markAttendance', 'success');
+            return 'marked';
+          } catch (error) {
+            setRequest(
+              'markAttendance',
+              'error',
+              getErrorMessage(error, 'Failed to mark attendance')
+            );
+          }
+        },
+
+        // Unlike check-in, check-out is not queued offline: it has to happen near the session end
+        checkOut: async (checkOutReq) => {
+          setRequest('checkOut', 'loading');
+
+          try {
+            const deviceId = await getDeviceId();
+            const clientTimestamp = new Date().toISOString();
+            const signature = await signAttendance(checkOutReq, deviceId, clientTimestamp);
+            await registerDevice(useAuthStore.getState().user?.email ?? '');
+
+            await runMutation(`checkOut:${checkOutReq.sessionId}`, (idempotencyKey) =>
+              api.post<void>('/api/v1/attendance/checkout', checkOutReq, {
+                headers: getAttendanceHeaders(deviceId, clientTimestamp, signature),
+                responseType: 'text',
+                idempotencyKey,
+              })
+            );
+            setRequest('checkOut', 'success');
+
+            get().invalidate('attendance', 'activeSessions');
+          } catch (error) {
+            setRequest('checkOut', 'error', getErrorMessage(error, 'Failed to check out'));
+            throw error;
+          }
+        },
+
+        searchStudents: async (query, signal) => {
+          setRequest('studentSearch', 'loading');
+
+          try {
+            const students = validateList(validateStudent)(
+              await api.get<unknown>('/api/v1/students/search', { query: { query }, signal }),
+              'students'
+            );
+            setRequest('studentSearch', 'success');
+            return students;
+          } catch (error) {
+            if (error instanceof ApiError && error.isCancelled) {
+              setRequest('studentSearch', 'idle');
+            } else {
+              setRequest(
+                'studentSearch',
+                'error',
+                getErrorMessage(error, 'Failed to search students')
+              );
+            }
+            throw error;
+          }
+        },
+
+        overrideAttendance: async (overrideReq) => {
+          setRequest('overrideAttendance', 'loading');
+
+          try {
+            const { sessionId, username, status } = overrideReq;
+            const override = validateAttendanceOverride(
+              await runMutation(
+                `overrideAttendance:${sessionId}:${username}:${status}`,
+                (idempotencyKey) =>
+                  api.post<unknown>('/api/v1/attendance/override', overrideReq, { idempotencyKey })
+              ),
+              'override'
+            );
+
+            updateSession(sessionId, (session) => {
+              const { studentList, overrides } = session.attendance;
+              const isListed = studentList.some(
+                (student) => student.email === override.student.email
+              );
+
+              return {
+                ...session,
+                attendance: {
+                  ...session.attendance,
+                  studentList:
+                    override.status === 'ABSENT'
+                      ? studentList.filter((student) => student.email !== override.student.email)
+                      : isListed
+                        ? studentList
+                        : [...studentList, override.student],
+                  overrides: [...overrides, override],
+                },
+              };
+            });
+            setRequest('overrideAttendance', 'success');
+
+            get().invalidate('sessions', 'activeSessions', 'closedSessions', 'attendance');
+          } catch (error) {
+            setRequest(
+              'overrideAttendance',
+              'error',
+              getErrorMessage(error, 'Failed to update attendance')
+            );
+            throw error;
+          }
+        },
+
+        submitJustification: async (justificationReq) => {
+          setRequest('submitJustification', 'loading');
+
+          try {
+            const { sessionId } = justificationReq;
+            const justification = validateAbsenceJustification(
+              await runMutation(`submitJustification:${sessionId}`, (idempotencyKey) =>
+                api.post<unknown>('/api/v1/justifications/submit', justificationReq, {
+                  idempotencyKey,
+                })
+              ),
+              'justification'
+            );
+
+            updateSession(sessionId, (session) => ({
+              ...session,
+              attendance: {
+                ...session.attendance,
+                justifications: [
+                  ...(session.attendance.justifications ?? []).filter(
+                    (existing) => existing.id !== justification.id
+                  ),
+                  justification,
+                ],
+              },
+            }));
+            setRequest('submitJustification', 'success');
+
+            get().invalidate('sessions', 'attendance');
+          } catch (error) {
+            setRequest(
+              'submitJustification',
+              'error',
+              getErrorMessage(error, 'Failed to submit justification')
+            );
+            throw error;
+          }
+        },
+
+        reviewJustification: async ({ sessionId, justificationId, status, note }) => {
+          setRequest('reviewJustification', 'loading');
+
+          try {
+            const justification = validateAbsenceJustification(
+              await runMutation(
+                `reviewJustification:${justificationId}:${status}`,
+                (idempotencyKey) =>
+                  api.post<unknown>(
+                    `/api/v1/justifications/review/${justificationId}`,
+                    { status, note },
+                    { idempotencyKey }
+                  )
+              ),
+              'justification'
+            );
+
+            updateSession(sessionId, (session) => ({
+              ...session,
+              attendance: {
+                ...session.attendance,
+                justifications: (session.attendance.justifications ?? []).map((existing) =>
+                  existing.id === justification.id ? justification : existing
+                ),
+              },
+            }));
+            setRequest('reviewJustification', 'success');
+
+            get().invalidate('sessions', 'activeSessions', 'closedSessions', 'attendance');
+            return justification;
+          } catch (error) {
+            setRequest(
+              'reviewJustification',
+              'error',
+              getErrorMessage(error, 'Failed to review justification')
+            );
+            throw error;
+          }
+        },
+
+        fetchUsers: (options) =>
+          loadResource(
+            'users',
+            (signal) =>
+              api
+                .get<unknown>('/api/v1/users', { signal })
+                .then((data) => validateList(validateUser)(data, 'users')),
+            'Failed to fetch users',
+            options
+          ),
+
+        updateUser: async (userData) => {
+          setRequest('updateUser', 'loading');
+
+          try {
+            //TODO: Remind to give permissions to update user
+            await runMutation(`updateUser:${JSON.stringify(userData)}`, (idempotencyKey) =>
+              api.put<void>('/api/v1/users/update', userData, {
+                responseType: 'text',
+                idempotencyKey,
+              })
+            );
+            setRequest('updateUser', 'success');
+
+            // Refresh user profile after updating
+            await get().fetchUserProfile();
+          } catch (error) {
+            setRequest('updateUser', 'error', getErrorMessage(error, 'Failed to update user'));
+          }
+        },
+
+        deleteUser: async (userId) => {
+          setRequest('deleteUser', 'loading');
+
+          try {
+            await runMutation(`deleteUser:${userId}`, (idempotencyKey) =>
+              api.delete<string>(`/api/v1/users/delete/${userId}`, {
+                responseType: 'text',
+                idempotencyKey,
+              })
+            );
+            setRequest('deleteUser', 'success');
+
+            // Refresh users after deleting
+            get().invalidate('users');
+            await get().fetchUsers();
+          } catch (error) {
+            setRequest('deleteUser', 'error', getErrorMessage(error, 'Failed to delete user'));
+          }
+        },
+
+        invalidate: (...keys) => {
+          set((state) => {
+            const lastFetched = { ...state.lastFetched };
+            keys.forEach((key) => delete lastFetched[key]);
+
+            // Session lists are other views of the same sessions
+            if (keys.includes('sessions')) {
+              (Object.keys(lastFetched) as (keyof typeof lastFetched)[])
+                .filter(isSessionListKey)
+                .forEach((key) => delete lastFetched[key]);
+            }
+            return { lastFetched };
+          });
+        },
+
+        resetCache: () => {
+          // Supersede everything in flight so no response lands in the cleared cache
+          (Object.keys(latestRequest) as ResourceKey[]).forEach((key) => beginRequest(key));
+          set({ ...initialData, requests: {} });
+        },
+
+        clearError: (...keys) => {
+          set((state) => {
+            const requests = { ...state.requests };
+            (keys.length ? keys : (Object.keys(requests) as ResourceKey[])).forEach((key) => {
+              const request = requests[key];
+              if (request?.status === 'error') {
+                requests[key] = { ...request, status: 'idle', error: null };
+              }
+            });
+            return { requests };
+          });
+        },
+      };
+    },
+    {
+      name: 'api-cache',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        courses: state.courses,
+        sessions: state.sessions,
+        sessionsPage: state.sessionsPage,
+        sessionLists: state.sessionLists,
+        activeSessions: state.activeSessions,
+        closedSessions: state.closedSessions,
+        attendance: state.attendance,
+        timetable: state.timetable,
+        terms: state.terms,
+        termSelection: state.termSelection,
+        users: state.users,
+        lastFetched: state.lastFetched,
+        pendingMutations: state.pendingMutations,
+      }),
+      // Keep whichever copy of each resource is newer, in case a fetch finished before hydration
+      merge: (persisted, current) => {
+        const cached = persisted as Partial<ApiState> | undefined;
+        if (!cached?.lastFetched) return current;
+
+        const merged = {
+          ...current,
+          sessionLists: { ...current.sessionLists },
+          lastFetched: { ...current.lastFetched },
+          pendingMutations: { ...cached.pendingMutations, ...current.pendingMutations },
+          termSelection: cached.termSelection ?? current.termSelection,
+        };
+        (Object.keys(CACHE_TTL) as CacheKey[]).forEach((key) => {
+          const cachedAt = cached.lastFetched?.[key];
+          if (cachedAt && cachedAt > (current.lastFetched[key] ?? 0)) {
+            Object.assign(merged, { [key]: cached[key] });
+            if (key === 'sessions' && cached.sessionsPage) {
+              merged.sessionsPage = cached.sessionsPage;
+            }
+            merged.lastFetched[key] = cachedAt;
+          }
+        });
+        (Object.keys(cached.sessionLists ?? {}) as SessionListKey[]).forEach((key) => {
+          const cachedAt = cached.lastFetched?.[key];
+          if (cachedAt && cachedAt > (current.lastFetched[key] ?? 0) && cached.sessionLists) {
+            merged.sessionLists[key] = cached.sessionLists[key];
+            merged.lastFetched[key] = cachedAt;
+          }
+        });
+        return merged;
+      },
     }
-  },
+  )
+);
+
+// Cached data belongs to the signed-in user; drop it as soon as they sign out
+useAuthStore.subscribe((state, prevState) => {
+  if (prevState.token && !state.token) {
+    useApiStore.getState().resetCache();
+  }
+});
+
+/**
+ * Returns the status of a single resource's latest request.
+ *
+ * @param key - The resource to watch.
+ * @returns The request status, error message and when the resource was last fetched.
+ */
+export const useResourceStatus = (key: ResourceKey): ResourceStatus => {
+  const request = useApiStore((state) => state.requests[key]);
+  const cachedAt = useApiStore((state) => state.lastFetched[key as CacheKey]);
+
+  return {
+    status: request?.status ?? 'idle',
+    error: request?.error ?? null,
+    lastFetched: request?.lastFetched ?? cachedAt,
+    isLoading: request?.status === 'loading',
+  };
+};
 
-  clearError: () => {
-    set({ error: null });
-  },
-}));
+/**
+ * Returns true while any of the given resources is loading.
+ *
+ * @param keys - The resources to watch.
+ */
+export const useIsLoading = (...keys: ResourceKey[]): boolean =>
+  useApiStore((state) => keys.some((key) => state.requests[key]?.status === 'loading'));
+
+/**
+ * Returns the first error among the given resources, or null if none of them failed.
+ *
+ * @param keys - The resources to watch.
+ */
+export const useResourceError = (...keys: ResourceKey[]): string | null =>
+  useApiStore((state) => keys.map((key) => state.requests[key]?.error).find(Boolean) ?? null);
+
+const EMPTY_SESSION_LIST: SessionList = { sessions: [], totalElements: 0 };
+
+/**
+ * Returns the complete session list for a query, as loaded by `fetchSessionList`.
+ *
+ * @param query - The filters the list was loaded with.
+ * @returns The list (empty until it loads) and the status of its latest request.
+ */
+export const useSessionList = (query: SessionQuery): SessionList & ResourceStatus => {
+  const key = getSessionListKey(query);
+  const list = useApiStore((state) => state.sessionLists[key]) ?? EMPTY_SESSION_LIST;
+  return { ...list, ...useResourceStatus(key) };
+};
+
+/**
+ * Returns the term lists and statistics are scoped to.
+ *
+ * @returns The selected term, or null when showing all terms (or no terms are known).
+ */
+export const useSelectedTerm = (): Term | null => {
+  const terms = useApiStore((state) => state.terms);
+  const selection = useApiStore((state) => state.termSelection);
+  return resolveTermSelection(terms, selection);
+};
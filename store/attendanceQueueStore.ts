@@ -0,0 +1,181 @@
+/**
+ * Zustand store for attendance marks captured while the device is offline.
+ *
+ * Lecture halls often have poor connectivity, so `markAttendance` saves the request here instead
+ * of failing. Each entry keeps the original `AttendanceRequest` (with the captured location), the
+ * device ID and a signed client timestamp, and is replayed once connectivity returns.
+ *
+ * @remarks
+ * - Persists the queue in AsyncStorage under the key 'attendance-queue'.
+ * - Entries are tagged with the owner's email and only replayed while that user is signed in.
+ * - Marks carrying a QR check-in token are never queued: the token expires long before a replay.
+ * - Network failures, auth failures (e.g. a token that expired while offline), 408, 429 and 5xx
+ *   responses leave entries pending; only a definitive 4xx answer rejects a mark (with the server's
+ *   reason).
+ * - Replays reuse the mark's idempotency key, and a 409 (already marked) settles the entry as
+ *   synced since an earlier attempt evidently reached the server.
+ *
+ * @example
+ * ```typescript
+ * const { items, syncQueue } = useAttendanceQueueStore();
+ * useAttendanceQueueSync();
+ * ```
+ *
+ * @see AttendanceQueueState
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import uuid from 'react-native-uuid';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { api, ApiError, getErrorMessage } from '~/lib/apiClient';
+import { getAttendanceHeaders, registerDevice } from '~/lib/device';
+import { useApiStore } from '~/store/apiStore';
+import { useAuthStore } from '~/store/authStore';
+import { AttendanceQueueState } from '~/types/app';
+
+/**
+ * Checks whether a failed replay means the server will never accept the mark, as opposed to a
+ * failure that may clear up on its own (connectivity, an expired token, an overloaded server).
+ */
+const isDefinitiveRejection = (error: unknown) =>
+  error instanceof ApiError &&
+  error.status >= 400 &&
+  error.status < 500 &&
+  !error.retryable &&
+  error.status !== 401 &&
+  error.status !== 403;
+
+export const useAttendanceQueueStore = create<AttendanceQueueState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      isSyncing: false,
+
+      enqueue: (item) => {
+        set((state) => ({
+          items: [
+            ...state.items,
+            { ...item, id: uuid.v4() as string, status: 'pending', attempts: 0 },
+          ],
+        }));
+      },
+
+      syncQueue: async () => {
+        const owner = useAuthStore.getState().user?.email;
+        if (get().isSyncing || !owner) return 0;
+        if (!get().items.some((item) => item.status === 'pending' && item.owner === owner))
+          return 0;
+
+        set({ isSyncing: true });
+        let synced = 0;
+
+        try {
+          // The server needs the device's signing key to verify the queued marks
+          await registerDevice(owner);
+
+          for (const item of get().items) {
+            if (item.status !== 'pending' || item.owner !== owner) continue;
+
+            const update = (changes: Partial<typeof item>) =>
+              set((state) => ({
+                items: state.items.map((i) => (i.id === item.id ? { ...i, ...changes } : i)),
+              }));
+
+            try {
+              await api.post<void>('/api/v1/attendance/mark', item.request, {
+                headers: getAttendanceHeaders(item.deviceId, item.clientTimestamp, item.signature),
+                responseType: 'text',
+                idempotencyKey: item.idempotencyKey,
+              });
+
+              update({
+                status: 'synced',
+                attempts: item.attempts + 1,
+                syncedAt: new Date().toISOString(),
+              });
+              synced++;
+            } catch (error) {
+              if (!isDefinitiveRejection(error)) {
+                // Offline, signed out, or the server is struggling; leave the rest for next time
+                update({ attempts: item.attempts + 1 });
+                break;
+              }
+
+              if (error instanceof ApiError && error.status === 409) {
+                // The mark reached the server on an earlier attempt whose response was lost
+                update({
+                  status: 'synced',
+                  attempts: item.attempts + 1,
+                  syncedAt: new Date().toISOString(),
+                });
+                synced++;
+                continue;
+              }
+
+              update({
+                status: 'rejected',
+                attempts: item.attempts + 1,
+                reason: getErrorMessage(error, 'Attendance was rejected by the server'),
+                syncedAt: new Date().toISOString(),
+              });
+            }
+          }
+        } catch {
+          // Registering the device failed; everything stays pending for the next attempt
+        } finally {
+          set({ isSyncing: false });
+        }
+
+        return synced;
+      },
+
+      removeItem: (id) => {
+        set((state) => ({ items: state.items.filter((item) => item.id !== id) }));
+      },
+
+      clearResolved: () => {
+        set((state) => ({ items: state.items.filter((item) => item.status === 'pending') }));
+      },
+    }),
+    {
+      name: 'attendance-queue',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ items: state.items }),
+    }
+  )
+);
+
+/**
+ * React hook that replays the offline attendance queue whenever connectivity returns or the app
+ * comes back to the foreground, then refreshes attendance records if anything was synced.
+ */
+export const useAttendanceQueueSync = () => {
+  useEffect(() => {
+    const sync = async () => {
+      const synced = await useAttendanceQueueStore.getState().syncQueue();
+      if (synced > 0) {
+        await useApiStore.getState().fetchAttendance({ force: true });
+      }
+    };
+
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        sync();
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active') {
+        sync();
+      }
+    });
+
+    return () => {
+      unsubscribeNetInfo();
+      appStateSubscription.remove();
+    };
+  }, []);
+};
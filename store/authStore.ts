@@ -7,7 +7,10 @@
  * @remarks
  * - Uses `zustand` for state management and `zustand/middleware` for persistence.
  * - Persists authentication state in AsyncStorage under the key 'auth-storage'.
- * - Communicates with the backend API using the base URL from Expo Constants.
+ * - Communicates with the backend API through the shared client in `~/lib/apiClient`.
+ * - Keeps a refresh token alongside the JWT; `refreshSession` is single-flight, so concurrent
+ *   401 responses share one refresh call.
+ * - Registers the device's attendance signing key with the server when a student signs in.
  *
  * @example
  * ```typescript
@@ -19,12 +22,16 @@
  * @see {@link RegisterData}
  */
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import Constants from 'expo-constants';
 import { create } from 'zustand';
 import { createJSONStorage, persist } from 'zustand/middleware';
+import { api, ApiError, getErrorMessage } from '~/lib/apiClient';
+import { registerDevice } from '~/lib/device';
 import { AuthState, RegisterData } from '~/types/auth';
 
-const API_BASE_URL = Constants.expoConfig?.extra?.API_BASE_URL;
+/**
+ * The refresh call currently in flight, shared by every caller that hits a 401 at the same time.
+ */
+let refreshPromise: Promise<boolean> | null = null;
 
 export const useAuthStore = create<AuthState>()(
   persist(
@@ -32,6 +39,7 @@ export const useAuthStore = create<AuthState>()(
       user: null,
       resMessage: null,
       token: null,
+      refreshToken: null,
       role: null,
       isLoading: false,
       error: null,
@@ -40,29 +48,31 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true, error: null });
 
         try {
-          const response = await fetch(`${API_BASE_URL}/auth/signIn`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ email, password }),
-          });
-
-          if (!response.ok) {
-            throw new Error('Invalid credentials');
-          }
-
-          const data = await response.json();
+          const data = await api.post<{
+            jwt: string;
+            refreshToken?: string;
+            role: AuthState['role'];
+          }>('/auth/signIn', { email, password }, { auth: false });
 
           set({
             resMessage: true,
             role: data.role,
             token: data.jwt,
+            refreshToken: data.refreshToken ?? null,
             isLoading: false,
           });
+
+          // Attendance marks are signed with a per-device key the server must know. A failure here
+          // is retried before the next mark is sent.
+          if (data.role === 'STUDENT') {
+            registerDevice(email, true).catch(() => {});
+          }
         } catch (error) {
           set({
-            error: error instanceof Error ? error.message : 'Sign in failed',
+            error:
+              error instanceof ApiError && (error.status === 401 || error.status === 403)
+                ? 'Invalid credentials'
+                : getErrorMessage(error, 'Sign in failed'),
             isLoading: false,
           });
         }
@@ -72,23 +82,12 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true, error: null });
 
         try {
-          const response = await fetch(`${API_BASE_URL}/auth/register`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(data),
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(errorText || 'Registration failed');
-          }
+          await api.post<void>('/auth/register', data, { auth: false, responseType: 'text' });
 
           set({ isLoading: false });
         } catch (error) {
           set({
-            error: error instanceof Error ? error.message : 'Registration failed',
+            error: getErrorMessage(error, 'Registration failed'),
             isLoading: false,
           });
         }
@@ -99,37 +98,67 @@ export const useAuthStore = create<AuthState>()(
       },
 
       signOut: () => {
-        set({ user: null, token: null, role: null, resMessage: null, error: null });
+        set({
+          user: null,
+          token: null,
+          refreshToken: null,
+          role: null,
+          resMessage: null,
+          error: null,
+        });
+      },
+
+      refreshSession: () => {
+        const refreshToken = get().refreshToken;
+        if (!refreshToken) return Promise.resolve(false);
+
+        if (!refreshPromise) {
+          refreshPromise = api
+            .post<{ jwt: string; refreshToken?: string }>(
+              '/auth/refresh',
+              { refreshToken },
+              { auth: false }
+            )
+            .then((data) => {
+              set({ token: data.jwt, refreshToken: data.refreshToken ?? refreshToken });
+              return true;
+            })
+            .catch((error) => {
+              // Only a rejected refresh token ends the session; network and server failures are
+              // passed on so the caller can retry without losing it.
+              if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+                return false;
+              }
+              throw error;
+            })
+            .finally(() => {
+              refreshPromise = null;
+            });
+        }
+
+        return refreshPromise;
       },
 
       forgotPassword: async (email) => {
         set({ isLoading: true, error: null });
 
         try {
-          const response = await fetch(`${API_BASE_URL}/auth/forgot-password`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ email }), // ← Changed: Wrap email in object
-          });
-
-          const responseText = await response.text(); // Get text response
-
-          if (!response.ok) {
-            throw new Error(responseText || 'Password Reset failed');
-          }
+          await api.post<void>(
+            '/auth/forgot-password',
+            { email },
+            { auth: false, responseType: 'text' }
+          );
 
           set({ isLoading: false });
-          return true 
+          return true;
         } catch (error) {
           set({
-            error: error instanceof Error ? error.message : 'Password Reset failed',
+            error: getErrorMessage(error, 'Password Reset failed'),
             isLoading: false,
           });
-          return false 
+          return false;
         }
-},
+      },
 
       clearError: () => {
         set({ error: null });
@@ -0,0 +1,61 @@
+/**
+ * Zustand store tracking whether the device can currently reach the network.
+ *
+ * The store listens to NetInfo for the lifetime of the app. The API client consults it to pause
+ * retryable requests while the device is offline instead of burning through retries, and the root
+ * layout uses it to show a global offline banner.
+ *
+ * @remarks
+ * - `isOnline` is optimistic: it stays true until NetInfo reports otherwise, so requests are never
+ *   held back on cold start before the first report arrives.
+ * - A device on a captive portal or without a route to the internet counts as offline once NetInfo
+ *   reports `isInternetReachable === false`.
+ *
+ * @example
+ * ```typescript
+ * const isOnline = useConnectivityStore((state) => state.isOnline);
+ * const online = await useConnectivityStore.getState().waitForConnection(10000);
+ * ```
+ *
+ * @see ConnectivityState
+ */
+import NetInfo from '@react-native-community/netinfo';
+import { create } from 'zustand';
+import { ConnectivityState } from '~/types/app';
+
+export const useConnectivityStore = create<ConnectivityState>()((set, get) => ({
+  isOnline: true,
+  connectionType: null,
+  lastChangedAt: null,
+
+  waitForConnection: (timeoutMs, signal) => {
+    if (get().isOnline) return Promise.resolve(true);
+    if (signal?.aborted) return Promise.resolve(false);
+
+    return new Promise<boolean>((resolve) => {
+      const finish = (online: boolean) => {
+        clearTimeout(timer);
+        unsubscribe();
+        signal?.removeEventListener('abort', onAbort);
+        resolve(online);
+      };
+      const onAbort = () => finish(false);
+
+      const timer = setTimeout(() => finish(false), timeoutMs);
+      const unsubscribe = useConnectivityStore.subscribe((state) => {
+        if (state.isOnline) finish(true);
+      });
+      signal?.addEventListener('abort', onAbort);
+    });
+  },
+}));
+
+NetInfo.addEventListener((state) => {
+  const isOnline = state.isConnected !== false && state.isInternetReachable !== false;
+
+  useConnectivityStore.setState((current) => ({
+    isOnline,
+    connectionType: state.type,
+    lastChangedAt: current.isOnline === isOnline ? current.lastChangedAt : Date.now(),
+  }));
+});
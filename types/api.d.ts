@@ -0,0 +1,54 @@
+/**
+ * HTTP methods supported by the API client.
+ */
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Query string values accepted by the API client. `undefined` and `null` values are skipped.
+ */
+type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * How a failed request is retried.
+ * @property retries - How many times to retry after the first attempt.
+ * @property baseDelayMs - The backoff before the first retry; doubled for every further retry.
+ * @property maxDelayMs - The upper bound for a single backoff.
+ */
+interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Options for a single API request.
+ * @property method - The HTTP method (defaults to 'GET').
+ * @property body - The request payload, serialized as JSON.
+ * @property query - Query string parameters appended to the endpoint.
+ * @property headers - Extra headers merged over the defaults.
+ * @property auth - Whether to send the bearer token (defaults to true).
+ * @property timeoutMs - Milliseconds before the request is aborted (defaults to 15000).
+ * @property responseType - How to read a successful response body (defaults to 'json').
+ * @property signal - Cancels the request when aborted; the call rejects with a cancelled `ApiError`.
+ * @property dedupe - Share an identical in-flight request instead of sending a new one
+ *   (defaults to true for GET requests, and is ignored for other methods).
+ * @property retry - Overrides the default retry policy, or disables retries with `false`.
+ *   Only GET requests and requests with an `idempotencyKey` are ever retried.
+ * @property idempotencyKey - Sent as the `Idempotency-Key` header so the server can recognise a
+ *   repeated mutation; makes the request safe to retry.
+ */
+interface RequestOptions<TBody = unknown> {
+  method?: HttpMethod;
+  body?: TBody;
+  query?: QueryParams;
+  headers?: Record<string, string>;
+  auth?: boolean;
+  timeoutMs?: number;
+  responseType?: 'json' | 'text';
+  signal?: AbortSignal;
+  dedupe?: boolean;
+  retry?: Partial<RetryPolicy> | false;
+  idempotencyKey?: string;
+}
+
+export type { HttpMethod, QueryParams, RequestOptions, RetryPolicy };
@@ -7,12 +7,168 @@ type departmentName = 'Art' | 'Science' | 'Economics' | 'Law';
  * @property courseName - The name of the course.
  * @property courseCode - The unique code identifying the course.
  * @property lecturerId - The ID of the lecturer assigned to the course.
+ * @property lateThresholdMinutes - (Optional) Default for how many minutes after a session starts
+ *   a check-in still counts as on time.
+ * @property minimumPresencePercent - (Optional) Share of a session (0-100) a student must be
+ *   present for, between check-in and check-out, for their attendance to count.
+ * @property studentCount - (Optional) How many students are enrolled.
+ * @property enrolledAt - (Optional) For students, when they enrolled (ISO string); missing if they
+ *   are not enrolled.
+ * @property sessionCount - (Optional) How many sessions have been held or scheduled.
+ * @property archivedAt - (Optional) When the course was archived (ISO string); missing while active.
+ * @property archivedSemester - (Optional) The semester the course was archived under, e.g.
+ *   "2025/2026 Semester 1".
+ * @property termId - (Optional) The term the course is taught in; courses without one show in
+ *   every term.
+ * @property staff - (Optional) Everyone who teaches the course, including the owner.
  */
 interface Course {
   courseName: string;
   courseCode: string;
   lecturerId: number;
   department: string;
+  lateThresholdMinutes?: number;
+  minimumPresencePercent?: number;
+  studentCount?: number;
+  enrolledAt?: string;
+  sessionCount?: number;
+  archivedAt?: string;
+  archivedSemester?: string;
+  termId?: number;
+  staff?: CourseStaffMember[];
+}
+
+/**
+ * A staff member's role on a course. The owner (`Course.lecturerId`) manages the course and its
+ * staff; co-lecturers and teaching assistants help run it.
+ */
+type CourseStaffRole = 'OWNER' | 'CO_LECTURER' | 'TA';
+
+/**
+ * Something a course's staff may be allowed to do:
+ * - 'runSessions': start, end, extend and reopen sessions.
+ * - 'editAttendance': override attendance and review absence justifications.
+ * - 'manageCourse': edit, archive or delete the course and manage its staff.
+ */
+type CourseStaffPermission = 'runSessions' | 'editAttendance' | 'manageCourse';
+
+/**
+ * A member of a course's teaching staff.
+ * @property id - The staff member's user ID.
+ */
+interface CourseStaffMember {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: CourseStaffRole;
+}
+
+/**
+ * Adds a lecturer to a course's staff.
+ * @property email - The lecturer's email.
+ * @property role - Their role; a course has exactly one owner.
+ */
+interface CourseStaffRequest {
+  email: string;
+  role: Exclude<CourseStaffRole, 'OWNER'>;
+}
+
+/**
+ * An academic term (semester). Courses are bound to a term, and sessions and attendance belong to
+ * the term their date falls in.
+ * @property startDate - First day of the term (ISO date).
+ * @property endDate - Last day of the term (ISO date), inclusive.
+ */
+interface Term {
+  id: number;
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Which term lists and statistics are scoped to: a specific term by ID, whichever term is
+ * current, or all terms.
+ */
+type TermSelection = number | 'CURRENT' | 'ALL';
+
+/**
+ * Editable details of a course. Changing the code renames the course everywhere.
+ * @property termId - (Optional) The term to bind the course to.
+ */
+interface CourseUpdate {
+  courseName: string;
+  courseCode: string;
+  termId?: number;
+}
+
+/**
+ * A student enrolled in a course.
+ * @property enrolledAt - When the student joined the course (ISO string).
+ */
+interface RosterEntry extends Student {
+  enrolledAt: string;
+}
+
+/**
+ * Roster CSV fields that can be mapped to a column.
+ */
+type RosterImportField = 'indexNumber' | 'name' | 'email' | 'program';
+
+/**
+ * Which CSV column (by position) holds each field; null when the field is not mapped.
+ */
+type RosterImportMapping = Record<RosterImportField, number | null>;
+
+/**
+ * A student read from a roster CSV, ready to import.
+ * @property indexNumber - The student's index number, upper-cased.
+ * @property email - The student's email; empty when not mapped.
+ * @property program - The student's program; empty when not mapped.
+ */
+interface RosterImportRow {
+  indexNumber: string;
+  name: string;
+  email: string;
+  program: string;
+}
+
+/**
+ * A problem found with a row of a roster CSV.
+ * @property line - The row's line number in the file.
+ * @property indexNumber - (Optional) The row's index number, when it has one.
+ * @property message - What is wrong with the row.
+ */
+interface RosterImportIssue {
+  line: number;
+  indexNumber?: string;
+  message: string;
+}
+
+/**
+ * A roster CSV checked against a column mapping, before it is imported.
+ * @property rows - The rows that will be imported.
+ * @property errors - Rows that will be skipped because they are invalid.
+ * @property duplicates - Rows that will be skipped because the student appears earlier in the file
+ *   or is already enrolled.
+ */
+interface RosterImportPreview {
+  rows: RosterImportRow[];
+  errors: RosterImportIssue[];
+  duplicates: RosterImportIssue[];
+}
+
+/**
+ * Outcome of importing a roster.
+ * @property roster - The course roster after the import.
+ * @property added - How many students were enrolled.
+ * @property unmatched - Index numbers that have no student account, so were not enrolled.
+ */
+interface RosterImportResult {
+  roster: RosterEntry[];
+  added: number;
+  unmatched: string[];
 }
 
 /**
@@ -33,12 +189,49 @@ interface Department {
  * Request payload for creating a session.
  * @property courseName - The name of the course for the session.
  * @property location - The location where the session will be held.
+ * @property radius - (Optional) How far from `location` students may mark attendance, in meters.
+ * @property startTime - (Optional) When a scheduled session opens (ISO string); omit to start now.
+ * @property lateThresholdMinutes - (Optional) Minutes after the start before check-ins count as
+ *   late; omit to use the course default.
+ * @property requiresCheckOut - (Optional) Whether students must also check out near the end.
+ * @property requiresQrCode - (Optional) Whether students must scan the session's rotating QR code.
  */
 
 interface SessionRequest {
   courseName: string;
   location: Location;
+  radius?: number;
+  startTime?: string;
+  lateThresholdMinutes?: number;
+  requiresCheckOut?: boolean;
+  requiresQrCode?: boolean;
+}
+
+/**
+ * A weekly timetable slot for a course. The server creates a scheduled session for every
+ * occurrence and opens it automatically at its start time.
+ * @property id - The unique identifier for the slot.
+ * @property courseCode - The course the slot belongs to.
+ * @property dayOfWeek - Day of the week, 0 (Sunday) to 6 (Saturday).
+ * @property startTime - Local start time as "HH:mm".
+ * @property durationMinutes - How long each session stays open.
+ * @property location - Where the sessions are held.
+ * @property radius - How far from `location` students may mark attendance, in meters.
+ */
+interface TimetableSlot {
+  id: number;
+  courseCode: string;
+  dayOfWeek: number;
+  startTime: string;
+  durationMinutes: number;
+  location: Location;
+  radius: number;
 }
+
+/**
+ * Request payload for adding a timetable slot.
+ */
+type TimetableSlotRequest = Omit<TimetableSlot, 'id'>;
 /*TODO: ask to make sure the student Index number is a string eg:"PS/CSC/21/0001"  
   or are you making it to send the user id then you query the student table to find the index number?
   it better if you don't query the db many times, i can just send the index number and then you add it to the response and then i can display it for the lecturer
@@ -48,35 +241,119 @@ interface SessionRequest {
  * @property sessionId - The ID of the session.
  * @property location - The location of the student during attendance marking.
  * @property studentId - (Optional) The index number of the student (e.g., "PS/CSC/21/0001").
+ * @property accuracy - (Optional) GPS accuracy of `location` in meters.
+ * @property integrity - (Optional) How trustworthy the location reading is.
+ * @property qrToken - (Optional) The rotating token scanned from the lecturer's screen, proving
+ *   the student is in the room.
  */
 
 interface AttendanceRequest {
   sessionId: number;
   location: Location;
+  accuracy?: number;
+  integrity?: LocationIntegrityReport;
+  qrToken?: string;
+}
+
+/**
+ * Problems found while sampling the student's location.
+ * - 'MOCKED': the platform reported the location as coming from a mock provider.
+ * - 'LOW_ACCURACY': no sample was accurate enough, so the best poor one was used.
+ * - 'IMPLAUSIBLE_JUMP': consecutive samples were further apart than anyone could travel.
+ */
+type LocationIntegrityFlag = 'MOCKED' | 'LOW_ACCURACY' | 'IMPLAUSIBLE_JUMP';
+
+/**
+ * Summary of the location samples behind an attendance request, so the server can judge it.
+ * @property sampleCount - How many fixes were taken.
+ * @property acceptedCount - How many fixes met the accuracy threshold.
+ * @property accuracy - Accuracy of the reported location in meters, or null when unknown.
+ * @property maxSpeed - Fastest apparent movement between consecutive fixes in meters per second.
+ * @property flags - Problems found in the samples.
+ */
+interface LocationIntegrityReport {
+  sampleCount: number;
+  acceptedCount: number;
+  accuracy: number | null;
+  maxSpeed: number;
+  flags: LocationIntegrityFlag[];
 }
 
+/**
+ * A short-lived check-in token displayed as a QR code on the lecturer's device.
+ * @property sessionId - The session the token belongs to.
+ * @property token - The opaque token students submit with their attendance.
+ * @property expiresAt - When the token stops being accepted (ISO string).
+ */
+interface QrToken {
+  sessionId: number;
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * Lifecycle state of a session.
+ * - 'SCHEDULED': created ahead of time; opens automatically at `startTime`.
+ * - 'ACTIVE': open for attendance until `endTime`.
+ * - 'REOPENED': closed, then reopened by the lecturer for a short grace window.
+ * - 'CLOSED': no longer accepting attendance.
+ */
+type SessionStatus = 'SCHEDULED' | 'ACTIVE' | 'REOPENED' | 'CLOSED';
+
 /**
  * Represents a session for a course.
  * @property id - The unique identifier for the session.
- * @property status - The current status of the session ('ACTIVE' or 'CLOSED').
+ * @property status - The current lifecycle state of the session.
  * @property startTime - The start time of the session (ISO string).
  * @property endTime - The end time of the session (ISO string).
  * @property location - The location where the session is held.
+ * @property radius - How far from `location` students may mark attendance, in meters.
+ * @property lateThresholdMinutes - Minutes after `startTime` before check-ins count as late.
+ * @property requiresCheckOut - Whether students check out near the end, so time present is known.
+ * @property requiresQrCode - Whether marks must carry a token scanned from the lecturer's screen.
  * @property lecturer - The lecturer conducting the session.
  * @property course - The course associated with the session.
  * @property attendance - The attendance record for the session.
  */
 interface Session {
   id: number;
-  status: 'ACTIVE' | 'CLOSED';
+  status: SessionStatus;
   startTime: string;
   endTime: string;
   location: Location;
+  radius: number;
+  lateThresholdMinutes: number;
+  requiresCheckOut: boolean;
+  requiresQrCode: boolean;
   lecturer: Lecturer;
   course: Course;
   attendance: Attendance;
 }
 
+/**
+ * A realtime update pushed by the server for a single session.
+ * - 'STUDENT_JOINED': a student marked attendance.
+ * - 'STUDENT_CHECKED_OUT': a student checked out at `checkedOutAt`.
+ * - 'SESSION_CLOSED': the session ended; `endTime` is when it closed.
+ * - 'SESSION_EXTENDED': the session was extended until `endTime`.
+ * - 'SESSION_REOPENED': the closed session was reopened until `endTime`.
+ */
+type SessionEvent =
+  | { type: 'STUDENT_JOINED'; sessionId: number; student: AttendanceEntry }
+  | { type: 'STUDENT_CHECKED_OUT'; sessionId: number; username: string; checkedOutAt: string }
+  | { type: 'SESSION_CLOSED'; sessionId: number; endTime: string }
+  | { type: 'SESSION_EXTENDED'; sessionId: number; endTime: string }
+  | { type: 'SESSION_REOPENED'; sessionId: number; endTime: string };
+
+/**
+ * State of a session's realtime channel.
+ * - 'connecting': opening (or reopening) the channel.
+ * - 'live': events are being pushed by the server.
+ * - 'polling': the channel is unavailable, so the session is polled instead.
+ * - 'closed': no updates are expected (e.g. the session has ended).
+ */
+type RealtimeStatus = 'connecting' | 'live' | 'polling' | 'closed';
+
 /**
  * Represents a geographical location.
  * @property latitude - The latitude coordinate.
@@ -94,7 +371,7 @@ interface Location {
  * @property lastName - The last name of the lecturer.
  * @property email - The email address of the lecturer.
  * @property role - The role of the user (typically 'LECTURER').
- * @property department - The department the lecturer belongs to.
+ * @property department - (Optional) The department the lecturer belongs to.
  * @property id - The unique identifier for the lecturer.
  * @property lecturerId - The lecturer's specific ID.
  * @property name - The full name of the lecturer.
@@ -110,7 +387,7 @@ interface Lecturer {
   lastName: string;
   email: string;
   role: 'LECTURER' | string;
-  department: Department;
+  department?: string | Department;
   //TODO: extras?
 
   id: number;
@@ -119,7 +396,6 @@ interface Lecturer {
   courses: Course[];
   sessions: Session[];
   attendance: Attendance[];
-  department: string;
   location?: Location;
 }
 
@@ -143,13 +419,36 @@ interface Student {
   email: string;
   role: 'STUDENT' | string;
 }
+
+/**
+ * A student who attended a session.
+ * @property checkedInAt - (Optional) When the student checked in (ISO string); missing for
+ *   students added by the lecturer.
+ * @property checkedOutAt - (Optional) When the student checked out (ISO string), for sessions
+ *   that require it.
+ */
+interface AttendanceEntry extends Student {
+  checkedInAt?: string;
+  checkedOutAt?: string;
+}
+
+/**
+ * Whether a student attended a session, and if so whether they were on time. 'EXCUSED' is an
+ * absence covered by an approved justification.
+ */
+type AttendanceStatus = 'PRESENT' | 'LATE' | 'ABSENT' | 'EXCUSED';
+
 /**
  * Represents an attendance record for a session.
  * @property courseName - The name of the course.
  * @property date - The date of the session (ISO string).
  * @property time - The time of the session.
  * @property lecturer - The name of the lecturer.
+ * @property lateThresholdMinutes - Minutes after `date` before check-ins count as late.
  * @property studentList - The list of students who attended the session.
+ * @property overrides - Manual changes made by the lecturer, oldest first.
+ * @property justifications - Absence justifications submitted for the session; students only
+ *   receive their own.
  */
 
 interface Attendance {
@@ -157,73 +456,565 @@ interface Attendance {
   date: string;
   time: string;
   lecturer: string;
-  studentList: Student[];
+  lateThresholdMinutes: number;
+  studentList: AttendanceEntry[];
+  overrides: AttendanceOverride[];
+  justifications: AbsenceJustification[];
+}
+
+/**
+ * Whether a manual override marks a student present or absent.
+ */
+type AttendanceOverrideStatus = 'PRESENT' | 'ABSENT';
+
+/**
+ * A lecturer's manual change to a session's attendance, e.g. for a student whose phone died.
+ * @property student - The student the override applies to.
+ * @property status - Whether the student was marked present or absent.
+ * @property reason - Why the lecturer made the change.
+ * @property createdAt - When the override was recorded (ISO string).
+ */
+interface AttendanceOverride {
+  student: Student;
+  status: AttendanceOverrideStatus;
+  reason: string;
+  createdAt: string;
+}
+
+/**
+ * Request payload for manually marking a student present or absent.
+ * @property sessionId - The ID of the session.
+ * @property username - The username of the student.
+ * @property status - Whether to mark the student present or absent.
+ * @property reason - Why the lecturer is making the change.
+ */
+interface AttendanceOverrideRequest {
+  sessionId: number;
+  username: string;
+  status: AttendanceOverrideStatus;
+  reason: string;
+}
+
+/**
+ * Review state of an absence justification.
+ */
+type AbsenceJustificationStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+/**
+ * A student's explanation for missing a session, reviewed by the lecturer.
+ * @property id - The unique identifier for the justification.
+ * @property student - The student who submitted it.
+ * @property reason - Why the student was absent.
+ * @property attachmentName - (Optional) File name of the supporting document.
+ * @property attachmentUrl - (Optional) Where the supporting document can be downloaded.
+ * @property status - Whether the lecturer has approved or rejected it yet.
+ * @property reviewNote - (Optional) The lecturer's comment on the decision.
+ * @property createdAt - When it was submitted (ISO string).
+ * @property reviewedAt - (Optional) When it was approved or rejected (ISO string).
+ */
+interface AbsenceJustification {
+  id: number;
+  student: Student;
+  reason: string;
+  attachmentName?: string;
+  attachmentUrl?: string;
+  status: AbsenceJustificationStatus;
+  reviewNote?: string;
+  createdAt: string;
+  reviewedAt?: string;
+}
+
+/**
+ * A supporting document picked from the device, sent inline with the justification.
+ * @property name - The file name.
+ * @property mimeType - The file's MIME type.
+ * @property data - The file contents, base64 encoded.
+ */
+interface JustificationAttachment {
+  name: string;
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * Request payload for justifying an absence.
+ * @property sessionId - The ID of the missed session.
+ * @property reason - Why the student was absent.
+ * @property attachment - (Optional) A supporting document, e.g. a medical note.
+ */
+interface AbsenceJustificationRequest {
+  sessionId: number;
+  reason: string;
+  attachment?: JustificationAttachment;
+}
+
+/**
+ * Request payload for approving or rejecting an absence justification.
+ * @property sessionId - The ID of the missed session.
+ * @property justificationId - The ID of the justification.
+ * @property status - The decision.
+ * @property note - (Optional) A comment for the student.
+ */
+interface AbsenceJustificationReview {
+  sessionId: number;
+  justificationId: number;
+  status: Exclude<AbsenceJustificationStatus, 'PENDING'>;
+  note?: string;
+}
+
+/**
+ * Outcome of a successful `markAttendance` call.
+ * - 'marked': the server accepted the mark.
+ * - 'queued': the device was offline, so the mark was saved to the offline queue.
+ */
+type AttendanceMarkResult = 'marked' | 'queued';
+
+/**
+ * Sync status of an attendance mark waiting in the offline queue.
+ */
+type QueuedAttendanceStatus = 'pending' | 'synced' | 'rejected';
+
+/**
+ * An attendance mark captured while offline, waiting to be replayed.
+ * @property id - Local identifier for the queue entry.
+ * @property request - The original attendance request, including the captured location.
+ * @property owner - Email of the user who marked attendance; entries are only synced for them.
+ * @property deviceId - The device ID at the time of marking.
+ * @property clientTimestamp - ISO timestamp of when the student marked attendance.
+ * @property signature - Device signature over the request and timestamp.
+ * @property idempotencyKey - The key the mark was first sent with, reused when it is replayed.
+ * @property status - Current sync status.
+ * @property reason - The server's reason when the mark was rejected.
+ * @property attempts - Number of sync attempts made so far.
+ * @property syncedAt - ISO timestamp of when the server accepted or rejected the mark.
+ */
+interface QueuedAttendance {
+  id: string;
+  request: AttendanceRequest;
+  owner: string;
+  deviceId: string;
+  clientTimestamp: string;
+  signature: string;
+  idempotencyKey?: string;
+  status: QueuedAttendanceStatus;
+  reason?: string;
+  attempts: number;
+  syncedAt?: string;
+}
+
+/**
+ * Represents the state and actions for the offline attendance queue.
+ * @property items - Queued attendance marks, oldest first.
+ * @property isSyncing - Indicates if the queue is currently being replayed.
+ * @property enqueue - Adds a mark to the queue.
+ * @property syncQueue - Replays pending marks for the current user; resolves to the number synced.
+ * @property removeItem - Removes a single entry from the queue.
+ * @property clearResolved - Removes every synced or rejected entry.
+ */
+interface AttendanceQueueState {
+  items: QueuedAttendance[];
+  isSyncing: boolean;
+
+  enqueue: (
+    item: Omit<QueuedAttendance, 'id' | 'status' | 'attempts' | 'reason' | 'syncedAt'>
+  ) => void;
+  syncQueue: () => Promise<number>;
+  removeItem: (id: string) => void;
+  clearResolved: () => void;
+}
+
+/**
+ * Represents the device's network connectivity.
+ * @property isOnline - Whether the device is connected and the internet is not known to be
+ *   unreachable. Optimistically true until the first network report arrives.
+ * @property connectionType - The active connection type reported by the OS (e.g. 'wifi').
+ * @property lastChangedAt - When `isOnline` last changed (epoch milliseconds).
+ * @property waitForConnection - Resolves to true once the device is online, or false after the
+ *   timeout or when the signal is aborted.
+ */
+interface ConnectivityState {
+  isOnline: boolean;
+  connectionType: string | null;
+  lastChangedAt: number | null;
+
+  waitForConnection: (timeoutMs: number, signal?: AbortSignal) => Promise<boolean>;
+}
+
+/**
+ * Resources cached by the API store, each with its own timestamp and TTL.
+ */
+type CacheKey =
+  | 'courses'
+  | 'sessions'
+  | 'activeSessions'
+  | 'closedSessions'
+  | 'attendance'
+  | 'timetable'
+  | 'terms'
+  | 'users';
+
+/**
+ * Options for cached fetch actions.
+ * @property force - Fetch from the server even if the cached data is still fresh.
+ * @property signal - Cancels the fetch (e.g. when the calling screen unmounts). A cancelled fetch
+ *   leaves the cached data and status untouched.
+ */
+interface FetchOptions {
+  force?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Server-side filters for the paginated session list.
+ * @property search - Free-text search over course name and code.
+ * @property status - Only return sessions with this status.
+ * @property courseCode - Only return sessions of this course.
+ * @property termId - Only return sessions held during this term.
+ * @property staffOnly - Only return sessions the signed-in lecturer ran or whose course they are on
+ *   the staff of.
+ */
+interface SessionQuery {
+  search?: string;
+  status?: Session['status'];
+  courseCode?: string;
+  termId?: number;
+  staffOnly?: boolean;
+}
+
+/**
+ * Options for `fetchSessions`.
+ * @property query - Filters to apply; changing them always refetches from the first page.
+ *   Defaults to the filters of the current list.
+ */
+interface SessionFetchOptions extends FetchOptions {
+  query?: SessionQuery;
+}
+
+/**
+ * A page of results as returned by paginated endpoints.
+ * @property content - The items on this page.
+ * @property number - The zero-based page index.
+ * @property size - The requested page size.
+ * @property totalPages - The total number of pages.
+ * @property totalElements - The total number of items across all pages.
+ * @property last - Whether this is the last page.
+ */
+interface Page<T> {
+  content: T[];
+  number: number;
+  size: number;
+  totalPages: number;
+  totalElements: number;
+  last: boolean;
+}
+
+/**
+ * Pagination state of the loaded session list.
+ * @property page - The zero-based index of the last loaded page.
+ * @property size - The page size.
+ * @property totalPages - The total number of pages for the current query.
+ * @property totalElements - The total number of sessions matching the current query.
+ * @property hasMore - Whether `loadMoreSessions` can load another page.
+ * @property query - The filters the list was loaded with.
+ */
+interface SessionPagination {
+  page: number;
+  size: number;
+  totalPages: number;
+  totalElements: number;
+  hasMore: boolean;
+  query: SessionQuery;
+}
+
+/**
+ * Identifies a complete session list by its normalized query, e.g. 'sessionList:{"termId":3}'.
+ */
+type SessionListKey = `sessionList:${string}`;
+
+/**
+ * Every session matching a query, loaded page by page until the last one. Unlike the paginated
+ * `sessions` list, each query gets its own list, so screens that count or aggregate sessions
+ * don't depend on whichever filters another screen last applied.
+ * @property sessions - The matching sessions.
+ * @property totalElements - The number of matching sessions reported by the server.
+ */
+interface SessionList {
+  sessions: Session[];
+  totalElements: number;
+}
+
+/**
+ * The idempotency key of a mutation whose outcome is not known yet.
+ * @property idempotencyKey - The key sent with the mutation; reused when it is repeated.
+ * @property createdAt - When the key was generated (epoch milliseconds).
+ */
+interface PendingMutation {
+  idempotencyKey: string;
+  createdAt: number;
+}
+
+/**
+ * Every request tracked by the API store: the cached resources plus one-off requests and mutations.
+ */
+type ResourceKey =
+  | CacheKey
+  | SessionListKey
+  | 'profile'
+  | 'singleAttendance'
+  | 'addCourse'
+  | 'moreSessions'
+  | 'createSession'
+  | 'qrToken'
+  | 'endSession'
+  | 'extendSession'
+  | 'reopenSession'
+  | 'addTimetableSlot'
+  | 'deleteTimetableSlot'
+  | 'markAttendance'
+  | 'checkOut'
+  | 'studentSearch'
+  | 'overrideAttendance'
+  | 'submitJustification'
+  | 'reviewJustification'
+  | 'roster'
+  | 'addToRoster'
+  | 'removeFromRoster'
+  | 'importRoster'
+  | 'enroll'
+  | 'updateCourse'
+  | 'archiveCourse'
+  | 'deleteCourse'
+  | 'courseStaff'
+  | 'updateUser'
+  | 'deleteUser';
+
+/**
+ * Lifecycle of a tracked request.
+ */
+type RequestStatus = 'idle' | 'loading' | 'success' | 'error';
+
+/**
+ * Status of the latest request for a resource.
+ * @property status - The request lifecycle state.
+ * @property error - The error message when the request failed.
+ * @property lastFetched - When the resource last loaded successfully (epoch milliseconds).
+ */
+interface RequestState {
+  status: RequestStatus;
+  error: string | null;
+  lastFetched?: number;
+}
+
+/**
+ * Resource status as exposed to screens by `useResourceStatus`.
+ * @property isLoading - Shorthand for `status === 'loading'`.
+ */
+interface ResourceStatus extends RequestState {
+  isLoading: boolean;
 }
 
 /**
  * Represents the state and actions for API data management.
  * @property courses - The list of courses.
- * @property sessions - The list of sessions.
+ * @property rosters - Enrolled students of each course loaded so far, keyed by course code.
+ * @property sessions - The loaded pages of sessions.
+ * @property sessionsPage - Pagination state and filters of `sessions`.
+ * @property sessionLists - Complete session lists loaded for a query each, keyed by query.
  * @property attendance - The list of attendance records.
  * @property users - The list of users.
- * @property isLoading - Indicates if an API request is in progress.
- * @property error - The error message, if any.
+ * @property terms - The academic terms, oldest first.
+ * @property termSelection - The term lists and statistics are scoped to.
+ * @property lastFetched - When each cached resource was last fetched (epoch milliseconds).
+ * @property requests - Status of the latest request for each resource.
+ * @property pendingMutations - Idempotency keys of mutations that may or may not have reached the
+ *   server, keyed by operation, so repeating the operation is safe.
+ * @property fetchTerms - Fetches the academic terms.
+ * @property selectTerm - Changes the term lists and statistics are scoped to.
  * @property fetchCourses - Fetches the list of courses.
  * @property addCourse - Adds a new course.
- * @property fetchSessions - Fetches the list of sessions.
- * @property createSession - Creates a new session.
+ * @property updateCourse - Changes a course's name or code.
+ * @property archiveCourse - Archives a course under a semester, or restores it when `semester` is
+ *   null.
+ * @property deleteCourse - Deletes a course. Courses with sessions can only be archived.
+ * @property addCourseStaff - Adds a co-lecturer or teaching assistant to a course.
+ * @property updateCourseStaff - Changes a staff member's role on a course.
+ * @property removeCourseStaff - Removes a staff member from a course.
+ * @property fetchRoster - Fetches the students enrolled in a course.
+ * @property addToRoster - Enrolls students in a course.
+ * @property removeFromRoster - Removes a student from a course.
+ * @property importRoster - Enrolls the students of an imported roster CSV in a course.
+ * @property enrollInCourse - Enrolls the current student in a course.
+ * @property fetchSessions - Fetches the first page of sessions matching the given filters.
+ * @property loadMoreSessions - Appends the next page of sessions, if any.
+ * @property fetchSessionList - Fetches every session matching a query into its own list, for
+ *   statistics and per-course views.
+ * @property createSession - Creates a new session. Pass the same `submissionId` when retrying a
+ *   submission of the create form, so the server can tell it apart from a new session.
+ * @property discardSessionSubmission - Forgets the idempotency keys of a create form submission
+ *   once the form is dismissed.
  * @property fetchAttendance - Fetches attendance records.
- * @property markAttendance - Marks attendance for a session.
+ * @property markAttendance - Marks attendance for a session, queueing it when the device is offline
+ *   (unless it carries a QR check-in token).
+ * @property checkOut - Checks the student out of a session they checked in to.
+ * @property submitJustification - Submits a student's justification for missing a session.
+ * @property reviewJustification - Approves or rejects an absence justification.
  * @property fetchUserProfile - Fetches the profile of the current user.
  * @property fetchUsers - Fetches the list of users.
  * @property updateUser - Updates user information.
  * @property deleteUser - Deletes a user by ID.
- * @property clearError - Clears the current error state.
+ * @property fetchQrToken - Fetches the current check-in token for a session.
+ * @property applySessionEvent - Applies a realtime session event to every cached copy of the session.
+ * @property invalidate - Marks cached resources as stale so the next fetch hits the server.
+ *   Invalidating 'sessions' also marks every session list stale.
+ * @property resetCache - Clears all cached data (e.g. on sign out).
+ * @property clearError - Clears the error of the given resources (or of every resource).
  */
 interface ApiState {
   courses: Course[];
+  rosters: Record<string, RosterEntry[]>;
   sessions: Session[];
+  sessionsPage: SessionPagination;
   activeSessions: Session[];
   closedSessions: Session[];
   attendance: Attendance[];
-  users: any[];
-  isLoading: boolean;
-  error: string | null;
+  timetable: TimetableSlot[];
+  users: User[];
+  terms: Term[];
+  termSelection: TermSelection;
+  sessionLists: Record<SessionListKey, SessionList>;
+  lastFetched: Partial<Record<CacheKey | SessionListKey, number>>;
+  requests: Partial<Record<ResourceKey, RequestState>>;
+  pendingMutations: Record<string, PendingMutation>;
+
+  // Term actions
+  fetchTerms: (options?: FetchOptions) => Promise<void>;
+  selectTerm: (selection: TermSelection) => void;
 
   // Course actions
-  fetchCourses: () => Promise<void>;
+  fetchCourses: (options?: FetchOptions) => Promise<void>;
   addCourse: (course: Omit<Course, 'id'>) => Promise<void>;
+  updateCourse: (courseCode: string, update: CourseUpdate) => Promise<Course>;
+  archiveCourse: (courseCode: string, semester: string | null) => Promise<Course>;
+  deleteCourse: (courseCode: string) => Promise<void>;
+  addCourseStaff: (courseCode: string, member: CourseStaffRequest) => Promise<Course>;
+  updateCourseStaff: (
+    courseCode: string,
+    userId: number,
+    role: CourseStaffRequest['role']
+  ) => Promise<Course>;
+  removeCourseStaff: (courseCode: string, userId: number) => Promise<Course>;
+  fetchRoster: (courseCode: string, signal?: AbortSignal) => Promise<RosterEntry[]>;
+  addToRoster: (courseCode: string, usernames: string[]) => Promise<void>;
+  removeFromRoster: (courseCode: string, username: string) => Promise<void>;
+  importRoster: (courseCode: string, rows: RosterImportRow[]) => Promise<RosterImportResult>;
+  enrollInCourse: (courseCode: string) => Promise<void>;
 
   // Session actions
-  fetchSessions: () => Promise<void>;
-  fetchActiveSessions: () => Promise<void>;
-  fetchClosedSessions: () => Promise<void>;
-  createSession: (sessionReq: SessionRequest, time?: number) => Promise<void>;
+  fetchSessions: (options?: SessionFetchOptions) => Promise<void>;
+  loadMoreSessions: () => Promise<void>;
+  fetchSessionList: (query: SessionQuery, options?: FetchOptions) => Promise<void>;
+  fetchActiveSessions: (options?: FetchOptions) => Promise<void>;
+  fetchClosedSessions: (options?: FetchOptions) => Promise<void>;
+  createSession: (
+    sessionReq: SessionRequest,
+    time?: number,
+    submissionId?: string
+  ) => Promise<void>;
+  discardSessionSubmission: (submissionId: string) => void;
+  fetchQrToken: (sessionId: number) => Promise<QrToken>;
+  endSession: (sessionId: number) => Promise<Session>;
+  extendSession: (sessionId: number, minutes: number) => Promise<Session>;
+  reopenSession: (sessionId: number, minutes?: number) => Promise<Session>;
+  applySessionEvent: (event: SessionEvent) => void;
+
+  // Timetable actions
+  fetchTimetable: (options?: FetchOptions) => Promise<void>;
+  addTimetableSlot: (slot: TimetableSlotRequest) => Promise<void>;
+  deleteTimetableSlot: (slotId: number) => Promise<void>;
 
   // Attendance actions
-  fetchAttendance: () => Promise<void>;
+  fetchAttendance: (options?: FetchOptions) => Promise<void>;
   fetchSingleAttendance: (attendanceId: number) => Promise<Attendance | undefined>;
-  markAttendance: (attendanceReq: AttendanceRequest) => Promise<boolean | undefined>;
+  markAttendance: (attendanceReq: AttendanceRequest) => Promise<AttendanceMarkResult | undefined>;
+  checkOut: (checkOutReq: AttendanceRequest) => Promise<void>;
+  searchStudents: (query: string, signal?: AbortSignal) => Promise<Student[]>;
+  overrideAttendance: (overrideReq: AttendanceOverrideRequest) => Promise<void>;
+  submitJustification: (justificationReq: AbsenceJustificationRequest) => Promise<void>;
+  reviewJustification: (review: AbsenceJustificationReview) => Promise<AbsenceJustification>;
 
   // User actions
-  fetchUserProfile: () => Promise<any>;
-  fetchUsers: () => Promise<void>;
+  fetchUserProfile: () => Promise<User>;
+  fetchUsers: (options?: FetchOptions) => Promise<void>;
   updateUser: (userData: any) => Promise<void>;
   deleteUser: (userId: number) => Promise<void>;
 
-  clearError: () => void;
+  // Cache actions
+  invalidate: (...keys: CacheKey[]) => void;
+  resetCache: () => void;
+
+  clearError: (...keys: ResourceKey[]) => void;
 }
 
 export type {
+  AbsenceJustification,
+  AbsenceJustificationRequest,
+  AbsenceJustificationReview,
+  AbsenceJustificationStatus,
   ApiState,
   Attendance,
+  AttendanceEntry,
+  AttendanceMarkResult,
+  AttendanceOverride,
+  AttendanceOverrideRequest,
+  AttendanceOverrideStatus,
+  AttendanceQueueState,
   AttendanceRequest,
+  AttendanceStatus,
+  CacheKey,
+  ConnectivityState,
   Course,
+  CourseStaffMember,
+  CourseStaffPermission,
+  CourseStaffRequest,
+  CourseStaffRole,
+  CourseUpdate,
   Department,
   departmentName,
+  FetchOptions,
+  JustificationAttachment,
   Lecturer,
   Location,
+  LocationIntegrityFlag,
+  LocationIntegrityReport,
+  Page,
+  PendingMutation,
+  QrToken,
+  QueuedAttendance,
+  QueuedAttendanceStatus,
+  RealtimeStatus,
+  RequestState,
+  RequestStatus,
+  ResourceKey,
+  ResourceStatus,
+  RosterEntry,
+  RosterImportField,
+  RosterImportIssue,
+  RosterImportMapping,
+  RosterImportPreview,
+  RosterImportResult,
+  RosterImportRow,
   Session,
+  SessionEvent,
+  SessionFetchOptions,
+  SessionList,
+  SessionListKey,
+  SessionPagination,
+  SessionQuery,
   SessionRequest,
+  SessionStatus,
   Student,
+  Term,
+  TermSelection,
+  TimetableSlot,
+  TimetableSlotRequest,
 };
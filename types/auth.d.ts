@@ -18,10 +18,12 @@ import { departmentName } from './app';
  * @property {User.role | null} role - The role of the current user for access control.
  * @property {boolean | null} resMessage - Response message for registration or other actions.
  * @property {string | null} token - Authentication token, if available.
+ * @property {string | null} refreshToken - Long-lived token used to obtain a new `token` when it expires.
  * @property {boolean} isLoading - Indicates if an authentication request is in progress.
  * @property {string | null} error - Error message, if any.
  * @property {(username: string, password: string) => Promise<void>} signIn - Function to sign in a user.
  * @property {() => void} signOut - Function to sign out the current user.
+ * @property {() => Promise<boolean>} refreshSession - Exchanges the refresh token for a new token; resolves false if the server rejects the refresh token and rejects with the `ApiError` if the refresh could not be completed.
  * @property {(user: any) => void} setUser - Function to set the current user.
  * @property {(userData: RegisterData) => Promise<void>} register - Function to register a new user.
  * @property {() => void} clearError - Function to clear the error state.
@@ -45,7 +47,7 @@ interface User {
   role: 'LECTURER' | 'STUDENT' | 'ADMIN';
   program?: string; // Optional for lecturers/admins
   IndexNumber?: string; // Optional for students
-  department: departmentName;
+  department?: departmentName;
 }
 
 interface AuthState {
@@ -53,13 +55,15 @@ interface AuthState {
   role: User.role | null; // User role for access control
   resMessage: boolean | null; // Response message for registration or other actions
   token: string | null;
+  refreshToken: string | null;
   isLoading: boolean;
   error: string | null;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => void;
+  refreshSession: () => Promise<boolean>;
   setUser: (user: any) => void;
   register: (userData: RegisterData) => Promise<void>;
-  forgotPassword : (email:string) => Promise<boolean>;
+  forgotPassword: (email: string) => Promise<boolean>;
   clearError: () => void;
 }
 